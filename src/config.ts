@@ -0,0 +1,366 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createLogger, DEFAULT_LOGGING_CONFIG, LOG_LEVELS } from './logger.js';
+import type { LoggingConfig } from './logger.js';
+import { resolveProjectRoot } from './project-root.js';
+import type { EncryptionConfig } from './session-crypto.js';
+import { SessionState, sessionStateSchema } from './session-schema.js';
+import { STORE_KINDS, STORE_SCOPES } from './stores/index.js';
+import type { SessionStoreConfig, SessionStoreKind, SessionStoreScope } from './stores/index.js';
+import { DEFAULT_WORKFLOW, loadWorkflowDefinition } from './workflow.js';
+import type { WorkflowDefinition } from './workflow.js';
+
+/**
+ * What to do when a new session would exceed `maxSessions`
+ */
+export type EvictionPolicy = 'lru' | 'oldest_created' | 'refuse';
+
+/**
+ * Per-deployment server configuration
+ */
+export interface KatPlannerConfig {
+  sessionTimeoutMs: number;          // 0 disables expiry
+  cleanupIntervalMs: number;
+  maxSessions: number;
+  neverExpireStates: SessionState[]; // Sessions in these states are never expired or evicted
+  evictionPolicy: EvictionPolicy;
+  evictionFraction: number;          // Share of evictable sessions removed when at capacity
+  flushDelayMs: number;              // Write-behind delay for changed sessions; 0 writes through immediately
+  store: SessionStoreConfig;
+  journalPath?: string;
+  encryption?: EncryptionConfig;     // Encrypt sessions, archive and journal at rest
+  user?: string;                     // Session namespace for clients without an auth principal
+  admins: string[];                  // Namespaces allowed to view sessions across all namespaces
+  logging: LoggingConfig;
+  workflow: WorkflowDefinition;      // States, transitions and guidance sessions follow
+}
+
+/**
+ * Shape of a `.katplannerrc` file (JSON). Every key is optional.
+ */
+interface RcFile {
+  sessionTimeoutMinutes?: number;
+  cleanupIntervalMinutes?: number;
+  maxSessions?: number;
+  neverExpireStates?: string[];
+  evictionPolicy?: string;
+  evictionFraction?: number;
+  flushDelayMs?: number;
+  sessionStore?: string;
+  sessionScope?: string;
+  sessionPath?: string;
+  archivePath?: string;
+  journalPath?: string;
+  encryptionKeyFile?: string; // Keys themselves are only accepted from the environment or a key file
+  user?: string;
+  admins?: string[];
+  logLevel?: string;
+  logFile?: string;
+  logFileMaxBytes?: number;
+  logFileMaxFiles?: number;
+  logRedaction?: boolean;
+  workflowFile?: string;
+}
+
+const RC_FILE_NAME = '.katplannerrc';
+// Settings a project's own rc may not set, so a cloned repository cannot pick its namespace, grant itself admin,
+// or point session data, keys and logs at files of its choosing
+const HOME_ONLY_RC_KEYS = ['sessionPath', 'archivePath', 'journalPath', 'encryptionKeyFile', 'logFile', 'user', 'admins'] as const;
+
+const log = createLogger('config');
+const EVICTION_POLICIES: EvictionPolicy[] = ['lru', 'oldest_created', 'refuse'];
+
+export const DEFAULT_CONFIG: KatPlannerConfig = {
+  sessionTimeoutMs: 30 * 60 * 1000, // 30 minutes
+  cleanupIntervalMs: 5 * 60 * 1000, // 5 minutes
+  maxSessions: 1000,                // Prevent memory bloat
+  neverExpireStates: [],
+  evictionPolicy: 'lru',
+  evictionFraction: 0.2,
+  flushDelayMs: 1000,
+  store: { kind: 'directory', scope: 'home' },
+  admins: [],
+  logging: DEFAULT_LOGGING_CONFIG,
+  workflow: DEFAULT_WORKFLOW
+};
+
+/**
+ * Load configuration. Later sources override earlier ones:
+ * defaults, `~/.katplannerrc`, the project's `.katplannerrc`, then KAT_PLANNER_* environment variables.
+ * Identity and file location settings in the project's rc (`HOME_ONLY_RC_KEYS`) are ignored.
+ */
+export function loadConfig(options: { cwd?: string; env?: NodeJS.ProcessEnv; homeDir?: string } = {}): KatPlannerConfig {
+  const env = options.env ?? process.env;
+  const homeRc = path.join(options.homeDir ?? os.homedir(), RC_FILE_NAME);
+  const projectRc = path.join(resolveProjectRoot([], options.cwd), RC_FILE_NAME);
+
+  const config: KatPlannerConfig = {
+    ...DEFAULT_CONFIG,
+    store: { ...DEFAULT_CONFIG.store },
+    admins: [...DEFAULT_CONFIG.admins],
+    logging: { ...DEFAULT_CONFIG.logging }
+  };
+
+  for (const rcPath of homeRc === projectRc ? [homeRc] : [homeRc, projectRc]) {
+    const rc = readRcFile(rcPath);
+    if (rc) {
+      applyRc(config, rcPath === homeRc ? rc : withoutHomeOnlyKeys(rc, rcPath), rcPath);
+    }
+  }
+
+  applyEnv(config, env);
+
+  // States are checked last, once the workflow that defines them is known
+  const states = config.workflow.states.map(state => state.name);
+  for (const state of config.neverExpireStates) {
+    if (!states.includes(state)) {
+      throw new Error(`Invalid neverExpireStates: "${state}" is not a state of workflow "${config.workflow.name}". Expected one of: ${states.join(', ')}`);
+    }
+  }
+  return config;
+}
+
+function readRcFile(rcPath: string): RcFile | undefined {
+  let data: string;
+  try {
+    data = fs.readFileSync(rcPath, 'utf-8');
+  } catch (err) {
+    if (err && typeof err === 'object' && 'code' in err && err.code === 'ENOENT') {
+      return undefined;
+    }
+    throw err;
+  }
+
+  try {
+    const rc = JSON.parse(data);
+    if (!rc || typeof rc !== 'object' || Array.isArray(rc)) {
+      throw new Error('expected a JSON object');
+    }
+    return rc;
+  } catch (err) {
+    throw new Error(`Invalid ${rcPath}: ${err instanceof Error ? err.message : 'unreadable'}`);
+  }
+}
+
+/**
+ * A project rc without the settings only the home rc and the environment may set
+ */
+function withoutHomeOnlyKeys(rc: RcFile, source: string): RcFile {
+  const ignored = HOME_ONLY_RC_KEYS.filter(key => rc[key] !== undefined);
+  if (ignored.length === 0) {
+    return rc;
+  }
+  log.warning('project_rc_setting_ignored', {
+    source,
+    settings: ignored,
+    reason: `${HOME_ONLY_RC_KEYS.join(', ')} are only read from ~/.katplannerrc and the environment`
+  });
+  const rest = { ...rc };
+  for (const key of ignored) {
+    delete rest[key];
+  }
+  return rest;
+}
+
+function applyRc(config: KatPlannerConfig, rc: RcFile, source: string): void {
+  if (rc.sessionTimeoutMinutes !== undefined) {
+    config.sessionTimeoutMs = minutes(nonNegative(rc.sessionTimeoutMinutes, 'sessionTimeoutMinutes', source));
+  }
+  if (rc.cleanupIntervalMinutes !== undefined) {
+    config.cleanupIntervalMs = minutes(positive(rc.cleanupIntervalMinutes, 'cleanupIntervalMinutes', source));
+  }
+  if (rc.maxSessions !== undefined) {
+    config.maxSessions = Math.floor(positive(rc.maxSessions, 'maxSessions', source));
+  }
+  if (rc.neverExpireStates !== undefined) {
+    if (!Array.isArray(rc.neverExpireStates)) {
+      throw new Error(`Invalid neverExpireStates in ${source}: expected an array of states`);
+    }
+    config.neverExpireStates = rc.neverExpireStates.map(state => stateName(state, 'neverExpireStates', source));
+  }
+  if (rc.evictionPolicy !== undefined) {
+    config.evictionPolicy = oneOf(rc.evictionPolicy, EVICTION_POLICIES, 'evictionPolicy', source);
+  }
+  if (rc.evictionFraction !== undefined) {
+    config.evictionFraction = fraction(rc.evictionFraction, 'evictionFraction', source);
+  }
+  if (rc.flushDelayMs !== undefined) {
+    config.flushDelayMs = nonNegative(rc.flushDelayMs, 'flushDelayMs', source);
+  }
+  if (rc.sessionStore !== undefined) {
+    config.store.kind = oneOf<SessionStoreKind>(rc.sessionStore, STORE_KINDS, 'sessionStore', source);
+  }
+  if (rc.sessionScope !== undefined) {
+    config.store.scope = oneOf<SessionStoreScope>(rc.sessionScope, STORE_SCOPES, 'sessionScope', source);
+  }
+  if (rc.sessionPath !== undefined) {
+    config.store.path = path.resolve(path.dirname(source), rc.sessionPath);
+  }
+  if (rc.archivePath !== undefined) {
+    config.store.archivePath = path.resolve(path.dirname(source), rc.archivePath);
+  }
+  if (rc.journalPath !== undefined) {
+    config.journalPath = path.resolve(path.dirname(source), rc.journalPath);
+  }
+  if (rc.encryptionKeyFile !== undefined) {
+    config.encryption = { ...config.encryption, keyFile: path.resolve(path.dirname(source), rc.encryptionKeyFile) };
+  }
+  if (rc.user !== undefined) {
+    config.user = nonEmpty(rc.user, 'user', source);
+  }
+  if (rc.admins !== undefined) {
+    if (!Array.isArray(rc.admins)) {
+      throw new Error(`Invalid admins in ${source}: expected an array of namespaces`);
+    }
+    config.admins = rc.admins.map(admin => nonEmpty(admin, 'admins', source));
+  }
+  if (rc.logLevel !== undefined) {
+    config.logging.level = oneOf(rc.logLevel, LOG_LEVELS, 'logLevel', source);
+  }
+  if (rc.logFile !== undefined) {
+    config.logging.file = path.resolve(path.dirname(source), nonEmpty(rc.logFile, 'logFile', source));
+  }
+  if (rc.logFileMaxBytes !== undefined) {
+    config.logging.maxFileBytes = Math.floor(positive(rc.logFileMaxBytes, 'logFileMaxBytes', source));
+  }
+  if (rc.logFileMaxFiles !== undefined) {
+    config.logging.maxFiles = Math.floor(nonNegative(rc.logFileMaxFiles, 'logFileMaxFiles', source));
+  }
+  if (rc.logRedaction !== undefined) {
+    if (typeof rc.logRedaction !== 'boolean') {
+      throw new Error(`Invalid logRedaction in ${source}: expected true or false`);
+    }
+    config.logging.redact = rc.logRedaction;
+  }
+  if (rc.workflowFile !== undefined) {
+    config.workflow = loadWorkflowDefinition(path.resolve(path.dirname(source), nonEmpty(rc.workflowFile, 'workflowFile', source)));
+  }
+}
+
+function applyEnv(config: KatPlannerConfig, env: NodeJS.ProcessEnv): void {
+  const source = 'environment';
+
+  if (env.KAT_PLANNER_SESSION_TIMEOUT_MINUTES) {
+    config.sessionTimeoutMs = minutes(nonNegative(Number(env.KAT_PLANNER_SESSION_TIMEOUT_MINUTES), 'KAT_PLANNER_SESSION_TIMEOUT_MINUTES', source));
+  }
+  if (env.KAT_PLANNER_CLEANUP_INTERVAL_MINUTES) {
+    config.cleanupIntervalMs = minutes(positive(Number(env.KAT_PLANNER_CLEANUP_INTERVAL_MINUTES), 'KAT_PLANNER_CLEANUP_INTERVAL_MINUTES', source));
+  }
+  if (env.KAT_PLANNER_MAX_SESSIONS) {
+    config.maxSessions = Math.floor(positive(Number(env.KAT_PLANNER_MAX_SESSIONS), 'KAT_PLANNER_MAX_SESSIONS', source));
+  }
+  if (env.KAT_PLANNER_NEVER_EXPIRE_STATES !== undefined) {
+    config.neverExpireStates = env.KAT_PLANNER_NEVER_EXPIRE_STATES
+      .split(',')
+      .map(state => state.trim())
+      .filter(Boolean)
+      .map(state => stateName(state, 'KAT_PLANNER_NEVER_EXPIRE_STATES', source));
+  }
+  if (env.KAT_PLANNER_EVICTION_POLICY) {
+    config.evictionPolicy = oneOf(env.KAT_PLANNER_EVICTION_POLICY, EVICTION_POLICIES, 'KAT_PLANNER_EVICTION_POLICY', source);
+  }
+  if (env.KAT_PLANNER_EVICTION_FRACTION) {
+    config.evictionFraction = fraction(Number(env.KAT_PLANNER_EVICTION_FRACTION), 'KAT_PLANNER_EVICTION_FRACTION', source);
+  }
+  if (env.KAT_PLANNER_FLUSH_DELAY_MS) {
+    config.flushDelayMs = nonNegative(Number(env.KAT_PLANNER_FLUSH_DELAY_MS), 'KAT_PLANNER_FLUSH_DELAY_MS', source);
+  }
+  if (env.KAT_PLANNER_SESSION_STORE) {
+    config.store.kind = oneOf<SessionStoreKind>(env.KAT_PLANNER_SESSION_STORE, STORE_KINDS, 'KAT_PLANNER_SESSION_STORE', source);
+  }
+  if (env.KAT_PLANNER_SESSION_SCOPE) {
+    config.store.scope = oneOf<SessionStoreScope>(env.KAT_PLANNER_SESSION_SCOPE, STORE_SCOPES, 'KAT_PLANNER_SESSION_SCOPE', source);
+  }
+  if (env.KAT_PLANNER_SESSION_PATH) {
+    config.store.path = path.resolve(env.KAT_PLANNER_SESSION_PATH);
+  }
+  if (env.KAT_PLANNER_ARCHIVE_PATH) {
+    config.store.archivePath = path.resolve(env.KAT_PLANNER_ARCHIVE_PATH);
+  }
+  if (env.KAT_PLANNER_JOURNAL_PATH) {
+    config.journalPath = path.resolve(env.KAT_PLANNER_JOURNAL_PATH);
+  }
+  if (env.KAT_PLANNER_ENCRYPTION_KEY) {
+    config.encryption = { ...config.encryption, key: env.KAT_PLANNER_ENCRYPTION_KEY };
+  }
+  if (env.KAT_PLANNER_ENCRYPTION_KEY_FILE) {
+    config.encryption = { ...config.encryption, keyFile: path.resolve(env.KAT_PLANNER_ENCRYPTION_KEY_FILE) };
+  }
+  if (env.KAT_PLANNER_PREVIOUS_ENCRYPTION_KEYS) {
+    config.encryption = {
+      ...config.encryption,
+      previousKeys: env.KAT_PLANNER_PREVIOUS_ENCRYPTION_KEYS.split(',').map(key => key.trim()).filter(Boolean)
+    };
+  }
+  if (env.KAT_PLANNER_USER) {
+    config.user = nonEmpty(env.KAT_PLANNER_USER, 'KAT_PLANNER_USER', source);
+  }
+  if (env.KAT_PLANNER_ADMINS !== undefined) {
+    config.admins = env.KAT_PLANNER_ADMINS.split(',').map(admin => admin.trim()).filter(Boolean);
+  }
+  if (env.KAT_PLANNER_LOG_LEVEL) {
+    config.logging.level = oneOf(env.KAT_PLANNER_LOG_LEVEL, LOG_LEVELS, 'KAT_PLANNER_LOG_LEVEL', source);
+  }
+  if (env.KAT_PLANNER_LOG_FILE) {
+    config.logging.file = path.resolve(env.KAT_PLANNER_LOG_FILE);
+  }
+  if (env.KAT_PLANNER_LOG_FILE_MAX_BYTES) {
+    config.logging.maxFileBytes = Math.floor(positive(Number(env.KAT_PLANNER_LOG_FILE_MAX_BYTES), 'KAT_PLANNER_LOG_FILE_MAX_BYTES', source));
+  }
+  if (env.KAT_PLANNER_LOG_FILE_MAX_FILES) {
+    config.logging.maxFiles = Math.floor(nonNegative(Number(env.KAT_PLANNER_LOG_FILE_MAX_FILES), 'KAT_PLANNER_LOG_FILE_MAX_FILES', source));
+  }
+  if (env.KAT_PLANNER_LOG_REDACTION) {
+    config.logging.redact = oneOf(env.KAT_PLANNER_LOG_REDACTION, ['true', 'false'], 'KAT_PLANNER_LOG_REDACTION', source) === 'true';
+  }
+  if (env.KAT_PLANNER_WORKFLOW_FILE) {
+    config.workflow = loadWorkflowDefinition(path.resolve(env.KAT_PLANNER_WORKFLOW_FILE));
+  }
+}
+
+function minutes(value: number): number {
+  return value * 60 * 1000;
+}
+
+function nonNegative(value: unknown, key: string, source: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    throw new Error(`Invalid ${key} in ${source}: expected a number >= 0`);
+  }
+  return value;
+}
+
+function positive(value: unknown, key: string, source: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    throw new Error(`Invalid ${key} in ${source}: expected a number > 0`);
+  }
+  return value;
+}
+
+function fraction(value: unknown, key: string, source: string): number {
+  if (typeof value !== 'number' || !(value > 0 && value <= 1)) {
+    throw new Error(`Invalid ${key} in ${source}: expected a number in (0, 1]`);
+  }
+  return value;
+}
+
+function nonEmpty(value: unknown, key: string, source: string): string {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new Error(`Invalid ${key} in ${source}: expected a non-empty string`);
+  }
+  return value.trim();
+}
+
+function stateName(value: unknown, key: string, source: string): SessionState {
+  if (!sessionStateSchema.safeParse(value).success) {
+    throw new Error(`Invalid ${key} in ${source}: "${String(value)}" is not a state name`);
+  }
+  return value as SessionState;
+}
+
+function oneOf<T extends string>(value: unknown, allowed: readonly T[], key: string, source: string): T {
+  if (typeof value !== 'string' || !allowed.includes(value as T)) {
+    throw new Error(`Invalid ${key} in ${source}: "${String(value)}". Expected one of: ${allowed.join(', ')}`);
+  }
+  return value as T;
+}
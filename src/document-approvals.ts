@@ -0,0 +1,76 @@
+import { Session } from './session-schema.js';
+
+type GeneratedDocument = NonNullable<Session['generatedDocuments']>[number];
+type ApprovalStatus = NonNullable<Session['approvalStatus']>;
+
+/**
+ * Where a document's current version stands in review
+ */
+export type DocumentApprovalStatus = 'approved' | 'rejected' | 'pending';
+
+/**
+ * Review status of one generated document
+ */
+export interface DocumentApproval {
+  title: string;
+  version: number;
+  status: DocumentApprovalStatus;
+  comment?: string;
+  reviewedAt?: number;
+}
+
+/**
+ * Status of each generated document's current version. Reviews of earlier versions do not count,
+ * so a revised document is pending again. A rejection is answered by the next revision, so a
+ * rejected document that revision left unchanged is pending again too.
+ */
+export function documentApprovals(session: Session): DocumentApproval[] {
+  const reviews = session.documentReviews ?? [];
+  const revisedAt = session.revisions?.[session.revisions.length - 1]?.requestedAt ?? 0;
+  return (session.generatedDocuments ?? []).map(doc => {
+    const version = doc.version ?? 1;
+    const review = [...reviews].reverse().find(candidate => candidate.document === doc.title && candidate.version === version);
+    if (!review || (review.decision === 'rejected' && review.reviewedAt <= revisedAt)) {
+      return { title: doc.title, version, status: 'pending' };
+    }
+    return {
+      title: doc.title,
+      version,
+      status: review.decision,
+      comment: review.comment,
+      reviewedAt: review.reviewedAt
+    };
+  });
+}
+
+/**
+ * `approvalStatus` flags matching the documents' reviews; `overall` once every document is approved
+ */
+export function approvalStatusFor(session: Session): ApprovalStatus {
+  const approvals = documentApprovals(session);
+  const approved = (flag: keyof ApprovalStatus) =>
+    approvals.some(approval => approval.status === 'approved' && approvalFlag(approval.title) === flag);
+
+  return {
+    requirements: approved('requirements'),
+    design: approved('design'),
+    tasks: approved('tasks'),
+    agents: approved('agents'),
+    overall: approvals.length > 0 && approvals.every(approval => approval.status === 'approved')
+  };
+}
+
+/**
+ * Find a generated document by title, with or without `.md` and ignoring case
+ */
+export function findDocument(session: Session, name: string): GeneratedDocument | undefined {
+  const wanted = name.trim().toLowerCase().replace(/\.md$/, '');
+  return session.generatedDocuments?.find(doc => doc.title.toLowerCase().replace(/\.md$/, '') === wanted);
+}
+
+/**
+ * The `approvalStatus` flag a document title maps to, e.g. design.md → design
+ */
+function approvalFlag(title: string): string {
+  return title.toLowerCase().replace(/\.md$/, '');
+}
@@ -0,0 +1,64 @@
+import { documentApprovals } from './document-approvals.js';
+import { Session, SessionRevision } from './session-schema.js';
+import { unifiedDiff } from './text-diff.js';
+
+type GeneratedDocument = NonNullable<Session['generatedDocuments']>[number];
+
+/**
+ * Result of applying a revision request to a session's specification and documents
+ */
+export interface AppliedRevision {
+  documents: GeneratedDocument[];
+  revision: SessionRevision;
+  reopened: string[]; // Rejected documents the revision left unchanged, which are pending review again
+}
+
+/**
+ * Record a revision: `revisedSpecification` is the specification with the request folded in and
+ * `regenerated` the documents generated from it. Only documents whose content changed get the new
+ * content, a version bump and a diff; the rest are kept as they are.
+ */
+export function applyRevision(
+  session: Session,
+  specification: string,
+  revisedSpecification: string,
+  regenerated: Array<{ title: string; content: string }>,
+  request: string
+): AppliedRevision {
+  const number = (session.revisions?.length ?? 0) + 1;
+  const changes: SessionRevision['documents'] = [];
+
+  const documents = (session.generatedDocuments ?? []).map(doc => {
+    const content = regenerated.find(candidate => candidate.title === doc.title)?.content;
+    if (content === undefined || content === doc.content) {
+      return doc;
+    }
+
+    const fromVersion = doc.version ?? 1;
+    const toVersion = fromVersion + 1;
+    changes.push({
+      title: doc.title,
+      fromVersion,
+      toVersion,
+      diff: unifiedDiff(doc.content, content, { from: `${doc.title} v${fromVersion}`, to: `${doc.title} v${toVersion}` })
+    });
+    return { ...doc, content, version: toVersion };
+  });
+
+  const reopened = documentApprovals(session)
+    .filter(approval => approval.status === 'rejected' && !changes.some(change => change.title === approval.title))
+    .map(approval => approval.title);
+
+  return {
+    documents,
+    reopened,
+    revision: {
+      revision: number,
+      requestedAt: Date.now(),
+      request,
+      fromState: session.state,
+      specificationDiff: unifiedDiff(specification, revisedSpecification, { from: `specification r${number - 1}`, to: `specification r${number}` }),
+      documents: changes
+    }
+  };
+}
@@ -0,0 +1,123 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+/**
+ * Options for acquiring an advisory lock file
+ */
+export interface FileLockOptions {
+  staleMs?: number;      // Lock files older than this are considered abandoned
+  retryDelayMs?: number; // Delay between acquisition attempts
+  timeoutMs?: number;    // Give up after this long
+}
+
+const DEFAULT_LOCK_OPTIONS: Required<FileLockOptions> = {
+  staleMs: 10 * 1000,
+  retryDelayMs: 25,
+  timeoutMs: 5 * 1000
+};
+
+/**
+ * Run `fn` while holding an advisory lock on `targetPath`.
+ *
+ * The lock is a sibling `<targetPath>.lock` file created with O_EXCL, so it is
+ * shared by every kat-planner process on the machine. Locks left behind by a
+ * crashed process are reclaimed once their owner is gone or they go stale.
+ */
+export async function withFileLock<T>(
+  targetPath: string,
+  fn: () => Promise<T>,
+  options: FileLockOptions = {}
+): Promise<T> {
+  const opts = { ...DEFAULT_LOCK_OPTIONS, ...options };
+  const lockPath = `${targetPath}.lock`;
+  const deadline = Date.now() + opts.timeoutMs;
+
+  await fs.mkdir(path.dirname(lockPath), { recursive: true });
+
+  while (true) {
+    try {
+      const handle = await fs.open(lockPath, 'wx');
+      try {
+        await handle.writeFile(JSON.stringify({ pid: process.pid, acquiredAt: Date.now() }));
+      } finally {
+        await handle.close();
+      }
+      break;
+    } catch (err) {
+      if (!isErrnoException(err) || err.code !== 'EEXIST') {
+        throw err;
+      }
+
+      if (await isLockAbandoned(lockPath, opts.staleMs)) {
+        await fs.unlink(lockPath).catch(() => undefined);
+        continue;
+      }
+
+      if (Date.now() >= deadline) {
+        throw new Error(`Timed out waiting for lock on ${targetPath}`);
+      }
+      await new Promise(resolve => setTimeout(resolve, opts.retryDelayMs));
+    }
+  }
+
+  try {
+    return await fn();
+  } finally {
+    await fs.unlink(lockPath).catch(() => undefined);
+  }
+}
+
+/**
+ * Write a file atomically: write to a temp file in the same directory, fsync it, then rename over the target
+ */
+export async function writeFileAtomic(filePath: string, data: string): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.${Math.random().toString(36).substr(2, 6)}.tmp`;
+
+  try {
+    const handle = await fs.open(tempPath, 'w');
+    try {
+      await handle.writeFile(data);
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.rename(tempPath, filePath);
+  } catch (err) {
+    await fs.unlink(tempPath).catch(() => undefined);
+    throw err;
+  }
+}
+
+/**
+ * A lock is abandoned when its owning process no longer exists or it is older than `staleMs`
+ */
+async function isLockAbandoned(lockPath: string, staleMs: number): Promise<boolean> {
+  try {
+    const [stat, contents] = await Promise.all([
+      fs.stat(lockPath),
+      fs.readFile(lockPath, 'utf-8')
+    ]);
+
+    if (Date.now() - stat.mtimeMs > staleMs) {
+      return true;
+    }
+
+    const owner = JSON.parse(contents);
+    if (typeof owner.pid === 'number' && owner.pid !== process.pid) {
+      try {
+        process.kill(owner.pid, 0);
+      } catch (err) {
+        return isErrnoException(err) && err.code === 'ESRCH';
+      }
+    }
+    return false;
+  } catch {
+    // Lock vanished or is mid-write; retry acquisition rather than deleting it
+    return false;
+  }
+}
+
+// Duck-typed: errors from another realm (e.g. a vm context) fail `instanceof Error`
+function isErrnoException(err: unknown): err is NodeJS.ErrnoException {
+  return typeof err === 'object' && err !== null && 'code' in err;
+}
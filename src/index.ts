@@ -1,7 +1,10 @@
+import { createLogger } from './logger.js';
 import { main } from './server';
 
+const log = createLogger('index');
+
 // Start the server
 main().catch((error) => {
-  console.error('Failed to start server:', error);
+  log.error('server_start_failed', { error });
   process.exit(1);
 });
\ No newline at end of file
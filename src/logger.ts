@@ -0,0 +1,259 @@
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SetLevelRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Log levels, least to most severe. The same levels as MCP `logging/setLevel`.
+ */
+export const LOG_LEVELS = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'] as const;
+export type LogLevel = typeof LOG_LEVELS[number];
+
+/**
+ * Where log entries go and how much of them is kept
+ */
+export interface LoggingConfig {
+  level: LogLevel;      // Minimum level written to stderr and the log file
+  file?: string;        // Also append entries to this file
+  maxFileBytes: number; // Rotate the log file once it would grow past this size
+  maxFiles: number;     // Rotated files kept next to the log file (file.1 is the newest)
+  redact: boolean;      // Replace user content (ideas, answers, specifications, ...) with its length
+}
+
+export const DEFAULT_LOGGING_CONFIG: LoggingConfig = {
+  level: 'info',
+  maxFileBytes: 10 * 1024 * 1024,
+  maxFiles: 5,
+  redact: true
+};
+
+/**
+ * Minimum level forwarded to the MCP client until it asks for another with `logging/setLevel`
+ */
+const DEFAULT_CLIENT_LEVEL: LogLevel = 'warning';
+
+// Fields holding what the user wrote or what was generated from it
+const USER_CONTENT_FIELDS = new Set([
+  'userIdea', 'answers', 'userAnswers', 'questionRounds', 'refinedSpecification', 'revisionRequest',
+  'generatedDocuments', 'revisions', 'documentReviews', 'comment', 'content', 'label', 'query', 'bundle'
+]);
+
+// Never logged, whatever the redaction setting
+const SECRET_FIELDS = new Set(['key', 'keys', 'previousKeys', 'token', 'password', 'secret']);
+
+/**
+ * One structured log line
+ */
+export interface LogEntry {
+  timestamp: string;
+  level: LogLevel;
+  logger: string;
+  message: string;
+  [field: string]: unknown;
+}
+
+/**
+ * Appends log lines to a file, rotating it into `file.1` ... `file.N` when it gets too big.
+ * Writes are synchronous so entries logged right before the process exits are not lost.
+ */
+class RotatingFileSink {
+  private size: number;
+
+  constructor(
+    private readonly file: string,
+    private readonly maxBytes: number,
+    private readonly maxFiles: number
+  ) {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    this.size = fs.existsSync(file) ? fs.statSync(file).size : 0;
+  }
+
+  write(line: string): void {
+    const bytes = Buffer.byteLength(line);
+    if (this.size > 0 && this.size + bytes > this.maxBytes) {
+      this.rotate();
+    }
+    fs.appendFileSync(this.file, line);
+    this.size += bytes;
+  }
+
+  private rotate(): void {
+    fs.rmSync(`${this.file}.${this.maxFiles}`, { force: true });
+    for (let index = this.maxFiles - 1; index >= 1; index--) {
+      if (fs.existsSync(`${this.file}.${index}`)) {
+        fs.renameSync(`${this.file}.${index}`, `${this.file}.${index + 1}`);
+      }
+    }
+    if (this.maxFiles > 0) {
+      fs.renameSync(this.file, `${this.file}.1`);
+    } else {
+      fs.rmSync(this.file, { force: true });
+    }
+    this.size = 0;
+  }
+}
+
+/**
+ * Shared destination of every logger: stderr, the optional log file and the MCP client.
+ * Nothing is ever written to stdout, which carries the protocol on stdio transports.
+ */
+class LogRouter {
+  private config: LoggingConfig = { ...DEFAULT_LOGGING_CONFIG };
+  private fileSink?: RotatingFileSink;
+  private mcpServer?: Server;
+  private clientLevel: LogLevel = DEFAULT_CLIENT_LEVEL;
+
+  configure(config: LoggingConfig): void {
+    this.config = { ...config };
+    this.fileSink = undefined;
+    if (config.file) {
+      try {
+        this.fileSink = new RotatingFileSink(config.file, config.maxFileBytes, config.maxFiles);
+      } catch (err) {
+        this.reportSinkFailure('file', err);
+      }
+    }
+  }
+
+  attach(server: Server): void {
+    this.mcpServer = server;
+    // Replaces the SDK's handler, which forwards every level until the client sets one
+    server.setRequestHandler(SetLevelRequestSchema, async request => {
+      this.clientLevel = request.params.level;
+      return {};
+    });
+  }
+
+  write(level: LogLevel, name: string, message: string, fields: Record<string, unknown>): void {
+    const toLocal = isAtLeast(level, this.config.level);
+    const toClient = this.mcpServer !== undefined && isAtLeast(level, this.clientLevel);
+    if (!toLocal && !toClient) {
+      return;
+    }
+
+    const entry: LogEntry = {
+      timestamp: new Date().toISOString(),
+      level,
+      logger: name,
+      message,
+      ...this.redact(fields)
+    };
+
+    if (toLocal) {
+      const line = JSON.stringify(entry) + '\n';
+      process.stderr.write(line);
+      if (this.fileSink) {
+        try {
+          this.fileSink.write(line);
+        } catch (err) {
+          this.fileSink = undefined;
+          this.reportSinkFailure('file', err);
+        }
+      }
+    }
+
+    // Only once the client has initialized; notifications before that are a protocol error
+    if (toClient && this.mcpServer?.getClientVersion()) {
+      this.mcpServer.sendLoggingMessage({ level, logger: name, data: entry }).catch(err => {
+        this.reportSinkFailure('mcp', err);
+      });
+    }
+  }
+
+  private redact(fields: Record<string, unknown>): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(fields).map(([key, value]) => [key, this.redactValue(key, value)]));
+  }
+
+  private redactValue(key: string, value: unknown): unknown {
+    if (value === undefined || value === null) {
+      return value;
+    }
+    if (SECRET_FIELDS.has(key)) {
+      return '[redacted]';
+    }
+    if (this.config.redact && USER_CONTENT_FIELDS.has(key)) {
+      const length = typeof value === 'string' ? value.length : JSON.stringify(value).length;
+      return `[redacted: ${length} chars]`;
+    }
+    if (value instanceof Error) {
+      return { name: value.name, message: value.message, stack: value.stack };
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.redactValue('', item));
+    }
+    if (typeof value === 'object') {
+      return this.redact(value as Record<string, unknown>);
+    }
+    return value;
+  }
+
+  // A failing sink must not take logging down with it, and must not log through itself
+  private reportSinkFailure(sink: string, err: unknown): void {
+    process.stderr.write(JSON.stringify({
+      timestamp: new Date().toISOString(),
+      level: 'error',
+      logger: 'logger',
+      message: `log_${sink}_sink_failed`,
+      error: err instanceof Error ? err.message : String(err)
+    }) + '\n');
+  }
+}
+
+const router = new LogRouter();
+
+/**
+ * Named logger writing structured entries through the shared sinks
+ */
+export class Logger {
+  constructor(private readonly name: string) {}
+
+  debug(message: string, fields: Record<string, unknown> = {}): void {
+    this.log('debug', message, fields);
+  }
+
+  info(message: string, fields: Record<string, unknown> = {}): void {
+    this.log('info', message, fields);
+  }
+
+  notice(message: string, fields: Record<string, unknown> = {}): void {
+    this.log('notice', message, fields);
+  }
+
+  warning(message: string, fields: Record<string, unknown> = {}): void {
+    this.log('warning', message, fields);
+  }
+
+  error(message: string, fields: Record<string, unknown> = {}): void {
+    this.log('error', message, fields);
+  }
+
+  log(level: LogLevel, message: string, fields: Record<string, unknown> = {}): void {
+    router.write(level, this.name, message, fields);
+  }
+}
+
+/**
+ * Logger for one component, e.g. `createLogger('session-manager')`
+ */
+export function createLogger(name: string): Logger {
+  return new Logger(name);
+}
+
+/**
+ * Apply level, file sink and redaction settings to every logger
+ */
+export function configureLogging(config: LoggingConfig): void {
+  router.configure(config);
+}
+
+/**
+ * Forward log entries to the MCP client as `notifications/message`, honoring its `logging/setLevel`.
+ * The server must declare the `logging` capability.
+ */
+export function attachLoggingToMcpServer(server: Server): void {
+  router.attach(server);
+}
+
+function isAtLeast(level: LogLevel, minimum: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(minimum);
+}
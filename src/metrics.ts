@@ -0,0 +1,301 @@
+import type { JournalEvent } from './session-journal.js';
+import { DEFAULT_SESSION_OWNER, SessionState } from './session-schema.js';
+
+/**
+ * Upper bounds (seconds) of the phase duration histogram buckets: 1m, 5m, 15m, 1h, 4h, 1d, 1w
+ */
+export const PHASE_DURATION_BUCKETS = [60, 300, 900, 3600, 14400, 86400, 604800];
+
+type Labels = Record<string, string>;
+
+interface CounterDefinition {
+  name: string;
+  help: string;
+}
+
+interface HistogramSeries {
+  labels: Labels;
+  buckets: number[]; // Cumulative counts per bound in PHASE_DURATION_BUCKETS
+  count: number;
+  sum: number;
+}
+
+const COUNTERS = {
+  sessionsCreated: { name: 'kat_sessions_created_total', help: 'Sessions created, by origin (new, forked, imported, restored)' },
+  transitions: { name: 'kat_state_transitions_total', help: 'Workflow state transitions, by from and to state' },
+  invalidTransitions: { name: 'kat_invalid_transitions_total', help: 'Rejected workflow state transitions, by from and to state' },
+  approvalRejections: { name: 'kat_approval_rejections_total', help: 'Approval requests that did not carry an approval, by workflow stage' },
+  rollbacks: { name: 'kat_rollbacks_total', help: 'Session rollbacks, by whether they overrode the transition rules' }
+} satisfies Record<string, CounterDefinition>;
+
+const PHASE_DURATION = {
+  name: 'kat_phase_duration_seconds',
+  help: 'Time a session spent in a workflow state before leaving it'
+};
+
+const SESSIONS_BY_STATE = {
+  name: 'kat_active_sessions',
+  help: 'Active sessions, by current workflow state'
+};
+
+// Session events that create a session, and the origin they are counted under
+const CREATION_EVENTS: Record<string, string> = {
+  session_created: 'new',
+  session_forked: 'forked',
+  session_imported: 'imported',
+  session_restored: 'restored'
+};
+
+// Counter and histogram series of one owner namespace
+interface NamespaceSeries {
+  counters: Map<string, Map<string, { labels: Labels; value: number }>>;
+  phaseDurations: Map<string, HistogramSeries>;
+}
+
+/**
+ * JSON view of the workflow metrics
+ */
+export interface WorkflowMetricsReport {
+  generatedAt: string;
+  namespace?: string; // Namespace the figures cover; unset when they cover every namespace
+  activeSessions: Record<SessionState, number>;
+  funnel: Array<{ state: SessionState; reached: number; share: number }>; // Active sessions at or past each state
+  counters: Record<string, Array<{ labels: Labels; value: number }>>;
+  histograms: Record<string, Array<{ labels: Labels; count: number; sumSeconds: number; buckets: Record<string, number> }>>;
+}
+
+/**
+ * Counters and histograms of workflow activity per owner namespace, seeded from the session
+ * journals when the server starts and kept current from session events
+ */
+export class WorkflowMetrics {
+  private namespaces = new Map<string, NamespaceSeries>();
+
+  /**
+   * Update the metrics from a session manager event on a session of `owner`
+   */
+  recordSessionEvent(event: string, details: Record<string, unknown>, owner: string = DEFAULT_SESSION_OWNER): void {
+    const origin = CREATION_EVENTS[event];
+    if (origin) {
+      this.increment(owner, COUNTERS.sessionsCreated, { origin });
+      return;
+    }
+
+    switch (event) {
+      case 'session_updated':
+        if (isState(details.fromState) && isState(details.newState) && details.fromState !== details.newState) {
+          this.increment(owner, COUNTERS.transitions, { from: details.fromState, to: details.newState });
+          if (typeof details.phaseDurationMs === 'number') {
+            this.observePhaseDuration(owner, details.fromState, details.phaseDurationMs / 1000);
+          }
+        }
+        break;
+      case 'state_transition_invalid':
+        this.increment(owner, COUNTERS.invalidTransitions, { from: String(details.fromState), to: String(details.toState) });
+        break;
+      case 'approval_rejected':
+        this.increment(owner, COUNTERS.approvalRejections, { stage: String(details.stage) });
+        break;
+      case 'session_rolled_back':
+        this.increment(owner, COUNTERS.rollbacks, { override: String(details.override === true) });
+        break;
+    }
+  }
+
+  /**
+   * Add one session's journal to the metrics, e.g. to rebuild them after a restart. Only events
+   * from before `before` (epoch ms) are counted, so events also reported live are not counted twice.
+   */
+  replayJournal(events: JournalEvent[], before: number = Date.now()): void {
+    let owner = DEFAULT_SESSION_OWNER;
+    let enteredStateAt: number | undefined;
+
+    for (const event of events) {
+      const at = Date.parse(event.timestamp);
+      if (!(at < before)) {
+        break;
+      }
+
+      switch (event.type) {
+        case 'session_created':
+          owner = event.changes?.owner ?? DEFAULT_SESSION_OWNER;
+          enteredStateAt = at;
+          this.increment(owner, COUNTERS.sessionsCreated, { origin: event.reason ?? (event.changes?.forkedFrom ? 'forked' : 'new') });
+          break;
+        case 'session_restored':
+          this.increment(owner, COUNTERS.sessionsCreated, { origin: 'restored' });
+          break;
+        case 'state_transition':
+          if (isState(event.fromState) && isState(event.toState) && event.fromState !== event.toState) {
+            this.increment(owner, COUNTERS.transitions, { from: event.fromState, to: event.toState });
+            if (enteredStateAt !== undefined) {
+              this.observePhaseDuration(owner, event.fromState, (at - enteredStateAt) / 1000);
+            }
+          }
+          enteredStateAt = at;
+          break;
+        case 'session_rolled_back':
+          this.increment(owner, COUNTERS.rollbacks, { override: String(event.rollback?.override === true) });
+          enteredStateAt = at;
+          break;
+        case 'state_transition_invalid':
+        case 'approval_rejected':
+          this.recordSessionEvent(event.type, event.details ?? {}, owner);
+          break;
+      }
+    }
+  }
+
+  /**
+   * Metrics as a JSON document, with the funnel computed from the current sessions per state.
+   * `activeSessions` lists states in workflow order. With `namespace` set only that namespace's
+   * figures are included; otherwise every namespace's are added up.
+   */
+  toJSON(activeSessions: Record<SessionState, number>, namespace?: string): WorkflowMetricsReport {
+    const { counters, phaseDurations } = this.seriesOf(namespace);
+    const states = Object.keys(activeSessions);
+    const total = states.reduce((sum, state) => sum + activeSessions[state]!, 0);
+    const funnel = states.map((state, index) => {
+      const reached = states.slice(index).reduce((sum, later) => sum + activeSessions[later]!, 0);
+      return { state, reached, share: total > 0 ? reached / total : 0 };
+    });
+
+    return {
+      generatedAt: new Date().toISOString(),
+      namespace,
+      activeSessions,
+      funnel,
+      counters: Object.fromEntries(Object.values(COUNTERS).map(counter => [
+        counter.name,
+        Array.from(counters.get(counter.name)?.values() ?? []).map(series => ({ ...series }))
+      ])),
+      histograms: {
+        [PHASE_DURATION.name]: Array.from(phaseDurations.values()).map(series => ({
+          labels: series.labels,
+          count: series.count,
+          sumSeconds: series.sum,
+          buckets: Object.fromEntries(PHASE_DURATION_BUCKETS.map((bound, index) => [String(bound), series.buckets[index]!]))
+        }))
+      }
+    };
+  }
+
+  /**
+   * Metrics in the Prometheus text exposition format (version 0.0.4), for one namespace or all of them
+   */
+  toPrometheus(activeSessions: Record<SessionState, number>, namespace?: string): string {
+    const { counters, phaseDurations } = this.seriesOf(namespace);
+    const lines: string[] = [];
+
+    for (const counter of Object.values(COUNTERS)) {
+      lines.push(`# HELP ${counter.name} ${counter.help}`, `# TYPE ${counter.name} counter`);
+      for (const series of counters.get(counter.name)?.values() ?? []) {
+        lines.push(`${counter.name}${formatLabels(series.labels)} ${series.value}`);
+      }
+    }
+
+    lines.push(`# HELP ${PHASE_DURATION.name} ${PHASE_DURATION.help}`, `# TYPE ${PHASE_DURATION.name} histogram`);
+    for (const series of phaseDurations.values()) {
+      PHASE_DURATION_BUCKETS.forEach((bound, index) => {
+        lines.push(`${PHASE_DURATION.name}_bucket${formatLabels({ ...series.labels, le: String(bound) })} ${series.buckets[index]}`);
+      });
+      lines.push(`${PHASE_DURATION.name}_bucket${formatLabels({ ...series.labels, le: '+Inf' })} ${series.count}`);
+      lines.push(`${PHASE_DURATION.name}_sum${formatLabels(series.labels)} ${series.sum}`);
+      lines.push(`${PHASE_DURATION.name}_count${formatLabels(series.labels)} ${series.count}`);
+    }
+
+    lines.push(`# HELP ${SESSIONS_BY_STATE.name} ${SESSIONS_BY_STATE.help}`, `# TYPE ${SESSIONS_BY_STATE.name} gauge`);
+    for (const [state, count] of Object.entries(activeSessions)) {
+      lines.push(`${SESSIONS_BY_STATE.name}${formatLabels({ state })} ${count}`);
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * The series of one namespace, or of every namespace added up
+   */
+  private seriesOf(namespace: string | undefined): NamespaceSeries {
+    if (namespace !== undefined) {
+      return this.namespaces.get(namespace) ?? emptySeries();
+    }
+
+    const total = emptySeries();
+    for (const series of this.namespaces.values()) {
+      for (const [name, counter] of series.counters) {
+        const merged = total.counters.get(name) ?? new Map<string, { labels: Labels; value: number }>();
+        total.counters.set(name, merged);
+        for (const [key, entry] of counter) {
+          merged.set(key, { labels: entry.labels, value: (merged.get(key)?.value ?? 0) + entry.value });
+        }
+      }
+      for (const [state, histogram] of series.phaseDurations) {
+        const merged = total.phaseDurations.get(state);
+        total.phaseDurations.set(state, merged ? {
+          labels: merged.labels,
+          buckets: merged.buckets.map((count, index) => count + histogram.buckets[index]!),
+          count: merged.count + histogram.count,
+          sum: merged.sum + histogram.sum
+        } : { ...histogram, buckets: [...histogram.buckets] });
+      }
+    }
+    return total;
+  }
+
+  private namespace(owner: string): NamespaceSeries {
+    const existing = this.namespaces.get(owner);
+    if (existing) {
+      return existing;
+    }
+    const created = emptySeries();
+    this.namespaces.set(owner, created);
+    return created;
+  }
+
+  private increment(owner: string, counter: CounterDefinition, labels: Labels): void {
+    const counters = this.namespace(owner).counters;
+    const series = counters.get(counter.name) ?? new Map<string, { labels: Labels; value: number }>();
+    counters.set(counter.name, series);
+
+    const key = formatLabels(labels);
+    const entry = series.get(key) ?? { labels, value: 0 };
+    entry.value++;
+    series.set(key, entry);
+  }
+
+  private observePhaseDuration(owner: string, state: SessionState, seconds: number): void {
+    const phaseDurations = this.namespace(owner).phaseDurations;
+    const series = phaseDurations.get(state) ?? {
+      labels: { state },
+      buckets: PHASE_DURATION_BUCKETS.map(() => 0),
+      count: 0,
+      sum: 0
+    };
+    phaseDurations.set(state, series);
+
+    PHASE_DURATION_BUCKETS.forEach((bound, index) => {
+      if (seconds <= bound) {
+        series.buckets[index]!++;
+      }
+    });
+    series.count++;
+    series.sum += seconds;
+  }
+}
+
+function emptySeries(): NamespaceSeries {
+  return { counters: new Map(), phaseDurations: new Map() };
+}
+
+function isState(value: unknown): value is SessionState {
+  return typeof value === 'string' && value.length > 0;
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return '';
+  }
+  const escape = (value: string) => value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+  return `{${entries.map(([key, value]) => `${key}="${escape(value)}"`).join(',')}}`;
+}
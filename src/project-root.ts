@@ -0,0 +1,85 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+// Directories that mark the top of a project, checked from the working directory upwards
+const PROJECT_MARKERS = ['.spec', '.git', 'package.json'];
+
+/**
+ * Resolve the project a planning session belongs to.
+ *
+ * Prefers the first `file://` root reported by the MCP client; otherwise walks up from
+ * the working directory to the nearest project marker, falling back to the working directory itself.
+ */
+export function resolveProjectRoot(clientRoots: string[] = [], cwd: string = process.cwd()): string {
+  for (const uri of clientRoots) {
+    if (uri.startsWith('file://')) {
+      return fileURLToPath(uri);
+    }
+  }
+
+  let current = path.resolve(cwd);
+  while (true) {
+    if (PROJECT_MARKERS.some(marker => fs.existsSync(path.join(current, marker)))) {
+      return current;
+    }
+    const parent = path.dirname(current);
+    if (parent === current) {
+      return path.resolve(cwd);
+    }
+    current = parent;
+  }
+}
+
+/**
+ * Directory inside a project that holds kat-planner's own state
+ */
+export function projectStateDir(projectRoot: string): string {
+  return path.join(projectRoot, '.spec', '.kat');
+}
+
+/**
+ * Directory export_session writes bundle files to and import_session reads them from
+ */
+export function projectBundleDir(projectRoot: string): string {
+  return path.join(projectStateDir(projectRoot), 'bundles');
+}
+
+/**
+ * Resolve a bundle file path against the project's bundle directory. Paths that lead outside it,
+ * directly or through a symlink, are refused.
+ */
+export async function resolveBundlePath(projectRoot: string, filePath: string): Promise<string> {
+  const dir = projectBundleDir(projectRoot);
+  const target = path.resolve(dir, filePath);
+  if (!isInside(dir, target) || target === dir) {
+    throw new Error(`Bundle files must be inside ${dir}`);
+  }
+
+  // Compare real paths so a symlinked directory or file cannot point elsewhere
+  await fs.promises.mkdir(dir, { recursive: true });
+  const realDir = await fs.promises.realpath(dir);
+  let existing = target;
+  while (!(await exists(existing))) {
+    existing = path.dirname(existing);
+  }
+  const realExisting = await fs.promises.realpath(existing);
+  if (!isInside(realDir, realExisting) || (existing === target && (await fs.promises.lstat(target)).isSymbolicLink())) {
+    throw new Error(`Bundle files must be inside ${dir} and cannot be reached through symlinks`);
+  }
+  return target;
+}
+
+function isInside(dir: string, target: string): boolean {
+  const relative = path.relative(dir, target);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+async function exists(file: string): Promise<boolean> {
+  try {
+    await fs.promises.lstat(file);
+    return true;
+  } catch {
+    return false;
+  }
+}
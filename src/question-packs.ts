@@ -0,0 +1,256 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { createLogger } from './logger.js';
+import { clarifyingQuestionSchema, questionFromText } from './tools/questions.js';
+
+const log = createLogger('question-packs');
+
+/**
+ * Directory of the packs shipped with the server
+ */
+export const BUILT_IN_PACK_DIR = path.join(__dirname, '..', 'question-packs');
+
+/**
+ * Directory inside a project that teams drop their own packs into
+ */
+export function projectPackDir(projectRoot: string): string {
+  return path.join(projectRoot, '.spec', 'question-packs');
+}
+
+const PACK_EXTENSIONS = new Set(['.json', '.yaml', '.yml']);
+
+const developmentPlanSchema = z.object({
+  implementationSteps: z.array(z.string().min(1)).min(1),
+  milestones: z.array(z.string().min(1)).min(1),
+  estimatedTimeline: z.string().min(1)
+});
+
+/**
+ * Schema of a question pack file
+ */
+export const questionPackSchema = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, 'expected a lower-kebab-case id'),
+  name: z.string().min(1),
+  description: z.string().optional(),
+  match: z.object({
+    keywords: z.array(z.string().min(1)).default([]),    // Any of these words in the idea
+    allKeywords: z.array(z.string().min(1)).default([]), // Every one of these words in the idea
+    projectTypes: z.array(z.string().min(1)).default([]) // Detected project types the pack applies to
+  }).refine(match => match.keywords.length + match.allKeywords.length + match.projectTypes.length > 0, {
+    message: 'a pack needs at least one keyword, allKeywords entry or project type to match on'
+  }),
+  priority: z.number().int().default(0),                 // Breaks ties between packs that match equally well
+  questions: z.array(z.union([
+    z.string().min(1).transform(text => questionFromText(text)), // "Label: question" shorthand for a free-text question
+    clarifyingQuestionSchema
+  ])).min(1).refine(questions => new Set(questions.map(question => question.id)).size === questions.length, {
+    message: 'question ids must be unique within a pack'
+  }),
+  analysis: z.record(z.string()).default({}),            // What the pack assumes about matching ideas
+  developmentPlan: developmentPlanSchema.optional()
+});
+
+export type QuestionPack = z.infer<typeof questionPackSchema>;
+
+/**
+ * Pack used when no other pack matches an idea; a project pack with id "general" replaces it
+ */
+export const GENERAL_PACK: QuestionPack = {
+  id: 'general',
+  name: 'General project',
+  match: { keywords: [], allKeywords: [], projectTypes: [] },
+  priority: 0,
+  questions: [
+    { id: 'core_functionality', label: 'Core functionality', prompt: 'What is the primary problem this project solves?', kind: 'free_text', required: true, section: 'objective' },
+    { id: 'target_users', label: 'Target users', prompt: 'Who will use this application?', kind: 'free_text', required: false, section: 'targetUsers' },
+    { id: 'key_features', label: 'Key features', prompt: 'What are the essential features for the initial release?', kind: 'free_text', required: true, section: 'keyFeatures' },
+    { id: 'technical_constraints', label: 'Technical constraints', prompt: 'Any specific platforms, languages, or frameworks?', kind: 'free_text', required: false },
+    { id: 'success_criteria', label: 'Success criteria', prompt: 'How will you measure the project\'s success?', kind: 'free_text', required: false, section: 'successCriteria' }
+  ],
+  analysis: {},
+  developmentPlan: {
+    implementationSteps: [
+      'Set up project structure and development environment',
+      'Implement core functionality and APIs',
+      'Create user interface and user experience',
+      'Add configuration and customization options',
+      'Implement testing and quality assurance',
+      'Documentation and user guides',
+      'Deployment and release preparation'
+    ],
+    milestones: [
+      'Project setup complete',
+      'Core features implemented',
+      'UI/UX integration',
+      'Configuration system ready',
+      'Testing phase',
+      'Documentation complete',
+      'Final release'
+    ],
+    estimatedTimeline: '4-6 weeks'
+  }
+};
+
+/**
+ * A project pack file as last read, with its modification time
+ */
+interface CachedPackFile {
+  mtimeMs: number;
+  pack?: QuestionPack; // Unset when the file is invalid
+}
+
+/**
+ * Question packs from the built-in directory and the current project. Project packs are read once
+ * and cached; a file is only read again when its modification time changes, so packs dropped into
+ * a project take effect without a restart. A project pack with the same id as a built-in one
+ * replaces it.
+ */
+export class QuestionPackRegistry {
+  private readonly builtIn: QuestionPack[];
+  private projectRoot?: string;
+  private projectFiles = new Map<string, CachedPackFile>(); // Keyed by path, for the current project root
+
+  constructor(builtInDir: string = BUILT_IN_PACK_DIR) {
+    this.builtIn = loadPackDirectory(builtInDir);
+  }
+
+  setProjectRoot(projectRoot: string): void {
+    if (projectRoot !== this.projectRoot) {
+      this.projectRoot = projectRoot;
+      this.projectFiles.clear();
+    }
+  }
+
+  /**
+   * Every available pack, project packs first
+   */
+  list(): QuestionPack[] {
+    const project = this.projectPacks();
+    const overridden = new Set(project.map(pack => pack.id));
+    return [...project, ...this.builtIn.filter(pack => !overridden.has(pack.id)), GENERAL_PACK].filter(
+      (pack, index, packs) => packs.findIndex(other => other.id === pack.id) === index
+    );
+  }
+
+  get(id: string): QuestionPack | undefined {
+    return this.list().find(pack => pack.id === id);
+  }
+
+  /**
+   * The pack that best matches an idea: the most keyword hits, then the highest priority, then
+   * project packs before built-in ones. Ideas no pack matches get the general pack.
+   */
+  forIdea(userIdea: string, projectType: string): QuestionPack {
+    const packs = this.list();
+    let best: { pack: QuestionPack; score: number } | undefined;
+    for (const pack of packs.filter(candidate => candidate !== GENERAL_PACK)) {
+      const score = matchScore(pack, userIdea, projectType);
+      if (score !== undefined && (!best || score > best.score || (score === best.score && pack.priority > best.pack.priority))) {
+        best = { pack, score };
+      }
+    }
+    return best?.pack ?? packs.find(pack => pack.id === GENERAL_PACK.id) ?? GENERAL_PACK;
+  }
+
+  /**
+   * Valid packs in the project's pack directory, in file name order. Only files that are new or
+   * have changed since the last lookup are read.
+   */
+  private projectPacks(): QuestionPack[] {
+    if (!this.projectRoot) {
+      return [];
+    }
+    const dir = projectPackDir(this.projectRoot);
+    const files = new Map<string, CachedPackFile>();
+    for (const file of listPackFiles(dir)) {
+      let mtimeMs: number;
+      try {
+        mtimeMs = fs.statSync(file).mtimeMs;
+      } catch {
+        continue; // Removed since it was listed
+      }
+      const cached = this.projectFiles.get(file);
+      files.set(file, cached?.mtimeMs === mtimeMs ? cached : { mtimeMs, pack: readPackFile(file) });
+    }
+    this.projectFiles = files;
+    return Array.from(files.values()).flatMap(({ pack }) => pack ? [pack] : []);
+  }
+}
+
+/**
+ * Read and validate a question pack from a JSON or YAML file
+ */
+export function loadQuestionPack(file: string): QuestionPack {
+  let data: unknown;
+  try {
+    const text = fs.readFileSync(file, 'utf-8');
+    data = path.extname(file) === '.json' ? JSON.parse(text) : parseYaml(text);
+  } catch (err) {
+    throw new Error(`Cannot read question pack ${file}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+  }
+
+  const parsed = questionPackSchema.safeParse(data);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Invalid question pack ${file}: ${issue ? `${issue.path.join('.') || 'pack'}: ${issue.message}` : 'unknown format'}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Every valid pack in a directory, in file name order. Invalid files are logged and skipped.
+ */
+function loadPackDirectory(dir: string): QuestionPack[] {
+  return listPackFiles(dir).flatMap(file => readPackFile(file) ?? []);
+}
+
+/**
+ * Paths of the pack files in a directory, in file name order; none if it cannot be read
+ */
+function listPackFiles(dir: string): string[] {
+  try {
+    return fs.readdirSync(dir).filter(file => PACK_EXTENSIONS.has(path.extname(file))).sort().map(file => path.join(dir, file));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * A pack file, or undefined (logged) when it is invalid
+ */
+function readPackFile(file: string): QuestionPack | undefined {
+  try {
+    return loadQuestionPack(file);
+  } catch (error) {
+    log.warning('question_pack_skipped', { file, error: error instanceof Error ? error.message : 'Unknown error' });
+    return undefined;
+  }
+}
+
+/**
+ * How well a pack matches an idea: keyword hits (project types count as one), or undefined when it does not apply
+ */
+function matchScore(pack: QuestionPack, userIdea: string, projectType: string): number | undefined {
+  const { keywords, allKeywords, projectTypes } = pack.match;
+  if (projectTypes.length > 0 && !projectTypes.includes(projectType)) {
+    return undefined;
+  }
+  if (!allKeywords.every(keyword => mentions(userIdea, keyword))) {
+    return undefined;
+  }
+  const hits = keywords.filter(keyword => mentions(userIdea, keyword)).length;
+  if (keywords.length > 0 && hits === 0) {
+    return undefined;
+  }
+  return hits + allKeywords.length + (projectTypes.length > 0 ? 1 : 0);
+}
+
+/**
+ * Whether a text mentions a keyword as whole words, ignoring case; a trailing "s" is allowed
+ */
+function mentions(text: string, keyword: string): boolean {
+  const escaped = keyword.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '[\\s-]+');
+  return new RegExp(`(^|[^a-z0-9])${escaped}s?($|[^a-z0-9])`, 'i').test(text);
+}
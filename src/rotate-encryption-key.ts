@@ -0,0 +1,68 @@
+import { loadConfig } from './config.js';
+import { configureLogging, createLogger } from './logger.js';
+import { resolveProjectRoot } from './project-root.js';
+import { createSessionCipher } from './session-crypto.js';
+import { defaultJournalPath, SessionJournal } from './session-journal.js';
+import { createArchiveStore, createSessionStore, SessionStore } from './stores/index.js';
+
+const log = createLogger('rotate-encryption-key');
+
+/**
+ * Re-encrypt all stored sessions, archived sessions and journals with the current key.
+ *
+ * Configure the new key as KAT_PLANNER_ENCRYPTION_KEY (or first in the key file) and the old one in
+ * KAT_PLANNER_PREVIOUS_ENCRYPTION_KEYS, stop running servers, then run this. Afterwards the old key
+ * can be removed.
+ *
+ * The stores and journals are opened directly rather than through the session manager, so nothing
+ * is expired, archived or evicted along the way: each record is only rewritten with the new key.
+ */
+export async function main(): Promise<void> {
+  const config = loadConfig();
+  configureLogging(config.logging);
+
+  const cipher = createSessionCipher(config.encryption);
+  const projectRoot = resolveProjectRoot();
+  const storeConfig = { ...config.store, projectRoot };
+  const onEvent = (event: string, details?: Record<string, unknown>) => log.info(event, details);
+  const store = createSessionStore(storeConfig, onEvent, cipher);
+  const archive = createArchiveStore(storeConfig, (event, details) => onEvent(event, { ...details, store: 'archive' }), cipher);
+  const journal = new SessionJournal(config.journalPath ?? defaultJournalPath(config.store.scope === 'project' ? projectRoot : undefined), cipher);
+
+  try {
+    const sessions = await reencryptStore(store);
+    const archived = await reencryptStore(archive);
+    const journals = await journal.reencrypt();
+    log.notice('key_rotation_complete', {
+      keyId: cipher?.keyId,
+      sessions,
+      archived,
+      journals,
+      storage: `${store.kind} (${store.location})`
+    });
+  } finally {
+    await journal.flush();
+    await store.close();
+    await archive.close();
+  }
+}
+
+/**
+ * Write every readable record of a store back with the current key. Records that cannot be read
+ * (for example from a newer server) are reported and left as they are.
+ */
+async function reencryptStore(store: SessionStore): Promise<number> {
+  const { sessions, invalid } = await store.loadAll();
+  for (const { sessionId, error } of invalid) {
+    log.warning('session_not_reencrypted', { sessionId, location: store.location, error });
+  }
+  await store.save(sessions);
+  return sessions.length;
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    log.error('key_rotation_failed', { error: error instanceof Error ? error.message : 'Unknown error' });
+    process.exitCode = 1;
+  });
+}
@@ -1,7 +1,33 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { RootsListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import type { ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import { constants as fsConstants, existsSync } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
 import { z } from 'zod';
-import { ProductionSessionManager } from './session-manager.js';
+import { KatPlannerConfig, loadConfig } from './config.js';
+import { attachLoggingToMcpServer, configureLogging, createLogger } from './logger.js';
+import { WorkflowMetrics } from './metrics.js';
+import { projectBundleDir, resolveBundlePath, resolveProjectRoot } from './project-root.js';
+import { approvalStatusFor, documentApprovals, findDocument } from './document-approvals.js';
+import { applyRevision } from './document-revisions.js';
+import { GENERAL_PACK, QuestionPack, QuestionPackRegistry } from './question-packs.js';
+import { createSessionBundle, readSessionBundle } from './session-bundle.js';
+import { ProductionSessionManager, Session, SessionFilter } from './session-manager.js';
+import { changedContentFields, QuestionRound, sessionOwner, SessionState, toSnapshotData } from './session-schema.js';
+import { APPROVAL_CONFIDENCE_THRESHOLD, ApprovalIntent, classifyApproval } from './tools/approval-intent.js';
+import { findQuestioningGaps, MAX_QUESTION_ROUNDS, QuestioningGaps, wantsToStopQuestioning, withoutStopRequests } from './tools/questioning.js';
+import { AnswerValue, answerValueSchema, ClarifyingQuestion, describeQuestion, questionText, validateAnswers } from './tools/questions.js';
+import { formatSpecification, RefinedSpecification, refineSpecification, withRevisionRequests } from './tools/refinement.js';
+import { Workflow, WorkflowStateDefinition } from './workflow.js';
+
+const log = createLogger('server');
+
+// Files in the project root that mark a project already planned with kat-planner, and an existing codebase
+const ENHANCEMENT_MARKERS = ['AGENTS.md', '.spec/requirements.md'];
+const EXISTING_PROJECT_MARKERS = ['package.json', 'requirements.txt', 'pom.xml', 'src'];
 
 /**
  * Production-ready KAT-PLANNER MCP server with comprehensive session management
@@ -12,13 +38,155 @@ export class ProductionKatPlannerServer {
     version: '1.0.0',
     title: 'KAT-PLANNER Interactive Project Planning Assistant',
     description: 'AI-powered project planning assistant that guides users through comprehensive specification development with interactive workflow management',
+  }, {
+    capabilities: { logging: {} }
   });
 
-  private sessionManager = new ProductionSessionManager();
+  private readonly config: KatPlannerConfig;
+  private readonly metrics = new WorkflowMetrics();
+  private sessionManager: ProductionSessionManager;
+  private readonly workflow: Workflow;
+  private readonly questionPacks = new QuestionPackRegistry();
+  private projectRoot = resolveProjectRoot();
+  private shutdownPromise?: Promise<void>;
 
   constructor() {
+    this.config = loadConfig();
+    configureLogging(this.config.logging);
+    attachLoggingToMcpServer(this.server.server);
+    const startedAt = Date.now();
+    this.sessionManager = new ProductionSessionManager({
+      config: this.config,
+      onEvent: (event, _sessionId, details, owner) => this.metrics.recordSessionEvent(event, details, owner)
+    });
+    void this.seedMetrics(startedAt);
+    this.workflow = this.sessionManager.getWorkflow();
+    this.questionPacks.setProjectRoot(this.projectRoot);
     this.registerTools();
+    this.registerResources();
     this.registerSystemPrompt();
+    this.registerProjectRootTracking();
+  }
+
+  /**
+   * Keep project-scoped session storage pointed at the client's workspace root
+   */
+  private registerProjectRootTracking(): void {
+    this.server.server.oninitialized = () => {
+      void this.syncProjectRoot();
+    };
+
+    this.server.server.setNotificationHandler(RootsListChangedNotificationSchema, async () => {
+      await this.syncProjectRoot();
+    });
+  }
+
+  /**
+   * Ask the client for its roots (if it supports them) and re-resolve the project root, which
+   * project-scoped storage and project question packs are read from
+   */
+  private async syncProjectRoot(): Promise<void> {
+    let rootUris: string[] = [];
+    if (this.server.server.getClientCapabilities()?.roots) {
+      try {
+        const { roots } = await this.server.server.listRoots();
+        rootUris = roots.map(root => root.uri);
+      } catch (error) {
+        log.warning('client_roots_unavailable', { error: error instanceof Error ? error.message : 'Unknown error', fallback: 'working directory' });
+      }
+    }
+
+    const projectRoot = resolveProjectRoot(rootUris);
+    try {
+      if (this.sessionManager.isProjectScoped()) {
+        await this.sessionManager.setProjectRoot(projectRoot);
+      }
+    } catch (error) {
+      // Keep serving from the previous root rather than leaving storage half-switched
+      log.error('project_root_sync_failed', {
+        projectRoot,
+        keptProjectRoot: this.projectRoot,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return;
+    }
+    this.projectRoot = projectRoot;
+    this.questionPacks.setProjectRoot(projectRoot);
+  }
+
+  /**
+   * Rebuild the metrics of earlier runs from the session journals. Only events from before
+   * `startedAt` are replayed; later ones are counted live.
+   */
+  private async seedMetrics(startedAt: number): Promise<void> {
+    try {
+      for (const events of await this.sessionManager.readJournals()) {
+        this.metrics.replayJournal(events, startedAt);
+      }
+    } catch (error) {
+      log.warning('metrics_seed_failed', { error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+
+  /**
+   * The metrics visible to a caller: an admin's cover every namespace, anyone else's only their own
+   */
+  private metricsScope(extra: RequestHandlerExtra<ServerRequest, ServerNotification>): { namespace?: string; activeSessions: Record<SessionState, number> } {
+    const owner = this.callerOwner(extra);
+    if (this.sessionManager.isAdmin(owner)) {
+      return { activeSessions: this.sessionManager.getStateCounts() };
+    }
+    return { namespace: owner, activeSessions: this.sessionManager.getStateCounts(owner) };
+  }
+
+  /**
+   * Register read-only resources: workflow metrics as JSON and in Prometheus text format, and the question packs
+   */
+  private registerResources(): void {
+    this.server.registerResource('workflow_metrics', 'mcp://workflow_metrics', {
+      title: 'Workflow Metrics',
+      description: 'Session funnel, state transitions, invalid transitions, approval rejections and time spent per phase in the caller\'s session namespace (every namespace for admins), as JSON',
+      mimeType: 'application/json'
+    }, async (_uri, extra) => {
+      const { namespace, activeSessions } = this.metricsScope(extra);
+      return {
+        contents: [{
+          text: JSON.stringify(this.metrics.toJSON(activeSessions, namespace), null, 2),
+          uri: 'mcp://workflow_metrics',
+          mimeType: 'application/json',
+        }],
+      };
+    });
+
+    this.server.registerResource('workflow_metrics_prometheus', 'mcp://workflow_metrics_prometheus', {
+      title: 'Workflow Metrics (Prometheus)',
+      description: 'The workflow metrics in Prometheus text exposition format, scoped like workflow_metrics',
+      mimeType: 'text/plain; version=0.0.4'
+    }, async (_uri, extra) => {
+      const { namespace, activeSessions } = this.metricsScope(extra);
+      return {
+        contents: [{
+          text: this.metrics.toPrometheus(activeSessions, namespace),
+          uri: 'mcp://workflow_metrics_prometheus',
+          mimeType: 'text/plain; version=0.0.4',
+        }],
+      };
+    });
+
+    this.server.registerResource('question_packs', 'mcp://question_packs', {
+      title: 'Question Packs',
+      description: 'Question packs available for matching project ideas, including those in the project\'s .spec/question-packs folder',
+      mimeType: 'application/json'
+    }, async () => {
+      const packs = this.questionPacks.list().map(({ id, name, description, match, priority, questions }) => ({ id, name, description, match, priority, questions }));
+      return {
+        contents: [{
+          text: JSON.stringify(packs, null, 2),
+          uri: 'mcp://question_packs',
+          mimeType: 'application/json',
+        }],
+      };
+    });
   }
 
   /**
@@ -27,12 +195,9 @@ export class ProductionKatPlannerServer {
   private registerSystemPrompt(): void {
     // Register a system prompt that provides overarching guidance to the LLM
     // This prompt will be available to the LLM at connection time to understand the interactive workflow
-    const systemInstructions = `You are an Interactive Project Planning Assistant that manages a 4-step specification workflow:
+    const systemInstructions = `You are an Interactive Project Planning Assistant that manages a ${this.workflow.modes.length}-step specification workflow:
 
-STEP 1 - Question Mode: Ask clarifying questions to understand project requirements
-STEP 2 - Refine Mode: Create refined specification based on user answers
-STEP 3 - Document Review Mode: Generate SDD documents for user review and approval
-STEP 4 - Final Approval Mode: Get final approval before development begins
+${this.describeSteps()}
 
 CRITICAL REQUIREMENTS:
 1. PRESENT ALL QUESTIONS/DOCUMENTS TO THE USER EXPLICITLY
@@ -63,7 +228,7 @@ Always use the next_action field to determine your next step. Do NOT call any to
       })
     );
 
-    console.log('System prompt registered for interactive workflow guidance');
+    log.debug('system_prompt_registered');
   }
 
   /**
@@ -75,24 +240,34 @@ Always use the next_action field to determine your next step. Do NOT call any to
       title: 'Health Check',
       description: 'Basic health check to verify server is running',
       inputSchema: {},
-    }, async () => {
+    }, this.asCaller(async (_params, owner) => {
+      let text = `KAT-PLANNER Production MCP server is running successfully!\nSession Stats: ${this.sessionManager.getSessionCount()} active sessions`;
+      text += `\nSession namespace: ${owner}${this.sessionManager.isAdmin(owner) ? ' (admin)' : ''}`;
+
+      const loadError = this.sessionManager.getLoadError();
+      if (loadError) {
+        text += `\nSession storage unavailable: ${loadError}`;
+      }
+
+      const projectSessionId = this.sessionManager.isProjectScoped() ? this.sessionManager.getActiveSessionId() : undefined;
+      if (projectSessionId) {
+        text += `\nProject session: ${projectSessionId} (resumed automatically when sessionId is omitted)`;
+      }
+
       return {
         content: [{
           type: 'text' as const,
-          text: `KAT-PLANNER Production MCP server is running successfully!\nSession Stats: ${this.sessionManager.getSessionCount()} active sessions`
+          text
         }],
       };
-    });
+    }));
 
     // Tool 2: Interactive Mode (stateful)
     this.server.registerTool('start_interactive_spec', {
       title: 'Interactive Specification Development',
-      description: `INTERACTIVE WORKFLOW: This tool manages a 4-step interactive specification process where YOU MUST WAIT FOR USER INPUT at each step.
+      description: `INTERACTIVE WORKFLOW: This tool manages a ${this.workflow.modes.length}-step interactive specification process where YOU MUST WAIT FOR USER INPUT at each step.
 
-STEP 1 - Question Mode: Ask clarifying questions to understand project requirements
-STEP 2 - Refine Mode: Create refined specification based on user answers
-STEP 3 - Document Review Mode: Generate SDD documents for user review and approval
-STEP 4 - Final Approval Mode: Get final approval before development begins
+${this.describeSteps()}
 
 🚨 CRITICAL: This is an INTERACTIVE workflow. You MUST:
 1. Present questions/documents to the user
@@ -105,15 +280,15 @@ Each step requires user interaction and approval before proceeding to the next.`
 
       inputSchema: {
         userIdea: z.string().describe('The user\'s project idea'),
-        mode: z.enum(['question', 'refine', 'document_review', 'final_approval']).describe('Current mode: question, refine, document_review, or final_approval'),
-        sessionId: z.string().optional().describe('Session ID from previous interactive call'),
-        userAnswers: z.record(z.union([z.string(), z.array(z.string())])).optional().describe('User answers to clarifying questions (string or array)'),
-        explicitApproval: z.enum(['yes', 'approved', 'proceed', 'continue', 'ok', 'go ahead', 'documents look good', 'ready for development']).optional().describe('Explicit user approval for next phase'),
+        mode: z.enum(this.workflow.modes as [string, ...string[]]).describe(`Current mode: ${this.workflow.modes.join(', ')}`),
+        sessionId: z.string().optional().describe('Session ID from previous interactive call (defaults to the project\'s session when storage is project-scoped)'),
+        userAnswers: z.record(answerValueSchema).optional().describe('User answers to the latest round of questions, keyed by question id (question numbers and labels are accepted too). Use an option for choice questions (a list for multi_choice), a number for number questions and yes/no for boolean ones. Include "that\'s enough" when the user wants no more follow-up questions'),
+        explicitApproval: z.string().optional().describe('The user\'s reply approving the next phase, in their own words and any language (e.g. "yes, go ahead"). Negated replies ("not yet") are refused, and approval with a change ("yes, but use PostgreSQL") becomes a revision request'),
         revisionRequest: z.string().optional().describe('User feedback for document revision'),
       }
-    }, async (params: { userIdea: string; mode: string; sessionId?: string; userAnswers?: Record<string, string | string[]>; explicitApproval?: string; revisionRequest?: string }) => {
+    }, this.asCaller(async (params: { userIdea: string; mode: string; sessionId?: string; userAnswers?: Record<string, AnswerValue>; explicitApproval?: string; revisionRequest?: string }) => {
       return this.handleInteractiveWorkflow(params);
-    });
+    }));
     // Tool 3: Development Mode (stateful)
     this.server.registerTool('start_development', {
       title: 'Development Implementation',
@@ -138,23 +313,850 @@ User provided explicit development approval
 All SDD documents generated and reviewed
 Session state is 'approved'`,
       inputSchema: {
-        sessionId: z.string().describe('Session ID from approved specification'),
+        sessionId: z.string().optional().describe('Session ID from approved specification (defaults to the project\'s session when storage is project-scoped)'),
         developmentPlan: z.object({
           implementationSteps: z.array(z.string()).describe('Steps to implement the specification'),
           milestones: z.array(z.string()).describe('Key development milestones'),
           estimatedTimeline: z.string().describe('Estimated timeline for completion')
         }).optional().describe('Development plan (auto-generated if not provided)')
       }
-    }, async (params: { sessionId: string; developmentPlan?: { implementationSteps: string[]; milestones: string[]; estimatedTimeline: string } }) => {
-      return this.handleDevelopmentWorkflow(params);
+    }, this.asCaller(async (params: { sessionId?: string; developmentPlan?: { implementationSteps: string[]; milestones: string[]; estimatedTimeline: string } }) => {
+      const sessionId = this.resolveSessionId(params.sessionId);
+      return this.withSessionLock(sessionId, () => this.handleDevelopmentWorkflow({ ...params, sessionId }));
+    }));
+
+    // Tool 4: List archived sessions
+    this.server.registerTool('list_archived_sessions', {
+      title: 'List Archived Sessions',
+      description: 'List planning sessions that were archived after expiring or being evicted. Archived sessions keep their answers, refined specification and documents, and can be brought back with restore_session.',
+      inputSchema: {
+        query: z.string().optional().describe('Only include sessions whose project idea contains this text'),
+        limit: z.number().int().positive().optional().describe('Maximum number of sessions to return (default 20)')
+      }
+    }, this.asCaller(async (params: { query?: string; limit?: number }) => {
+      return this.handleListArchivedSessions(params);
+    }));
+
+    // Tool 5: Restore an archived session
+    this.server.registerTool('restore_session', {
+      title: 'Restore Archived Session',
+      description: 'Bring an archived planning session back to active state so its workflow can continue where it left off. Use list_archived_sessions to find the sessionId.',
+      inputSchema: {
+        sessionId: z.string().describe('Session ID of the archived session')
+      }
+    }, this.asCaller(async (params: { sessionId: string }) => {
+      return this.handleRestoreSession(params.sessionId);
+    }));
+
+    // Tool 6: List session snapshots
+    this.server.registerTool('list_session_snapshots', {
+      title: 'List Session Snapshots',
+      description: 'List the snapshots of a planning session. A snapshot is taken before every workflow state transition and can be restored with rollback_session.',
+      inputSchema: {
+        sessionId: z.string().describe('Session ID to list snapshots for')
+      }
+    }, this.asCaller(async (params: { sessionId: string }) => {
+      return this.handleListSnapshots(params.sessionId);
+    }));
+
+    // Tool 7: Roll a session back to a snapshot
+    this.server.registerTool('rollback_session', {
+      title: 'Rollback Session',
+      description: `Restore a planning session to an earlier snapshot, e.g. the refined specification from before a bad document generation.
+
+The move from the current state to the snapshot's state must be an allowed workflow transition. Set override to true (with a reason) to force any other rollback; overrides are recorded in the session history. The current content is snapshotted first, so a rollback can be undone.`,
+      inputSchema: {
+        sessionId: z.string().describe('Session ID to roll back'),
+        snapshotId: z.string().describe('Snapshot ID from list_session_snapshots'),
+        override: z.boolean().optional().describe('Bypass workflow transition rules (recorded in session history)'),
+        reason: z.string().optional().describe('Why the rollback is needed')
+      }
+    }, this.asCaller(async (params: { sessionId: string; snapshotId: string; override?: boolean; reason?: string }) => {
+      return this.handleRollbackSession(params);
+    }));
+
+    // Tool 8: List active sessions
+    this.server.registerTool('list_sessions', {
+      title: 'List Sessions',
+      description: 'Find active planning sessions by workflow state, age or idea text, most recently active first. Use this to locate a session (e.g. "the spec from yesterday") without knowing its ID.',
+      inputSchema: {
+        state: z.array(z.enum(this.workflow.states as [string, ...string[]])).optional().describe('Only include sessions in these workflow states'),
+        createdWithinHours: z.number().positive().optional().describe('Only include sessions created in the last N hours'),
+        createdBeforeHours: z.number().positive().optional().describe('Only include sessions created more than N hours ago'),
+        query: z.string().optional().describe('Only include sessions whose idea or label contains this text'),
+        limit: z.number().int().positive().optional().describe('Maximum number of sessions to return (default 20)')
+      }
+    }, this.asCaller(async (params: { state?: SessionState[]; createdWithinHours?: number; createdBeforeHours?: number; query?: string; limit?: number }) => {
+      return this.handleListSessions(params);
+    }));
+
+    // Tool 9: Inspect a session
+    this.server.registerTool('get_session', {
+      title: 'Get Session',
+      description: 'Show everything stored for a planning session: workflow state, answers, refined specification, generated documents, approvals and development plan.',
+      inputSchema: {
+        sessionId: z.string().optional().describe('Session ID to inspect (defaults to the project session when storage is project-scoped)')
+      }
+    }, this.asCaller(async (params: { sessionId?: string }) => {
+      return this.handleGetSession(this.resolveSessionId(params.sessionId));
+    }));
+
+    // Tool 10: Rename a session
+    this.server.registerTool('rename_session', {
+      title: 'Rename Session',
+      description: 'Give a planning session a human-friendly label. Labels are shown by list_sessions and matched by its query filter.',
+      inputSchema: {
+        sessionId: z.string().describe('Session ID to rename'),
+        label: z.string().trim().min(1).max(200).describe('New label for the session')
+      }
+    }, this.asCaller(async (params: { sessionId: string; label: string }) => {
+      return this.handleRenameSession(params);
+    }));
+
+    // Tool 11: Delete a session
+    this.server.registerTool('delete_session', {
+      title: 'Delete Session',
+      description: 'Permanently delete an active planning session. Only do this when the user explicitly asks; the session cannot be restored afterwards.',
+      inputSchema: {
+        sessionId: z.string().describe('Session ID to delete')
+      }
+    }, this.asCaller(async (params: { sessionId: string }) => {
+      return this.handleDeleteSession(params.sessionId);
+    }));
+
+    // Tool 12: Export a session bundle
+    this.server.registerTool('export_session', {
+      title: 'Export Session',
+      description: 'Package a planning session (idea, answers, refined specification, documents, approvals, development plan) into a checksummed bundle that import_session can load on another machine. The bundle is returned as JSON and optionally written to a file in the project\'s .spec/.kat/bundles directory.',
+      inputSchema: {
+        sessionId: z.string().optional().describe('Session ID to export (defaults to the project session when storage is project-scoped)'),
+        filePath: z.string().optional().describe('Also write the bundle to this file, relative to .spec/.kat/bundles; paths outside it are refused')
+      }
+    }, this.asCaller(async (params: { sessionId?: string; filePath?: string }) => {
+      return this.handleExportSession({ ...params, sessionId: this.resolveSessionId(params.sessionId) });
+    }));
+
+    // Tool 13: Import a session bundle
+    this.server.registerTool('import_session', {
+      title: 'Import Session',
+      description: 'Load a session bundle created by export_session. The bundle and its checksums are validated, the session gets a new ID if its ID is already in use, and it continues from the workflow state its content supports.',
+      inputSchema: {
+        bundle: z.string().optional().describe('Bundle JSON as returned by export_session'),
+        filePath: z.string().optional().describe('Read the bundle from this file instead, relative to .spec/.kat/bundles; paths outside it are refused')
+      }
+    }, this.asCaller(async (params: { bundle?: string; filePath?: string }) => {
+      return this.handleImportSession(params);
+    }));
+
+    // Tool 14: Fork a session
+    this.server.registerTool('fork_session', {
+      title: 'Fork Session',
+      description: 'Clone a planning session, including its answers, refined specification and documents, into a new session linked to it as parent. Use this to explore an alternative direction (e.g. "Python CLI" vs "Electron app") and take each branch through refine and document_review independently.',
+      inputSchema: {
+        sessionId: z.string().describe('Session ID to fork'),
+        label: z.string().trim().min(1).max(200).optional().describe('Label for the new branch, e.g. "Electron app"')
+      }
+    }, this.asCaller(async (params: { sessionId: string; label?: string }) => {
+      return this.handleForkSession(params);
+    }));
+
+    // Tool 15: List a session's forks
+    this.server.registerTool('list_session_forks', {
+      title: 'List Session Forks',
+      description: 'Show a session\'s parent and forks, with the state each fork branched at and which parts (answers, specification, documents, ...) each side has changed since.',
+      inputSchema: {
+        sessionId: z.string().describe('Session ID whose forks to list')
+      }
+    }, this.asCaller(async (params: { sessionId: string }) => {
+      return this.handleListForks(params.sessionId);
+    }));
+
+    // Tool 16: Admin view across namespaces
+    this.server.registerTool('list_all_sessions', {
+      title: 'List All Sessions (Admin)',
+      description: 'Admin only: list active planning sessions across every owner namespace, grouped by owner. Other tools only ever see the caller\'s own namespace. Admin namespaces are configured with KAT_PLANNER_ADMINS.',
+      inputSchema: {
+        owner: z.string().optional().describe('Only include sessions of this namespace'),
+        state: z.array(z.enum(this.workflow.states as [string, ...string[]])).optional().describe('Only include sessions in these workflow states'),
+        query: z.string().optional().describe('Only include sessions whose idea or label contains this text'),
+        limit: z.number().int().positive().optional().describe('Maximum number of sessions to return (default 50)')
+      }
+    }, this.asCaller(async (params: { owner?: string; state?: SessionState[]; query?: string; limit?: number }, owner) => {
+      return this.handleListAllSessions(params, owner);
+    }));
+
+    // Tool 17: Approve or reject one generated document
+    this.server.registerTool('review_document', {
+      title: 'Review Document',
+      description: `Record the user's decision on ONE generated document during review: approve it, or reject it with a comment saying what must change. Final approval is only possible once every document is approved. Rejected documents go back through revision with start_interactive_spec (mode="refine", revisionRequest). A revised document needs approving again.
+
+🚨 Only record decisions the user actually made. Do NOT approve documents on the user's behalf.`,
+      inputSchema: {
+        sessionId: z.string().optional().describe('Session under review (defaults to the project session when storage is project-scoped)'),
+        document: z.string().describe('Document title, e.g. "design.md"'),
+        decision: z.enum(['approve', 'reject']).describe('The user\'s decision on the document'),
+        comment: z.string().optional().describe('The user\'s comment; required when rejecting')
+      }
+    }, this.asCaller(async (params: { sessionId?: string; document: string; decision: 'approve' | 'reject'; comment?: string }) => {
+      const sessionId = this.resolveSessionId(params.sessionId);
+      return this.withSessionLock(sessionId, () => this.handleReviewDocument({ ...params, sessionId }));
+    }));
+  }
+
+  /**
+   * Wrap a tool handler so it runs in the caller's session namespace
+   */
+  private asCaller<A, R>(handler: (args: A, owner: string) => Promise<R>) {
+    return (args: A, extra: RequestHandlerExtra<ServerRequest, ServerNotification>): Promise<R> => {
+      const owner = this.callerOwner(extra);
+      return this.sessionManager.runAsOwner(owner, () => handler(args, owner));
+    };
+  }
+
+  /**
+   * The session namespace of the client making a request
+   */
+  private callerOwner(extra: RequestHandlerExtra<ServerRequest, ServerNotification>): string {
+    return this.sessionManager.resolveOwner({
+      authPrincipal: extra.authInfo?.clientId,
+      clientName: this.server.server.getClientVersion()?.name
+    });
+  }
+
+  /**
+   * List sessions of every namespace for an admin
+   */
+  private async handleListAllSessions(params: { owner?: string; state?: SessionState[]; query?: string; limit?: number }, owner: string) {
+    const { sessions, error } = await this.sessionManager.listAllSessions({
+      owner: params.owner,
+      states: params.state,
+      query: params.query
+    });
+    if (!sessions) {
+      return this.formatErrorResponse(`Namespace "${owner}" is not an admin${error ? ` (${error})` : ''}`, {
+        suggestedAction: "Use list_sessions to see this namespace's sessions, or add the namespace to KAT_PLANNER_ADMINS",
+        validNextSteps: ["List sessions"],
+        exampleCall: 'list_sessions({})'
+      });
+    }
+
+    const summaries = sessions.slice(0, params.limit ?? 50).map(session => ({
+      sessionId: session.sessionId,
+      owner: sessionOwner(session),
+      label: session.label,
+      userIdea: session.userIdea,
+      state: session.state,
+      lastActivity: new Date(session.lastActivity).toISOString()
+    }));
+
+    const byOwner = new Map<string, typeof summaries>();
+    for (const summary of summaries) {
+      byOwner.set(summary.owner, [...(byOwner.get(summary.owner) ?? []), summary]);
+    }
+
+    let output = `Sessions across namespaces (${summaries.length} of ${sessions.length})\n`;
+    if (summaries.length === 0) {
+      output += `\nNo active sessions match these filters.\n`;
+    }
+    for (const [namespace, entries] of byOwner) {
+      output += `\n**${namespace}** (${entries.length})\n`;
+      for (const summary of entries) {
+        const name = summary.label ? `${summary.label} — "${summary.userIdea}"` : `"${summary.userIdea}"`;
+        output += `- ${summary.sessionId}: ${name} (state: ${summary.state}, last active ${summary.lastActivity})\n`;
+      }
+    }
+
+    return {
+      content: [{
+        type: 'text' as const,
+        text: output
+      }],
+      structuredContent: {
+        total: sessions.length,
+        sessions: summaries
+      }
+    };
+  }
+
+  /**
+   * Clone a session into a new branch
+   */
+  private async handleForkSession(params: { sessionId: string; label?: string }) {
+    const { session, error } = await this.sessionManager.forkSession(params.sessionId, params.label);
+    if (!session) {
+      return this.formatErrorResponse(error === 'session_limit' ? "Server session limit reached, cannot fork session" : "Invalid or expired session ID", {
+        suggestedAction: error === 'session_limit' ? "Delete or finish unused sessions, then fork again" : "Use list_sessions to find the session to fork",
+        validNextSteps: ["List sessions"],
+        exampleCall: 'list_sessions({})'
+      });
+    }
+
+    const nextCall = this.workflow.requiredParameters(session.state, session.sessionId);
+
+    let output = `Session Forked\n\n`;
+    output += `**New Session ID:** ${session.sessionId}${session.label ? ` (${session.label})` : ''}\n`;
+    output += `**Forked From:** ${params.sessionId}\n`;
+    output += `**State:** ${session.state}\n`;
+    if (nextCall) {
+      output += `\nContinue this branch with ${this.describeNextCall(session.state)} and the new sessionId. The original session is unchanged.`;
+    }
+
+    return {
+      content: [{
+        type: 'text' as const,
+        text: output
+      }],
+      structuredContent: {
+        sessionId: session.sessionId,
+        parentSessionId: params.sessionId,
+        label: session.label,
+        state: session.state,
+        nextCall
+      }
+    };
+  }
+
+  /**
+   * Show a session's parent and forks and where each fork diverged
+   */
+  private async handleListForks(sessionId: string) {
+    const session = await this.sessionManager.getSession(sessionId);
+    if (!session) {
+      return this.formatErrorResponse("Invalid or expired session ID", {
+        suggestedAction: "Use list_sessions to find the session",
+        validNextSteps: ["List sessions"],
+        exampleCall: 'list_sessions({})'
+      });
+    }
+
+    const current = toSnapshotData(session);
+    const forks = (await this.sessionManager.listForks(sessionId)).map(fork => {
+      const forkPoint = fork.snapshots?.find(snapshot => snapshot.snapshotId === fork.forkedFrom?.snapshotId)?.data;
+      const forkContent = toSnapshotData(fork);
+      return {
+        sessionId: fork.sessionId,
+        label: fork.label,
+        state: fork.state,
+        forkedAt: new Date(fork.forkedFrom?.forkedAt ?? fork.createdAt).toISOString(),
+        parentStateAtFork: fork.forkedFrom?.state,
+        // Without the fork point (e.g. snapshots trimmed) only the current differences are known
+        changedInFork: forkPoint ? changedContentFields(forkPoint, forkContent) : undefined,
+        changedInParent: forkPoint ? changedContentFields(forkPoint, current) : undefined,
+        differences: changedContentFields(current, forkContent)
+      };
+    });
+
+    let output = `Forks of ${sessionId}${session.label ? ` (${session.label})` : ''}\n\n`;
+    if (session.forkedFrom) {
+      output += `This session is itself a fork of ${session.forkedFrom.sessionId}, made ${new Date(session.forkedFrom.forkedAt).toISOString()} at state "${session.forkedFrom.state}".\n\n`;
+    }
+    if (forks.length === 0) {
+      output += `No forks. Use fork_session to branch this session.\n`;
+    }
+    for (const fork of forks) {
+      output += `- ${fork.sessionId}${fork.label ? ` (${fork.label})` : ''}: now "${fork.state}", forked ${fork.forkedAt} at "${fork.parentStateAtFork}"\n`;
+      if (fork.changedInFork && fork.changedInParent) {
+        output += `  Changed in fork: ${fork.changedInFork.join(', ') || 'nothing'}; changed in parent: ${fork.changedInParent.join(', ') || 'nothing'}\n`;
+      } else {
+        output += `  Differs from parent in: ${fork.differences.join(', ') || 'nothing'}\n`;
+      }
+    }
+
+    return {
+      content: [{
+        type: 'text' as const,
+        text: output
+      }],
+      structuredContent: {
+        sessionId,
+        parent: session.forkedFrom,
+        forks
+      }
+    };
+  }
+
+  /**
+   * Serialize a session into a portable bundle
+   */
+  private async handleExportSession(params: { sessionId?: string; filePath?: string }) {
+    const session = params.sessionId ? await this.sessionManager.getSession(params.sessionId) : undefined;
+    if (!session) {
+      return this.formatErrorResponse("Invalid or expired session ID", {
+        suggestedAction: "Use list_sessions to find the session to export",
+        validNextSteps: ["List sessions"],
+        exampleCall: 'export_session({ sessionId: "kat_123_abc" })'
+      });
+    }
+
+    const bundle = createSessionBundle(session);
+    const json = JSON.stringify(bundle, null, 2);
+
+    let writtenTo: string | undefined;
+    if (params.filePath) {
+      try {
+        writtenTo = await resolveBundlePath(this.projectRoot, params.filePath);
+        await fs.mkdir(path.dirname(writtenTo), { recursive: true });
+        await fs.writeFile(writtenTo, json, { flag: fsConstants.O_WRONLY | fsConstants.O_CREAT | fsConstants.O_TRUNC | fsConstants.O_NOFOLLOW });
+      } catch (err) {
+        return this.formatErrorResponse(`Could not write bundle to ${params.filePath}: ${err instanceof Error ? err.message : 'Unknown error'}`, {
+          suggestedAction: `Use a file name inside ${projectBundleDir(this.projectRoot)}, or omit filePath to get the bundle inline`,
+          validNextSteps: ["Retry export"],
+          exampleCall: `export_session({ sessionId: "${session.sessionId}" })`
+        });
+      }
+    }
+
+    let output = `Session Exported\n\n`;
+    output += `**Session ID:** ${session.sessionId}\n`;
+    output += `**State:** ${session.state}\n`;
+    output += `**Documents:** ${session.generatedDocuments?.length ?? 0}\n`;
+    output += writtenTo ? `**Bundle File:** ${writtenTo}\n` : `\n\`\`\`json\n${json}\n\`\`\`\n`;
+
+    return {
+      content: [{
+        type: 'text' as const,
+        text: output
+      }],
+      structuredContent: {
+        sessionId: session.sessionId,
+        filePath: writtenTo,
+        bundle
+      }
+    };
+  }
+
+  /**
+   * Validate a bundle and add its session here
+   */
+  private async handleImportSession(params: { bundle?: string; filePath?: string }) {
+    let raw = params.bundle;
+    if (!raw && params.filePath) {
+      try {
+        const file = await resolveBundlePath(this.projectRoot, params.filePath);
+        raw = await fs.readFile(file, { encoding: 'utf-8', flag: fsConstants.O_RDONLY | fsConstants.O_NOFOLLOW });
+      } catch (err) {
+        return this.formatErrorResponse(`Could not read bundle file: ${err instanceof Error ? err.message : 'Unknown error'}`, {
+          suggestedAction: `Check the file name inside ${projectBundleDir(this.projectRoot)}, or pass the bundle JSON directly`,
+          validNextSteps: ["Retry import"],
+          exampleCall: 'import_session({ filePath: "todo-app.katbundle.json" })'
+        });
+      }
+    }
+    if (!raw) {
+      return this.formatErrorResponse("No bundle provided", {
+        suggestedAction: "Pass the bundle JSON from export_session, or a filePath to read it from",
+        validNextSteps: ["Import with bundle", "Import with filePath"],
+        exampleCall: 'import_session({ filePath: "todo-app.katbundle.json" })'
+      });
+    }
+
+    let parsedJson: unknown;
+    try {
+      parsedJson = JSON.parse(raw);
+    } catch {
+      parsedJson = undefined;
+    }
+    const result = readSessionBundle(parsedJson, this.workflow);
+    if (!result.ok) {
+      return this.formatErrorResponse(result.error, {
+        suggestedAction: "Export the session again and import the unmodified bundle",
+        validNextSteps: ["Re-export session"],
+        exampleCall: 'export_session({ sessionId: "kat_123_abc", filePath: "todo-app.katbundle.json" })'
+      });
+    }
+
+    const { session, remappedFrom, error } = await this.sessionManager.importSession(result.session);
+    if (!session) {
+      return this.formatErrorResponse(error === 'session_limit' ? "Server session limit reached, cannot import session" : "Import failed", {
+        suggestedAction: "Delete or finish unused sessions, then import again",
+        validNextSteps: ["List sessions", "Delete session"],
+        exampleCall: 'list_sessions({})'
+      });
+    }
+
+    const nextCall = this.workflow.requiredParameters(session.state, session.sessionId);
+
+    let output = `Session Imported\n\n`;
+    output += `**Session ID:** ${session.sessionId}\n`;
+    if (remappedFrom) {
+      output += `**Original ID:** ${remappedFrom} (already in use here, so a new ID was assigned)\n`;
+    }
+    output += `**Project:** ${session.userIdea}\n`;
+    output += `**State:** ${session.state}\n`;
+    if (session.state !== result.declaredState) {
+      output += `\nThe bundle was exported in state "${result.declaredState}" but lacks the content for it, so the session resumes at "${session.state}".\n`;
+    }
+    if (nextCall) {
+      output += `\nContinue the workflow with ${this.describeNextCall(session.state)} and this sessionId.`;
+    }
+
+    return {
+      content: [{
+        type: 'text' as const,
+        text: output
+      }],
+      structuredContent: {
+        sessionId: session.sessionId,
+        remappedFrom,
+        state: session.state,
+        declaredState: result.declaredState,
+        nextCall
+      }
+    };
+  }
+
+  /**
+   * List active sessions matching the given filters
+   */
+  private async handleListSessions(params: { state?: SessionState[]; createdWithinHours?: number; createdBeforeHours?: number; query?: string; limit?: number }) {
+    const now = Date.now();
+    const hour = 60 * 60 * 1000;
+    const filter: SessionFilter = {
+      states: params.state,
+      createdAfter: params.createdWithinHours !== undefined ? now - params.createdWithinHours * hour : undefined,
+      createdBefore: params.createdBeforeHours !== undefined ? now - params.createdBeforeHours * hour : undefined,
+      query: params.query
+    };
+    const sessions = (await this.sessionManager.listSessions(filter)).slice(0, params.limit ?? 20);
+
+    const summaries = sessions.map(session => ({
+      sessionId: session.sessionId,
+      label: session.label,
+      userIdea: session.userIdea,
+      state: session.state,
+      createdAt: new Date(session.createdAt).toISOString(),
+      lastActivity: new Date(session.lastActivity).toISOString(),
+      documentCount: session.generatedDocuments?.length ?? 0
+    }));
+
+    let output = `Sessions (${summaries.length})\n\n`;
+    if (summaries.length === 0) {
+      output += `No active sessions match these filters. Archived sessions can be found with list_archived_sessions.\n`;
+    }
+    for (const summary of summaries) {
+      const name = summary.label ? `${summary.label} — "${summary.userIdea}"` : `"${summary.userIdea}"`;
+      output += `- ${summary.sessionId}: ${name} (state: ${summary.state}, created ${summary.createdAt}, last active ${summary.lastActivity})\n`;
+    }
+
+    return {
+      content: [{
+        type: 'text' as const,
+        text: output
+      }],
+      structuredContent: {
+        sessions: summaries
+      }
+    };
+  }
+
+  /**
+   * Show the full stored state of a session
+   */
+  private async handleGetSession(sessionId: string | undefined) {
+    const session = sessionId ? await this.sessionManager.getSession(sessionId) : undefined;
+    if (!sessionId || !session) {
+      return this.formatErrorResponse("Invalid or expired session ID", {
+        suggestedAction: "Use list_sessions to find the session",
+        validNextSteps: ["List sessions", "List archived sessions"],
+        exampleCall: 'list_sessions({ query: "todo" })'
+      });
+    }
+
+    let output = `Session ${session.sessionId}${session.label ? ` — ${session.label}` : ''}\n\n`;
+    output += `**Project:** ${session.userIdea}\n`;
+    output += `**State:** ${session.state}\n`;
+    output += `**Created:** ${new Date(session.createdAt).toISOString()}\n`;
+    output += `**Last Activity:** ${new Date(session.lastActivity).toISOString()}\n`;
+
+    const answers = Object.entries(session.answers ?? {});
+    if (answers.length > 0) {
+      const labels = new Map((session.questionRounds ?? []).flatMap(round => round.questions).map(question => [question.id, question.label]));
+      output += `\n**Answers:**\n${answers.map(([id, answer]) => `- ${labels.get(id) ?? id}: ${answer}`).join('\n')}\n`;
+    }
+    if (session.refinedSpecification) {
+      output += `\n**Refined Specification:**\n${session.refinedSpecification}\n`;
+    }
+    if (session.generatedDocuments?.length) {
+      output += `\n**Documents:** ${session.generatedDocuments.map(doc => `${doc.title} (v${doc.version ?? 1})`).join(', ')}\n`;
+    }
+    if (session.revisions?.length) {
+      output += `\n**Revisions:** ${session.revisions.length}\n${session.revisions.map(revision => `- Revision ${revision.revision}: ${revision.request}`).join('\n')}\n`;
+    }
+    if (session.generatedDocuments?.length) {
+      output += `\n**Document Reviews:**\n${documentApprovals(session).map(approval => `- ${approval.title} (v${approval.version}): ${approval.status}${approval.comment ? ` — ${approval.comment}` : ''}`).join('\n')}\n`;
+    }
+    if (session.developmentPlan) {
+      output += `\n**Development Plan:** ${session.developmentPlan.implementationSteps.length} steps, ${session.developmentPlan.estimatedTimeline}\n`;
+    }
+
+    const { snapshots, rollbacks, ...details } = session;
+    return {
+      content: [{
+        type: 'text' as const,
+        text: output
+      }],
+      structuredContent: {
+        session: {
+          ...details,
+          snapshotCount: snapshots?.length ?? 0,
+          rollbackCount: rollbacks?.length ?? 0
+        },
+        nextCall: this.workflow.requiredParameters(session.state, session.sessionId)
+      }
+    };
+  }
+
+  /**
+   * Set a session's human-friendly label
+   */
+  private async handleRenameSession(params: { sessionId: string; label: string }) {
+    const session = await this.sessionManager.renameSession(params.sessionId, params.label);
+    if (!session) {
+      return this.formatErrorResponse("Invalid or expired session ID", {
+        suggestedAction: "Use list_sessions to find the session",
+        validNextSteps: ["List sessions"],
+        exampleCall: 'list_sessions({})'
+      });
+    }
+
+    return {
+      content: [{
+        type: 'text' as const,
+        text: `Session ${params.sessionId} renamed to "${session.label}".`
+      }],
+      structuredContent: {
+        sessionId: params.sessionId,
+        label: session.label
+      }
+    };
+  }
+
+  /**
+   * Permanently delete an active session
+   */
+  private async handleDeleteSession(sessionId: string) {
+    let deleted: boolean;
+    try {
+      deleted = await this.sessionManager.deleteSession(sessionId);
+    } catch (err) {
+      return this.formatErrorResponse(`Could not delete session ${sessionId}: ${err instanceof Error ? err.message : 'Unknown error'}`, {
+        suggestedAction: "The session was kept; check the session store and retry",
+        validNextSteps: ["Retry delete"],
+        exampleCall: `delete_session({ sessionId: "${sessionId}" })`
+      });
+    }
+    if (!deleted) {
+      return this.formatErrorResponse("Invalid or expired session ID", {
+        suggestedAction: "Use list_sessions to find the session",
+        validNextSteps: ["List sessions"],
+        exampleCall: 'list_sessions({})'
+      });
+    }
+
+    return {
+      content: [{
+        type: 'text' as const,
+        text: `Session ${sessionId} deleted.`
+      }],
+      structuredContent: {
+        sessionId,
+        deleted: true
+      }
+    };
+  }
+
+  /**
+   * List the snapshots a session can be rolled back to
+   */
+  private async handleListSnapshots(sessionId: string) {
+    const snapshots = await this.sessionManager.listSnapshots(sessionId);
+    if (!snapshots) {
+      return this.formatErrorResponse("Invalid or expired session ID", {
+        suggestedAction: "Use a valid sessionId, or restore_session if the session was archived",
+        validNextSteps: ["Use correct sessionId", "List archived sessions"],
+        exampleCall: 'list_session_snapshots({ sessionId: "kat_123_abc" })'
+      });
+    }
+
+    const summaries = snapshots.map(snapshot => ({
+      snapshotId: snapshot.snapshotId,
+      takenAt: new Date(snapshot.takenAt).toISOString(),
+      reason: snapshot.reason,
+      state: snapshot.data.state,
+      hasRefinedSpecification: Boolean(snapshot.data.refinedSpecification),
+      documentCount: snapshot.data.generatedDocuments?.length ?? 0
+    }));
+
+    let output = `Session Snapshots (${summaries.length})\n\n`;
+    if (summaries.length === 0) {
+      output += `No snapshots yet. A snapshot is taken before every workflow state transition.\n`;
+    }
+    for (const summary of summaries) {
+      output += `- ${summary.snapshotId}: state "${summary.state}" taken ${summary.takenAt} (${summary.reason}, ${summary.documentCount} documents)\n`;
+    }
+
+    return {
+      content: [{
+        type: 'text' as const,
+        text: output
+      }],
+      structuredContent: {
+        sessionId,
+        snapshots: summaries
+      }
+    };
+  }
+
+  /**
+   * Roll a session back to a snapshot
+   */
+  private async handleRollbackSession(params: { sessionId: string; snapshotId: string; override?: boolean; reason?: string }) {
+    const { session, error } = await this.sessionManager.rollbackSession(params.sessionId, params.snapshotId, {
+      override: params.override,
+      reason: params.reason
     });
+
+    if (!session) {
+      switch (error) {
+        case 'transition_not_allowed':
+          return this.formatErrorResponse("Rolling back to this snapshot is not an allowed workflow transition", {
+            suggestedAction: "Pick a snapshot reachable from the current state, or pass override: true with a reason to force the rollback",
+            validNextSteps: ["List snapshots", "Rollback with override"],
+            exampleCall: `rollback_session({ sessionId: "${params.sessionId}", snapshotId: "${params.snapshotId}", override: true, reason: "..." })`
+          });
+        case 'snapshot_not_found':
+          return this.formatErrorResponse("Snapshot not found for this session", {
+            suggestedAction: "Use list_session_snapshots to find a valid snapshotId",
+            validNextSteps: ["List snapshots"],
+            exampleCall: `list_session_snapshots({ sessionId: "${params.sessionId}" })`
+          });
+        default:
+          return this.formatErrorResponse("Invalid or expired session ID", {
+            suggestedAction: "Use a valid sessionId, or restore_session if the session was archived",
+            validNextSteps: ["Use correct sessionId", "List archived sessions"],
+            exampleCall: 'list_archived_sessions({})'
+          });
+      }
+    }
+
+    const rollback = session.rollbacks?.[session.rollbacks.length - 1];
+    const nextCall = this.workflow.requiredParameters(session.state, params.sessionId);
+
+    let output = `Session Rolled Back\n\n`;
+    output += `**Session ID:** ${params.sessionId}\n`;
+    output += `**State:** ${rollback?.fromState} → ${session.state}\n`;
+    if (rollback?.override) {
+      output += `**Override:** transition rules were bypassed${rollback.reason ? ` (${rollback.reason})` : ''}\n`;
+    }
+    if (nextCall) {
+      output += `\nContinue the workflow with ${this.describeNextCall(session.state)} and this sessionId.`;
+    }
+
+    return {
+      content: [{
+        type: 'text' as const,
+        text: output
+      }],
+      structuredContent: {
+        sessionId: params.sessionId,
+        state: session.state,
+        rollback,
+        nextCall
+      }
+    };
+  }
+
+  /**
+   * List archived sessions, optionally filtered by idea text
+   */
+  private async handleListArchivedSessions(params: { query?: string; limit?: number }) {
+    const query = params.query?.toLowerCase();
+    const archived = (await this.sessionManager.listArchivedSessions())
+      .filter(session => !query || session.userIdea.toLowerCase().includes(query))
+      .slice(0, params.limit ?? 20);
+
+    const summaries = archived.map(session => ({
+      sessionId: session.sessionId,
+      userIdea: session.userIdea,
+      state: session.state,
+      createdAt: new Date(session.createdAt).toISOString(),
+      archivedAt: session.archivedAt ? new Date(session.archivedAt).toISOString() : undefined,
+      archiveReason: session.archiveReason,
+      documentCount: session.generatedDocuments?.length ?? 0
+    }));
+
+    let output = `Archived Sessions (${summaries.length})\n\n`;
+    if (summaries.length === 0) {
+      output += `No archived sessions found.\n`;
+    }
+    for (const summary of summaries) {
+      output += `- ${summary.sessionId}: "${summary.userIdea}" (state: ${summary.state}, archived ${summary.archivedAt ?? 'unknown'}, reason: ${summary.archiveReason ?? 'unknown'})\n`;
+    }
+    if (summaries.length > 0) {
+      output += `\nUse restore_session with a sessionId to continue one of these sessions.`;
+    }
+
+    return {
+      content: [{
+        type: 'text' as const,
+        text: output
+      }],
+      structuredContent: {
+        sessions: summaries
+      }
+    };
+  }
+
+  /**
+   * Restore an archived session to active state
+   */
+  private async handleRestoreSession(sessionId: string) {
+    const { session, error } = await this.sessionManager.restoreSession(sessionId);
+
+    if (!session) {
+      const messages = {
+        not_found: "No archived session with that ID",
+        already_active: "Session is already active",
+        session_limit: "Server session limit reached, cannot restore session"
+      };
+      return this.formatErrorResponse(messages[error ?? 'not_found'], {
+        suggestedAction: error === 'already_active'
+          ? "Continue the session with start_interactive_spec"
+          : "Use list_archived_sessions to find a valid sessionId",
+        validNextSteps: error === 'already_active' ? ["Continue session"] : ["List archived sessions"],
+        exampleCall: 'list_archived_sessions({})'
+      });
+    }
+
+    const nextCall = this.workflow.requiredParameters(session.state, sessionId);
+
+    let output = `Session Restored\n\n`;
+    output += `**Session ID:** ${sessionId}\n`;
+    output += `**Project:** ${session.userIdea}\n`;
+    output += `**State:** ${session.state}\n`;
+    if (nextCall) {
+      output += `\nContinue the workflow with ${this.describeNextCall(session.state)} and this sessionId.`;
+    }
+
+    return {
+      content: [{
+        type: 'text' as const,
+        text: output
+      }],
+      structuredContent: {
+        sessionId,
+        restored: true,
+        state: session.state,
+        nextCall
+      }
+    };
   }
 
   /**
    * Handle development workflow with session validation
    */
   private async handleDevelopmentWorkflow(params: {
-    sessionId: string;
+    sessionId?: string;
     developmentPlan?: {
       implementationSteps: string[];
       milestones: string[];
@@ -185,27 +1187,36 @@ Session state is 'approved'`,
       );
     }
 
-    // CRITICAL: State validation ensures proper workflow
-    if (session.state !== "final_approval") {
+    // The workflow's development step is the state bound to this handler
+    const target = this.workflow.stateForHandler('development');
+    if (!target) {
       return this.formatErrorResponse(
-        `Invalid state transition. Current state: ${session.state}. Expected: final_approval → development`,
+        `The ${this.workflow.name} workflow has no development step`,
         {
-          suggestedAction: `Call with sessionId="${params.sessionId}" and valid state transition`,
-          validNextSteps: [`start_development from final_approval state`],
-          exampleCall: `start_development({ sessionId: "${params.sessionId}" })`
+          suggestedAction: "Follow next_action of the session's current state instead",
+          validNextSteps: ["Get session"],
+          exampleCall: `get_session({ sessionId: "${params.sessionId}" })`
         }
       );
     }
 
+    // CRITICAL: State validation ensures proper workflow
+    if (!this.workflow.canTransition(session.state, target.name)) {
+      return this.invalidTransition(params.sessionId, session.state, target.name, 'start_development',
+        `start_development({ sessionId: "${params.sessionId}" })`);
+    }
+
     // Generate development plan if not provided
-    const developmentPlan = params.developmentPlan || this.generateDevelopmentPlan(session.userIdea);
+    const developmentPlan = params.developmentPlan || this.generateDevelopmentPlan(session);
 
     // Update session to development state
-    await this.sessionManager.updateSession(params.sessionId, {
-      state: "development",
+    const blocked = await this.applyTransition(params.sessionId, session, target.name, {
       developmentPlan: developmentPlan,
       lastActivity: Date.now()
     });
+    if (blocked) {
+      return blocked;
+    }
 
     let output = `Development Implementation Started!\n\n`;
     output += `**Session ID:** ${params.sessionId}\n\n`;
@@ -224,13 +1235,13 @@ Session state is 'approved'`,
       structuredContent: {
         sessionId: params.sessionId,
         developmentPlan: developmentPlan,
-        state: "development",
+        state: target.name,
         workflowMode: 'development',
         developmentStarted: true
       }
     };
 
-    return this.formatResponse(response, 'development');
+    return this.formatResponse(response, target.name);
   }
 
   /**
@@ -240,69 +1251,80 @@ Session state is 'approved'`,
     userIdea: string;
     mode: string;
     sessionId?: string;
-    userAnswers?: Record<string, string | string[]>;
+    userAnswers?: Record<string, AnswerValue>;
     explicitApproval?: string;
     revisionRequest?: string;
   }) {
     try {
-      // Input validation
-      if (!params.userIdea && params.mode === 'question') {
-        return this.formatErrorResponse(
-          "userIdea is required for question mode",
-          {
-            suggestedAction: "Provide a userIdea for project planning",
-            validNextSteps: ["Provide userIdea"],
-            exampleCall: 'start_interactive_spec({ userIdea: "your project idea", mode: "question" })'
-          }
-        );
-      }
+      const validModes = this.workflow.modes;
+      const startMode = this.workflow.state(this.workflow.initialState)?.mode;
 
       if (!params.mode) {
         return this.formatErrorResponse(
           "mode parameter is required",
           {
-            suggestedAction: "Specify a valid mode: question, refine, document_review, or final_approval",
-            validNextSteps: ["question", "refine", "document_review", "final_approval"],
-            exampleCall: 'start_interactive_spec({ userIdea: "your idea", mode: "question" })'
+            suggestedAction: `Specify a valid mode: ${validModes.join(', ')}`,
+            validNextSteps: validModes,
+            exampleCall: `start_interactive_spec({ userIdea: "your idea", mode: "${startMode}" })`
           }
         );
       }
 
       // Validate mode parameter
-      const validModes = ['question', 'refine', 'document_review', 'final_approval'];
-      if (!validModes.includes(params.mode)) {
+      const target = this.workflow.stateForMode(params.mode);
+      if (!target) {
         return this.formatErrorResponse(
           `Invalid mode: ${params.mode}. Must be one of: ${validModes.join(', ')}`,
           {
             suggestedAction: "Use a valid mode parameter",
             validNextSteps: validModes,
-            exampleCall: 'start_interactive_spec({ userIdea: "your idea", mode: "question" })'
+            exampleCall: `start_interactive_spec({ userIdea: "your idea", mode: "${startMode}" })`
           }
         );
       }
 
-      switch (params.mode) {
+      const sessionId = this.resolveSessionId(params.sessionId);
+
+      // Input validation: the workflow declares what each step needs from the user
+      const missing = target.requiredInputs.filter(input => !params[input]);
+      if (missing.length > 0) {
+        if (missing.includes('explicitApproval') && sessionId) {
+          this.sessionManager.recordWorkflowEvent('approval_rejected', sessionId, { stage: target.name });
+        }
+        return this.formatErrorResponse(
+          `${missing.join(' and ')} ${missing.length === 1 ? 'is' : 'are'} required for ${params.mode} mode`,
+          {
+            suggestedAction: `Ask the user for ${missing.join(' and ')} and include it in the call`,
+            validNextSteps: missing.map(input => `Provide ${input}`),
+            exampleCall: `start_interactive_spec(${JSON.stringify({ sessionId, mode: params.mode, ...Object.fromEntries(missing.map(input => [input, '[user response]'])) })})`
+          }
+        );
+      }
+
+      // The handler bound to the mode's state carries out the step
+      switch (target.handler) {
         case 'question':
           return await this.handleQuestionMode(params.userIdea);
 
         case 'refine':
-          return await this.handleRefineMode(params.sessionId, params.userAnswers);
+          if (params.revisionRequest) {
+            const revisionRequest = params.revisionRequest;
+            return await this.withSessionLock(sessionId, () => this.handleRevisionMode(sessionId, target.name, revisionRequest));
+          }
+          return await this.withSessionLock(sessionId, () => this.handleRefineMode(sessionId, target.name, params.userAnswers));
 
         case 'document_review':
-          return await this.handleDocumentReviewMode(params.sessionId, params.explicitApproval);
+          return await this.withSessionLock(sessionId, () => this.handleDocumentReviewMode(sessionId, target.name, params.explicitApproval));
 
         case 'final_approval':
-          return await this.handleFinalApprovalMode(params.sessionId, params.explicitApproval);
+          return await this.withSessionLock(sessionId, () => this.handleFinalApprovalMode(sessionId, target.name, params.explicitApproval));
 
         default:
-          return this.formatErrorResponse("Invalid mode specified", {
-            suggestedAction: "Use one of: question, refine, document_review, final_approval",
-            validNextSteps: ["question", "refine", "document_review", "final_approval"],
-            exampleCall: 'start_interactive_spec({ mode: "question", userIdea: "your idea" })'
-          });
+          // `step`, such as the steps a custom workflow adds
+          return await this.withSessionLock(sessionId, () => this.handleWorkflowStep(sessionId, target));
       }
     } catch (error) {
-      console.error('Interactive workflow error:', error);
+      log.error('interactive_workflow_failed', { mode: params.mode, sessionId: params.sessionId, error: error instanceof Error ? error.message : 'Unknown error' });
       return this.formatErrorResponse("Internal server error during workflow processing", {
         suggestedAction: "Try again or start a new session",
         validNextSteps: ["Start new session"],
@@ -312,50 +1334,223 @@ Session state is 'approved'`,
   }
 
   /**
-   * Handle question mode with session creation
+   * Run a handler's read-then-write of a session without other tool calls for that session interleaving
+   */
+  private withSessionLock<T>(sessionId: string | undefined, handler: () => Promise<T>): Promise<T> {
+    return sessionId ? this.sessionManager.withSessionLock(sessionId, handler) : handler();
+  }
+
+  /**
+   * Fall back to the project's session when storage is project-scoped and no sessionId was given
+   */
+  private resolveSessionId(sessionId: string | undefined): string | undefined {
+    if (sessionId || !this.sessionManager.isProjectScoped()) {
+      return sessionId;
+    }
+    return this.sessionManager.getActiveSessionId();
+  }
+
+  /**
+   * Handle question mode with session creation
+   */
+  private async handleQuestionMode(userIdea: string) {
+    const sessionId = await this.sessionManager.createSession(userIdea);
+
+    if (!sessionId) {
+      return this.formatErrorResponse("Failed to create session", {
+        suggestedAction: "Server session limit reached, try again later",
+        validNextSteps: ["Wait and try again"],
+        exampleCall: 'start_interactive_spec({ userIdea: "your idea", mode: "question" })'
+      });
+    }
+
+    const pack = this.questionPackFor(userIdea);
+    const questions = pack.questions;
+    await this.sessionManager.updateSession(sessionId, {
+      questionPack: pack.id,
+      questionRounds: [{ round: 1, askedAt: Date.now(), questions }]
+    });
+
+    const response = {
+      sessionId,
+      content: [{
+        type: 'text' as const,
+        text: `Interactive Project Planning - Clarification Phase\n\nI'll help plan your project through interactive refinement. Please answer these clarifying questions:\n\n${listQuestions(questions)}\n\n*Provide your answers keyed by question id and I'll create a refined specification.*`
+      }],
+      structuredContent: {
+        questions,
+        questionPack: { id: pack.id, name: pack.name },
+        analysis: this.analyzeProjectIdea(pack),
+        state: this.workflow.initialState,
+        nextStep: this.workflow.requiredParameters(this.workflow.initialState, sessionId)?.mode,
+        workflowMode: 'interactive'
+      }
+    };
+
+    return this.formatResponse(response, this.workflow.initialState);
+  }
+
+  /**
+   * Handle refine mode with session validation
+   */
+  private async handleRefineMode(sessionId: string | undefined, target: SessionState, userAnswers: Record<string, AnswerValue> | undefined) {
+    // CRITICAL: Session validation prevents loops
+    if (!sessionId) {
+      return this.formatErrorResponse(
+        "Session ID required for refinement",
+        {
+          suggestedAction: "Include sessionId from previous question call",
+          validNextSteps: ["Provide sessionId"],
+          exampleCall: 'start_interactive_spec({ sessionId: "kat_123_abc", mode: "refine", userAnswers: { ... } })'
+        }
+      );
+    }
+
+    const session = await this.sessionManager.getSession(sessionId);
+    if (!session) {
+      return this.formatErrorResponse(
+        "Invalid or expired session ID",
+        {
+          suggestedAction: "Start new interactive session or use correct sessionId",
+          validNextSteps: ["Start new session", "Use correct sessionId"],
+          exampleCall: 'start_interactive_spec({ userIdea: "your idea", mode: "question" })'
+        }
+      );
+    }
+
+    // CRITICAL: State validation prevents loops
+    if (!this.workflow.canTransition(session.state, target)) {
+      return this.invalidTransition(sessionId, session.state, target, 'mode="refine"',
+        `start_interactive_spec({ sessionId: "${sessionId}", mode: "refine", userAnswers: { ... } })`);
+    }
+
+    // Once documents exist, going back to refinement is a revision of them
+    if (session.generatedDocuments?.length) {
+      return this.formatErrorResponse(
+        "revisionRequest is required to revise generated documents",
+        {
+          suggestedAction: "Pass the user's requested changes in revisionRequest",
+          validNextSteps: ["Provide revisionRequest"],
+          exampleCall: `start_interactive_spec({ sessionId: "${sessionId}", mode: "refine", revisionRequest: "[user feedback]" })`
+        }
+      );
+    }
+
+    // These answers are to the latest round; check them against its questions and key them by id
+    const rounds = this.questionRounds(session);
+    const currentRound = rounds[rounds.length - 1]!;
+    const validated = validateAnswers(currentRound.questions, withoutStopRequests(userAnswers ?? {}));
+    if (validated.errors.length > 0) {
+      return this.formatErrorResponse(
+        `Invalid userAnswers:\n${validated.errors.map(error => `- ${error.key}: ${error.message}`).join('\n')}`,
+        {
+          suggestedAction: "Ask the user about the answers listed and call refine again with every answer to this round, keyed by question id",
+          validNextSteps: ["Fix userAnswers"],
+          exampleCall: `start_interactive_spec({ sessionId: "${sessionId}", mode: "refine", userAnswers: { ${currentRound.questions.slice(0, 2).map(question => `${question.id}: ...`).join(', ')} } })`,
+          answerErrors: validated.errors,
+          questions: currentRound.questions
+        }
+      );
+    }
+    const answers = { ...session.answers, ...validated.answers };
+    const answeredRounds = rounds.map(round => round === currentRound ? { ...round, answeredAt: Date.now() } : round);
+    const { spec, gaps } = this.refineFromSession(session.userIdea, answeredRounds, answers, this.revisionRequests(session));
+
+    // Keep asking while critical gaps remain, until the user has had enough
+    if (gaps.critical.length > 0 && !wantsToStopQuestioning(userAnswers ?? {}) && rounds.length < MAX_QUESTION_ROUNDS) {
+      return this.askFollowUpQuestions(sessionId, session, answers, answeredRounds, gaps);
+    }
+
+    const refinedSpec = formatSpecification(spec);
+    const blocked = await this.applyTransition(sessionId, session, target, {
+      answers,
+      questionRounds: answeredRounds,
+      refinedSpecification: refinedSpec,
+      lastActivity: Date.now()
+    });
+    if (blocked) {
+      return blocked;
+    }
+
+    const response = {
+      sessionId,
+      content: [{
+        type: 'text' as const,
+        text: `Interactive Project Planning - Refinement Phase\n\nBased on your answers, here's your refined specification:\n\n${refinedSpec}\n\n` +
+          (spec.unansweredQuestions.length > 0
+            ? `*${spec.unansweredQuestions.length} question(s) are still unanswered and listed under Open Questions; the user can answer them before documents are generated.*`
+            : '*This specification is ready for document generation.*')
+      }],
+      structuredContent: {
+        sessionId,
+        refinedSpecification: refinedSpec,
+        specificationSections: spec.sections,
+        unansweredQuestions: spec.unansweredQuestions,
+        state: target,
+        nextStep: this.workflow.requiredParameters(target, sessionId)?.mode,
+        workflowMode: 'interactive'
+      }
+    };
+
+    return this.formatResponse(response, target);
+  }
+
+  /**
+   * Record the answers so far and ask the next round of questions, leaving the session in questioning
    */
-  private async handleQuestionMode(userIdea: string) {
-    const sessionId = await this.sessionManager.createSession(userIdea);
+  private async askFollowUpQuestions(
+    sessionId: string,
+    session: Session,
+    answers: Record<string, string>,
+    rounds: QuestionRound[],
+    gaps: QuestioningGaps
+  ) {
+    const followUps = [...gaps.critical, ...gaps.optional];
+    const round: QuestionRound = { round: rounds.length + 1, askedAt: Date.now(), questions: followUps.map(followUp => followUp.question) };
 
-    if (!sessionId) {
-      return this.formatErrorResponse("Failed to create session", {
-        suggestedAction: "Server session limit reached, try again later",
-        validNextSteps: ["Wait and try again"],
-        exampleCall: 'start_interactive_spec({ userIdea: "your idea", mode: "question" })'
-      });
+    if (!await this.sessionManager.updateSession(sessionId, { answers, questionRounds: [...rounds, round], lastActivity: Date.now() })) {
+      return this.formatErrorResponse(
+        "Failed to record answers",
+        {
+          suggestedAction: "Check the session and try again",
+          validNextSteps: ["Get session"],
+          exampleCall: `get_session({ sessionId: "${sessionId}" })`
+        }
+      );
     }
 
-    const questions = this.generateClarifyingQuestions(userIdea);
-
     const response = {
       sessionId,
       content: [{
         type: 'text' as const,
-        text: `Interactive Project Planning - Clarification Phase\n\nI'll help plan your project through interactive refinement. Please answer these clarifying questions:\n\n${questions.join('\n')}\n\n*Provide your answers and I'll create a refined specification.*`
+        text: `Interactive Project Planning - Follow-up Questions (round ${round.round})\n\nA few things need more detail before the specification can be refined:\n\n${listQuestions(round.questions)}\n\n*Answer these, or say "that's enough" to continue with what we have.*`
       }],
       structuredContent: {
-        questions,
-        state: "questioning",
-        nextStep: "refine",
+        sessionId,
+        questions: round.questions,
+        round: round.round,
+        followUps,
+        state: session.state,
+        nextStep: this.workflow.requiredParameters(session.state, sessionId)?.mode,
         workflowMode: 'interactive'
       }
     };
 
-    return this.formatResponse(response, 'questioning');
+    return this.formatResponse(response, session.state);
   }
 
   /**
-   * Handle refine mode with session validation
+   * Handle a revision request during review: record the feedback, apply it to the specification and
+   * the affected documents, then return the session to review with the new document versions
    */
-  private async handleRefineMode(sessionId: string | undefined, userAnswers: Record<string, string | string[]> | undefined) {
-    // CRITICAL: Session validation prevents loops
+  private async handleRevisionMode(sessionId: string | undefined, target: SessionState, revisionRequest: string) {
     if (!sessionId) {
       return this.formatErrorResponse(
-        "Session ID required for refinement",
+        "Session ID required for revision",
         {
-          suggestedAction: "Include sessionId from previous question call",
+          suggestedAction: "Include sessionId of the session under review",
           validNextSteps: ["Provide sessionId"],
-          exampleCall: 'start_interactive_spec({ sessionId: "kat_123_abc", mode: "refine", userAnswers: { ... } })'
+          exampleCall: 'start_interactive_spec({ sessionId: "kat_123_abc", mode: "refine", revisionRequest: "[user feedback]" })'
         }
       );
     }
@@ -372,51 +1567,96 @@ Session state is 'approved'`,
       );
     }
 
-    // CRITICAL: State validation prevents loops
-    if (session.state !== "questioning") {
+    if (!session.generatedDocuments?.length) {
       return this.formatErrorResponse(
-        `Invalid state transition. Current state: ${session.state}. Expected: questioning → refining`,
+        "No documents to revise yet",
         {
-          suggestedAction: `Call with sessionId="${sessionId}" and valid state transition`,
-          validNextSteps: [`mode="refine" from questioning state`],
-          exampleCall: `start_interactive_spec({ sessionId: "${sessionId}", mode: "refine", userAnswers: { ... } })`
+          suggestedAction: "Generate the documents with document_review mode, then request changes",
+          validNextSteps: [`mode="document_review"`],
+          exampleCall: `start_interactive_spec({ sessionId: "${sessionId}", mode: "document_review" })`
         }
       );
     }
 
-    // Process refinement
-    const refinedSpec = this.createRefinedSpecification(session.userIdea);
-
-    // Normalize userAnswers to ensure all values are strings
-    const normalizedAnswers: Record<string, string> = {};
-    if (userAnswers) {
-      for (const [key, value] of Object.entries(userAnswers)) {
-        normalizedAnswers[key] = Array.isArray(value) ? value.join(', ') : value;
-      }
+    // The session goes back to refinement and returns to the review it left
+    const reviewState = session.state;
+    if (!this.workflow.canTransition(reviewState, target) || !this.workflow.canTransition(target, reviewState)) {
+      return this.invalidTransition(sessionId, reviewState, target, 'mode="refine" with revisionRequest',
+        `start_interactive_spec({ sessionId: "${sessionId}", mode: "refine", revisionRequest: "[user feedback]" })`);
     }
 
-    await this.sessionManager.updateSession(sessionId, {
-      state: "refining",
-      answers: normalizedAnswers,
+    // The feedback is folded into the specification and the documents are generated again from it
+    const specification = session.refinedSpecification ??
+      formatSpecification(this.refineFromSession(session.userIdea, this.questionRounds(session), session.answers ?? {}, this.revisionRequests(session)).spec);
+    const { spec } = this.refineFromSession(session.userIdea, this.questionRounds(session), session.answers ?? {},
+      [...this.revisionRequests(session), revisionRequest]);
+    const revisedSpec = formatSpecification(spec);
+    const regenerated = this.generateSDDDocuments(revisedSpec, session.projectType ?? this.detectProjectType(session.userIdea), spec);
+    const { documents, revision, reopened } = applyRevision(session, specification, revisedSpec, regenerated, revisionRequest);
+    const revisions = [...(session.revisions ?? []), revision];
+
+    const refined = await this.applyTransition(sessionId, session, target, {
+      revisions,
+      refinedSpecification: revisedSpec,
+      lastActivity: Date.now()
+    });
+    if (refined) {
+      return refined;
+    }
+    // Revised documents are pending review again
+    const reviewed = await this.applyTransition(sessionId, session, reviewState, {
+      generatedDocuments: documents,
+      approvalStatus: approvalStatusFor({ ...session, revisions, generatedDocuments: documents }),
       lastActivity: Date.now()
     });
+    if (reviewed) {
+      return reviewed;
+    }
+
+    let output = `Interactive Project Planning - Revision ${revision.revision}\n\n`;
+    output += `Requested change: ${revisionRequest}\n\n`;
+    output += revision.documents.length > 0
+      ? `Updated documents:\n${revision.documents.map(change => `- ${change.title}: v${change.fromVersion} → v${change.toVersion}`).join('\n')}`
+      : `No document changed; the request is recorded in the specification.`;
+    if (reopened.length > 0) {
+      output += `\n\nRejected but unchanged by this revision: ${reopened.join(', ')}. They are pending review again; ask the user to approve them as they are or to request a more specific change.`;
+    }
+    output += `\n\n--- SPECIFICATION CHANGES ---\n\`\`\`diff\n${revision.specificationDiff}\n\`\`\`\n\n`;
+    revision.documents.forEach(change => {
+      output += `--- ${change.title.toUpperCase()} CHANGES ---\n\`\`\`diff\n${change.diff}\n\`\`\`\n\n`;
+    });
+    output += `REQUIRED ACTION: Show the user these changes and ask them to approve or reject each document pending review. Record each decision with review_document.\n`;
+    output += `WAIT for user response before proceeding.\n`;
 
     const response = {
       sessionId,
       content: [{
         type: 'text' as const,
-        text: `Interactive Project Planning - Refinement Phase\n\nBased on your answers, here's your refined specification:\n\n${refinedSpec}\n\n*This specification is ready for final approval.*`
+        text: output
       }],
       structuredContent: {
         sessionId,
-        refinedSpecification: refinedSpec,
-        state: "refining",
-        nextStep: "approve",
-        workflowMode: 'interactive'
+        revision: revision.revision,
+        revisionCount: session.revisions?.length ?? 0,
+        revisionHistory: (session.revisions ?? []).map(({ revision: number, requestedAt, request, documents: changed }) => ({
+          revision: number,
+          requestedAt: new Date(requestedAt).toISOString(),
+          request,
+          documents: changed.map(change => `${change.title} v${change.toVersion}`)
+        })),
+        changedDocuments: revision.documents,
+        reopenedDocuments: reopened,
+        specificationDiff: revision.specificationDiff,
+        refinedSpecification: revisedSpec,
+        generatedDocuments: documents,
+        state: reviewState,
+        nextStep: this.workflow.requiredParameters(reviewState, sessionId)?.mode,
+        workflowMode: 'interactive',
+        userInputRequired: true
       }
     };
 
-    return this.formatResponse(response, 'refining');
+    return this.formatResponse(response, reviewState);
   }
 
   /**
@@ -424,6 +1664,7 @@ Session state is 'approved'`,
    */
   private async handleDocumentReviewMode(
     sessionId: string | undefined,
+    target: SessionState,
     explicitApproval: string | undefined
   ) {
     // CRITICAL: Session validation prevents loops
@@ -451,40 +1692,44 @@ Session state is 'approved'`,
     }
 
     // CRITICAL: State validation prevents loops
-    if (session.state !== "refining") {
-      return this.formatErrorResponse(
-        `Invalid state transition. Current state: ${session.state}. Expected: refining → document_review`,
-        {
-          suggestedAction: `Call with sessionId="${sessionId}" and valid state transition`,
-          validNextSteps: [`mode="document_review" from refining state`],
-          exampleCall: `start_interactive_spec({ sessionId: "${sessionId}", mode: "document_review" })`
-        }
-      );
+    if (!this.workflow.canTransition(session.state, target)) {
+      return this.invalidTransition(sessionId, session.state, target, 'mode="document_review"',
+        `start_interactive_spec({ sessionId: "${sessionId}", mode: "document_review" })`);
     }
 
     // Generate SDD documents if not already generated
     let documents = session.generatedDocuments;
     let refinedSpec = session.refinedSpecification;
 
+    // Entering review is a state transition, so it is snapshotted and final approval can follow
+    const updates: Partial<Session> = {
+      lastActivity: Date.now()
+    };
+
     if (!documents || !refinedSpec) {
       // Generate refined specification if not exists
+      const { spec } = this.refineFromSession(session.userIdea, this.questionRounds(session), session.answers ?? {}, this.revisionRequests(session));
       if (!refinedSpec) {
-        refinedSpec = this.createRefinedSpecification(session.userIdea);
+        refinedSpec = formatSpecification(spec);
       }
 
       // Generate SDD documents
       const projectType = this.detectProjectType(session.userIdea);
-      documents = this.generateSDDDocuments(refinedSpec, projectType);
+      documents = this.generateSDDDocuments(refinedSpec, projectType, spec);
 
       // Update session with generated content
-      await this.sessionManager.updateSession(sessionId, {
+      Object.assign(updates, {
         refinedSpecification: refinedSpec,
         generatedDocuments: documents,
-        projectType: projectType,
-        lastActivity: Date.now()
+        projectType: projectType
       });
     }
 
+    const blocked = await this.applyTransition(sessionId, session, target, updates);
+    if (blocked) {
+      return blocked;
+    }
+
     // Format document content for user review
     let output = `Interactive Project Planning - Document Review\n\n`;
     output += `REVIEW: Please review these generated documents and provide approval.\n\n`;
@@ -495,7 +1740,7 @@ Session state is 'approved'`,
       output += `${doc.content}\n\n`;
     });
 
-    output += `REQUIRED ACTION: Ask the user: "Do these documents look good and should I proceed with development?"\n`;
+    output += `REQUIRED ACTION: Ask the user to approve or reject each document. Record each decision with review_document; a rejection needs the user's comment.\n`;
     output += `WAIT for user response before proceeding.\n`;
 
     const response = {
@@ -508,16 +1753,16 @@ Session state is 'approved'`,
         sessionId,
         refinedSpecification: refinedSpec,
         generatedDocuments: documents,
-        state: "document_review",
-        nextStep: "final_approval",
+        state: target,
+        nextStep: this.workflow.requiredParameters(target, sessionId)?.mode,
         workflowMode: 'interactive',
         userInputRequired: true,
-        approvalNeeded: ["requirements.md", "design.md", "tasks.md", "AGENTS.md"],
-        exampleUserResponse: "Yes, the documents look good. Please proceed with development."
+        approvalNeeded: documents.map(doc => doc.title),
+        exampleUserResponse: "requirements.md looks good, but design.md should use PostgreSQL instead of SQLite."
       }
     };
 
-    return this.formatResponse(response, 'document_review');
+    return this.formatResponse(response, target);
   }
 
   /**
@@ -525,6 +1770,7 @@ Session state is 'approved'`,
    */
   private async handleFinalApprovalMode(
     sessionId: string | undefined,
+    target: SessionState,
     explicitApproval: string | undefined
   ) {
     // CRITICAL: Session validation prevents loops
@@ -552,50 +1798,54 @@ Session state is 'approved'`,
     }
 
     // CRITICAL: State validation prevents loops
-    if (session.state !== "document_review") {
-      return this.formatErrorResponse(
-        `Invalid state transition. Current state: ${session.state}. Expected: document_review → final_approval`,
-        {
-          suggestedAction: `Call with sessionId="${sessionId}" and valid state transition`,
-          validNextSteps: [`mode="final_approval" from document_review state`],
-          exampleCall: `start_interactive_spec({ sessionId: "${sessionId}", mode: "final_approval", explicitApproval: "yes" })`
-        }
-      );
+    if (!this.workflow.canTransition(session.state, target)) {
+      return this.invalidTransition(sessionId, session.state, target, 'mode="final_approval"',
+        `start_interactive_spec({ sessionId: "${sessionId}", mode: "final_approval", explicitApproval: "yes" })`);
+    }
+
+    // Validate approval: negated, conditional and ambiguous replies are not approval
+    const approvalIntent = classifyApproval(explicitApproval ?? '');
+    if (approvalIntent.decision !== 'approve' || approvalIntent.confidence < APPROVAL_CONFIDENCE_THRESHOLD) {
+      this.sessionManager.recordWorkflowEvent('approval_rejected', sessionId, {
+        stage: target,
+        decision: approvalIntent.decision,
+        confidence: approvalIntent.confidence
+      });
+      return this.approvalNotGiven(sessionId, approvalIntent);
     }
 
-    // Validate approval
-    const validApprovals = ['yes', 'approved', 'proceed', 'continue', 'ok', 'go ahead', 'documents look good', 'ready for development'];
-    if (!explicitApproval || !validApprovals.some(approval => explicitApproval.toLowerCase().includes(approval))) {
+    // Every document must have been approved individually
+    const approvals = documentApprovals(session);
+    const unapproved = approvals.filter(approval => approval.status !== 'approved');
+    if (unapproved.length > 0) {
+      this.sessionManager.recordWorkflowEvent('approval_rejected', sessionId, {
+        stage: target,
+        unapprovedDocuments: unapproved.map(approval => approval.title)
+      });
       return this.formatErrorResponse(
-        "Explicit approval required for final specification",
+        `Not every document is approved: ${unapproved.map(approval => `${approval.title} (${approval.status})`).join(', ')}`,
         {
-          suggestedAction: "Provide explicit approval to proceed with development",
-          validNextSteps: ["Provide explicit approval"],
-          exampleCall: `start_interactive_spec({ sessionId: "${sessionId}", mode: "final_approval", explicitApproval: "yes" })`
+          suggestedAction: "Ask the user to review the remaining documents and record each decision with review_document; revise rejected ones with mode=\"refine\" and revisionRequest",
+          validNextSteps: ["Review pending documents", "Revise rejected documents"],
+          exampleCall: `review_document({ sessionId: "${sessionId}", document: "${unapproved[0]?.title}", decision: "approve" })`
         }
       );
     }
 
     // Finalize session
-    await this.sessionManager.updateSession(sessionId, {
-      state: "final_approval",
-      approvalStatus: {
-        requirements: true,
-        design: true,
-        tasks: true,
-        agents: true,
-        overall: true
-      },
+    const blocked = await this.applyTransition(sessionId, session, target, {
+      approvalStatus: approvalStatusFor(session),
       lastActivity: Date.now()
     });
+    if (blocked) {
+      return blocked;
+    }
 
     let output = `Interactive Project Planning Complete\n\n`;
     output += `FINAL APPROVAL: User has approved all generated documents.\n\n`;
     output += `Documents Approved:\n`;
-    output += `- requirements.md\n`;
-    output += `- design.md\n`;
-    output += `- tasks.md\n`;
-    output += `- AGENTS.md\n\n`;
+    output += approvals.map(approval => `- ${approval.title} (v${approval.version})`).join('\n');
+    output += `\n\n`;
     output += `NEXT ACTION: Use start_development tool to begin implementation.\n`;
     output += `IMPLEMENTATION READY: Project plan is complete and ready for development.\n`;
 
@@ -608,39 +1858,286 @@ Session state is 'approved'`,
       structuredContent: {
         sessionId,
         planningComplete: true,
-        approvedDocuments: ["requirements.md", "design.md", "tasks.md", "AGENTS.md"],
+        approvedDocuments: approvals.map(approval => approval.title),
         nextSteps: "start_development",
         workflowMode: 'interactive',
-        implementationReady: true
+        implementationReady: true,
+        approvalIntent
+      }
+    };
+
+    return this.formatResponse(response, target);
+  }
+
+  /**
+   * Error for a final approval reply that does not approve. A conditional approval ("yes, but use
+   * PostgreSQL") is turned into the revision request it implies.
+   */
+  private approvalNotGiven(sessionId: string, approvalIntent: ApprovalIntent) {
+    if (approvalIntent.decision === 'conditional' && approvalIntent.revisionRequest) {
+      const nextCall = { tool: 'start_interactive_spec', mode: 'refine', sessionId, revisionRequest: approvalIntent.revisionRequest };
+      return this.formatErrorResponse(
+        `The user's approval depends on a change: ${approvalIntent.revisionRequest}`,
+        {
+          suggestedAction: "Revise the documents with the user's requested change, then review them again before final approval",
+          validNextSteps: ["Revise documents", "Ask the user for unconditional approval"],
+          exampleCall: `start_interactive_spec(${JSON.stringify({ sessionId, mode: 'refine', revisionRequest: approvalIntent.revisionRequest })})`,
+          approvalIntent,
+          nextCall
+        }
+      );
+    }
+
+    const message = approvalIntent.decision === 'reject'
+      ? `The user did not approve the final specification (${approvalIntent.signals.join(', ')})`
+      : "The user's reply is not a clear approval of the final specification";
+    return this.formatErrorResponse(message, {
+      suggestedAction: approvalIntent.decision === 'reject'
+        ? "Ask the user what should change and revise the documents with mode=\"refine\" and revisionRequest, or wait until they are ready"
+        : "Ask the user whether they approve the plan and pass their reply, in their own words, as explicitApproval",
+      validNextSteps: ["Provide explicit approval", "Revise documents"],
+      exampleCall: `start_interactive_spec({ sessionId: "${sessionId}", mode: "final_approval", explicitApproval: "yes, go ahead" })`,
+      approvalIntent
+    });
+  }
+
+  /**
+   * Record the user's approval or rejection of one generated document
+   */
+  private async handleReviewDocument(params: { sessionId?: string; document: string; decision: 'approve' | 'reject'; comment?: string }) {
+    const session = params.sessionId ? await this.sessionManager.getSession(params.sessionId) : undefined;
+    if (!params.sessionId || !session) {
+      return this.formatErrorResponse("Invalid or expired session ID", {
+        suggestedAction: "Use list_sessions to find the session under review",
+        validNextSteps: ["List sessions"],
+        exampleCall: 'list_sessions({ state: ["document_review"] })'
+      });
+    }
+    const sessionId = params.sessionId;
+
+    if (!session.generatedDocuments?.length || this.workflow.isComplete(session.state)) {
+      return this.formatErrorResponse(`Session is not under review (state: ${session.state})`, {
+        suggestedAction: "Generate the documents with document_review mode before reviewing them",
+        validNextSteps: [`mode="document_review"`],
+        exampleCall: `start_interactive_spec({ sessionId: "${sessionId}", mode: "document_review" })`
+      });
+    }
+
+    const document = findDocument(session, params.document);
+    if (!document) {
+      return this.formatErrorResponse(`No document "${params.document}" in this session`, {
+        suggestedAction: `Use one of: ${session.generatedDocuments.map(doc => doc.title).join(', ')}`,
+        validNextSteps: session.generatedDocuments.map(doc => doc.title),
+        exampleCall: `review_document({ sessionId: "${sessionId}", document: "${session.generatedDocuments[0]?.title}", decision: "approve" })`
+      });
+    }
+
+    const comment = params.comment?.trim() || undefined;
+    if (params.decision === 'reject' && !comment) {
+      return this.formatErrorResponse("A comment is required when rejecting a document", {
+        suggestedAction: "Ask the user what should change and pass it as the comment",
+        validNextSteps: ["Provide comment"],
+        exampleCall: `review_document({ sessionId: "${sessionId}", document: "${document.title}", decision: "reject", comment: "[user feedback]" })`
+      });
+    }
+
+    const documentReviews = [...(session.documentReviews ?? []), {
+      document: document.title,
+      version: document.version ?? 1,
+      decision: params.decision === 'approve' ? 'approved' as const : 'rejected' as const,
+      comment,
+      reviewedAt: Date.now()
+    }];
+    const approvalStatus = approvalStatusFor({ ...session, documentReviews });
+    if (!await this.sessionManager.updateSession(sessionId, { documentReviews, approvalStatus, lastActivity: Date.now() })) {
+      return this.formatErrorResponse("Failed to record the review", {
+        suggestedAction: "Check the session and try again",
+        validNextSteps: ["Get session"],
+        exampleCall: `get_session({ sessionId: "${sessionId}" })`
+      });
+    }
+    if (params.decision === 'reject') {
+      this.sessionManager.recordWorkflowEvent('approval_rejected', sessionId, { stage: session.state, document: document.title });
+    }
+
+    const approvals = documentApprovals(session);
+    const rejected = approvals.filter(approval => approval.status === 'rejected');
+    const pending = approvals.filter(approval => approval.status === 'pending');
+
+    let output = `Document Review Recorded\n\n`;
+    output += `**${document.title}** (v${document.version ?? 1}): ${params.decision === 'approve' ? 'approved' : 'rejected'}${comment ? ` — ${comment}` : ''}\n\n`;
+    output += `**Documents:**\n`;
+    output += approvals.map(approval => `- ${approval.title} (v${approval.version}): ${approval.status}${approval.comment ? ` — ${approval.comment}` : ''}`).join('\n');
+    output += `\n\n`;
+
+    let nextCall: Record<string, string | undefined>;
+    if (rejected.length > 0) {
+      const revisionRequest = rejected.map(approval => `${approval.title}: ${approval.comment}`).join('\n');
+      nextCall = { tool: 'start_interactive_spec', mode: 'refine', sessionId, revisionRequest };
+      output += `NEXT ACTION: Revise the rejected documents with start_interactive_spec using mode="refine" and revisionRequest, then review them again.\n`;
+    } else if (pending.length > 0) {
+      nextCall = { tool: 'review_document', sessionId, document: pending[0]!.title, decision: '[user decision]' };
+      output += `NEXT ACTION: Ask the user to review the remaining documents: ${pending.map(approval => approval.title).join(', ')}.\n`;
+    } else {
+      nextCall = { tool: 'start_interactive_spec', ...this.workflow.requiredParameters(session.state, sessionId) };
+      output += `NEXT ACTION: Every document is approved. Confirm with the user, then call start_interactive_spec with mode="${nextCall.mode}" and their explicitApproval.\n`;
+    }
+
+    return {
+      content: [{
+        type: 'text' as const,
+        text: output
+      }],
+      structuredContent: {
+        sessionId,
+        document: document.title,
+        decision: params.decision,
+        documents: approvals,
+        pendingDocuments: pending.map(approval => approval.title),
+        rejectedDocuments: rejected.map(approval => approval.title),
+        allApproved: approvalStatus.overall,
+        nextCall
+      }
+    };
+  }
+
+  /**
+   * Handle a step only a custom workflow defines: move the session into the step's state and hand
+   * the LLM that state's guidance
+   */
+  private async handleWorkflowStep(sessionId: string | undefined, target: WorkflowStateDefinition) {
+    if (!sessionId) {
+      return this.formatErrorResponse(
+        `Session ID required for ${target.mode}`,
+        {
+          suggestedAction: "Include sessionId from previous calls",
+          validNextSteps: ["Provide sessionId"],
+          exampleCall: `start_interactive_spec({ sessionId: "kat_123_abc", mode: "${target.mode}" })`
+        }
+      );
+    }
+
+    const session = await this.sessionManager.getSession(sessionId);
+    if (!session) {
+      return this.formatErrorResponse(
+        "Invalid or expired session ID",
+        {
+          suggestedAction: "Start new interactive session or use correct sessionId",
+          validNextSteps: ["Start new session", "Use correct sessionId"],
+          exampleCall: 'start_interactive_spec({ userIdea: "your idea", mode: "question" })'
+        }
+      );
+    }
+
+    if (!this.workflow.canTransition(session.state, target.name)) {
+      return this.invalidTransition(sessionId, session.state, target.name, `mode="${target.mode}"`,
+        `start_interactive_spec({ sessionId: "${sessionId}", mode: "${target.mode}" })`);
+    }
+
+    const blocked = await this.applyTransition(sessionId, session, target.name, { lastActivity: Date.now() });
+    if (blocked) {
+      return blocked;
+    }
+
+    const documents = session.generatedDocuments ?? [];
+    let output = `Interactive Project Planning - ${titleCase(target.name)}\n\n`;
+    if (target.description) {
+      output += `${target.description}\n\n`;
+    }
+    if (documents.length > 0) {
+      output += `Documents in this session:\n${documents.map(doc => `- ${doc.title}`).join('\n')}\n\n`;
+    }
+    output += `REQUIRED ACTION: Follow next_action before calling any more tools.\n`;
+
+    const response = {
+      sessionId,
+      content: [{
+        type: 'text' as const,
+        text: output
+      }],
+      structuredContent: {
+        sessionId,
+        state: target.name,
+        nextStep: this.workflow.requiredParameters(target.name, sessionId)?.mode,
+        workflowMode: 'interactive',
+        documents: documents.map(doc => doc.title)
       }
     };
 
-    return this.formatResponse(response, 'final_approval');
+    return this.formatResponse(response, target.name);
+  }
+
+  /**
+   * Reject a step that the session's current state does not lead to
+   */
+  private invalidTransition(sessionId: string, fromState: SessionState, toState: SessionState, step: string, exampleCall: string) {
+    this.sessionManager.recordWorkflowEvent('state_transition_invalid', sessionId, { fromState, toState });
+    const sources = this.workflow.sourcesOf(toState).join(' or ');
+    return this.formatErrorResponse(
+      `Invalid state transition. Current state: ${fromState}. Expected: ${sources} → ${toState}`,
+      {
+        suggestedAction: `Call with sessionId="${sessionId}" and valid state transition`,
+        validNextSteps: [`${step} from ${sources} state`],
+        exampleCall
+      }
+    );
+  }
+
+  /**
+   * Move a session into `target` with `updates`, unless the content it would have fails the target's
+   * guards. Returns an error response when the session was left where it was.
+   */
+  private async applyTransition(sessionId: string, session: Session, target: SessionState, updates: Partial<Session>) {
+    const unmetGuards = this.workflow.unmetGuards(target, { ...session, ...updates });
+    if (unmetGuards.length > 0) {
+      this.sessionManager.recordWorkflowEvent('state_transition_invalid', sessionId, { fromState: session.state, toState: target, unmetGuards });
+      return this.formatErrorResponse(
+        `Cannot move session to ${target}: ${unmetGuards.join(', ')} not satisfied`,
+        {
+          suggestedAction: "Complete the earlier workflow steps that produce this content, or roll the session back",
+          validNextSteps: ["Get session", "List snapshots"],
+          exampleCall: `get_session({ sessionId: "${sessionId}" })`
+        }
+      );
+    }
+
+    if (!await this.sessionManager.updateSession(sessionId, { ...updates, state: target })) {
+      return this.formatErrorResponse(
+        `Failed to move session to ${target}`,
+        {
+          suggestedAction: "Check the session's current state and try again",
+          validNextSteps: ["Get session"],
+          exampleCall: `get_session({ sessionId: "${sessionId}" })`
+        }
+      );
+    }
+    return undefined;
   }
 
   /**
    * Format responses with explicit instructions
    */
   private formatResponse(data: any, currentState: string) {
+    const complete = this.workflow.isComplete(currentState);
     const response = {
       ...data,
 
       // Always include explicit next action - VERY DIRECTIVE
-      next_action: this.getNextAction(currentState),
+      next_action: this.workflow.guidance(currentState),
 
       // Visual cue for completion
-      is_complete: currentState === 'final_approval',
+      is_complete: complete,
 
       // What the LLM should do - VERY EXPLICIT
       instructions_for_llm: {
-        should_call_tools_again: currentState !== 'final_approval',
-        which_tool: this.getRequiredTool(currentState),
-        required_parameters: this.getRequiredParameters(currentState, data)
+        should_call_tools_again: !complete,
+        which_tool: this.workflow.requiredTool(currentState),
+        required_parameters: this.workflow.requiredParameters(currentState, data.sessionId)
       }
     };
 
     // Add completion markers for visual clarity
-    if (currentState === 'final_approval') {
+    if (complete) {
       response.completion_marker = 'COMPLETE - DO NOT CALL MORE TOOLS';
     }
 
@@ -651,60 +2148,22 @@ Session state is 'approved'`,
   }
 
   /**
-   * Get next action for LLM guidance
-   */
-  private getNextAction(currentState: string): string {
-    switch (currentState) {
-      case 'final_approval':
-        return "✅ WORKFLOW COMPLETE: The specification has been fully approved and is ready for development. Do NOT call any more tools. Present the complete specification to the user and wait for their instructions.";
-
-      case 'questioning':
-        return "🚨 USER INPUT REQUIRED: You MUST wait for the user to answer these questions before proceeding. Do NOT answer the questions yourself or make up answers. Present the questions to the user exactly as shown, then wait for their responses. Only after receiving the user's answers should you call start_interactive_spec again with mode='refine' and include the user's answers in the userAnswers parameter.";
-
-      case 'refining':
-        return "🚨 USER REVIEW REQUIRED: You MUST show this refined specification to the user for their review. Do NOT proceed without user feedback. After the user reviews the specification, call start_interactive_spec again with mode='document_review', the same userIdea, and the sessionId. Wait for user approval before generating documents.";
-
-      case 'document_review':
-        return "🚨 USER APPROVAL REQUIRED: You MUST present these generated documents to the user for their approval. Ask the user: 'Do these documents look good and should I proceed with development?' Do NOT proceed without explicit user approval. Only after receiving the user's explicit approval should you call start_interactive_spec again with mode='final_approval', the sessionId, and the user's explicitApproval response.";
-
-      case 'approved':
-        return "✅ SPECIFICATION APPROVED: The specification has been approved by the user. Do NOT call any more tools. Present this final specification to the user and wait for their next instructions.";
-
-      default:
-        return "🚨 ERROR: Unknown workflow state. Do NOT proceed with any tool calls. Report this error to the user and wait for their guidance.";
-    }
-  }
-
-  /**
-   * Get required tool for next action
+   * "STEP n - Title Mode: description" lines for the workflow's start_interactive_spec modes
    */
-  private getRequiredTool(currentState: string): string | null {
-    switch (currentState) {
-      case 'questioning':
-        return 'start_interactive_spec';
-      case 'refining':
-        return 'start_interactive_spec';
-      case 'document_review':
-        return 'start_interactive_spec';
-      default:
-        return null;
-    }
+  private describeSteps(): string {
+    return this.workflow.modes.map((mode, index) => {
+      const description = this.workflow.stateForMode(mode)?.description;
+      return `STEP ${index + 1} - ${titleCase(mode)} Mode${description ? `: ${description}` : ''}`;
+    }).join('\n');
   }
 
   /**
-   * Get required parameters for next action
+   * The guided next call from a state, e.g. `start_interactive_spec using mode="refine"`
    */
-  private getRequiredParameters(currentState: string, data: any): any {
-    switch (currentState) {
-      case 'questioning':
-        return { mode: 'refine', sessionId: data.sessionId };
-      case 'refining':
-        return { mode: 'document_review', sessionId: data.sessionId };
-      case 'document_review':
-        return { mode: 'final_approval', sessionId: data.sessionId, explicitApproval: '[user response]' };
-      default:
-        return null;
-    }
+  private describeNextCall(state: SessionState): string | undefined {
+    const tool = this.workflow.requiredTool(state);
+    const mode = this.workflow.requiredParameters(state, undefined)?.mode;
+    return tool ? `${tool}${mode ? ` using mode="${mode}"` : ''}` : undefined;
   }
 
   /**
@@ -724,69 +2183,79 @@ Session state is 'approved'`,
     };
   }
 
-  // Placeholder methods for the rest of the functionality
-  private analyzeProjectIdea(userIdea: string): any {
-    // Implementation from previous versions
-    return { platform: 'Python', buttonCount: '5+ programmable buttons', actions: 'workspace_switching', distributions: 'Ubuntu/Debian focused', projectType: 'mouse-button-mapper' };
+  /**
+   * What the matching question pack assumes about an idea
+   */
+  private analyzeProjectIdea(pack: QuestionPack): Record<string, string> {
+    return { ...pack.analysis, projectType: pack.id };
+  }
+
+  /**
+   * Question pack for an idea: the best match among the built-in and project packs
+   */
+  private questionPackFor(userIdea: string): QuestionPack {
+    return this.questionPacks.forIdea(userIdea, this.detectProjectType(userIdea));
+  }
+
+  /**
+   * Question pack a session was started with, or the one its idea matches now
+   */
+  private sessionQuestionPack(session: Session): QuestionPack {
+    return (session.questionPack ? this.questionPacks.get(session.questionPack) : undefined) ?? this.questionPackFor(session.userIdea);
+  }
+
+  /**
+   * Structured specification from the answers given so far and any revision requests, and the gaps
+   * the answers leave. Follow-ups that were never asked are listed in the specification as open questions.
+   */
+  private refineFromSession(
+    userIdea: string,
+    rounds: QuestionRound[],
+    answers: Record<string, string>,
+    revisionRequests: string[] = []
+  ): { spec: RefinedSpecification; gaps: QuestioningGaps } {
+    // A question asked again in a later round counts once
+    const asked = rounds.flatMap(round => round.questions)
+      .filter((question, index, all) => all.findIndex(other => other.id === question.id) === index);
+    const gaps = findQuestioningGaps(userIdea, refineSpecification(userIdea, asked, answers), answers, asked);
+    const pending = [...gaps.critical, ...gaps.optional].map(followUp => followUp.question)
+      .filter(question => !asked.some(other => other.id === question.id));
+    return { spec: withRevisionRequests(refineSpecification(userIdea, [...asked, ...pending], answers), revisionRequests), gaps };
+  }
+
+  /**
+   * Rounds of questions asked in a session; sessions from before rounds were recorded were asked the initial set
+   */
+  private questionRounds(session: Session): QuestionRound[] {
+    return session.questionRounds ?? [{ round: 1, askedAt: session.createdAt, questions: this.sessionQuestionPack(session).questions }];
   }
 
-  private createRefinedSpecification(userIdea: string): string {
-    return `**Project:** ${userIdea}
-**Objective:** Create a comprehensive solution that addresses the project requirements based on user specifications
-**Platform:** Platform to be determined based on project requirements
-**Target Users:** Primary user groups identified during requirements gathering
-**Key Features:**
-- Core functionality implementation
-- User interface and experience design
-- Data processing and storage
-- Integration with external systems (if applicable)
-- Configuration and customization options
-**Technical Requirements:**
-- Scalable and maintainable architecture
-- Performance optimization considerations
-- Security best practices implementation
-- Cross-platform compatibility (if applicable)
-**Success Criteria:**
-- Project objectives fully achieved
-- User requirements satisfied
-- Technical performance benchmarks met
-- Code quality and maintainability standards achieved
-- Successful deployment and operation`;
+  /**
+   * The user's revision requests so far, oldest first
+   */
+  private revisionRequests(session: Session): string[] {
+    return (session.revisions ?? []).map(revision => revision.request);
   }
 
-  private detectProjectType(userIdea: string, existingFiles?: string[]): string {
+  private detectProjectType(userIdea: string, existingFiles: string[] = this.projectMarkers()): string {
     // Check for existing project indicators only
-    if (existingFiles) {
-      if (existingFiles.includes('AGENTS.md') || existingFiles.includes('.spec/requirements.md')) {
-        return 'existing_enhancement';
-      }
-      if (existingFiles.includes('package.json') || existingFiles.includes('requirements.txt') || existingFiles.includes('pom.xml')) {
-        return 'existing_project';
-      }
+    if (ENHANCEMENT_MARKERS.some(marker => existingFiles.includes(marker))) {
+      return 'existing_enhancement';
+    }
+    if (EXISTING_PROJECT_MARKERS.some(marker => existingFiles.includes(marker))) {
+      return 'existing_project';
     }
     return 'new_project';
   }
 
-  private generateClarifyingQuestions(userIdea: string): string[] {
-    if (userIdea.toLowerCase().includes('mouse') && userIdea.toLowerCase().includes('button')) {
-      return [
-        'Platform preference: Python (recommended for Linux) or Electron?',
-        'Button support: How many programmable buttons should we support?',
-        'Actions: Which OS actions should buttons trigger?',
-        'Distribution: Focus on Ubuntu/Debian or cross-distribution compatibility?',
-        'Advanced features: Hot-plug detection, multiple mouse profiles, system tray integration?'
-      ];
-    }
-    return [
-      'Core functionality: What is the primary problem this project solves?',
-      'Target users: Who will use this application?',
-      'Key features: What are the essential features for the initial release?',
-      'Technical constraints: Any specific platforms, languages, or frameworks?',
-      'Success criteria: How will you measure the project\'s success?'
-    ];
+  /**
+   * Which of the project type markers exist in the project root
+   */
+  private projectMarkers(): string[] {
+    return [...ENHANCEMENT_MARKERS, ...EXISTING_PROJECT_MARKERS].filter(marker => existsSync(path.join(this.projectRoot, marker)));
   }
 
-  private generateSDDDocuments(refinedSpec: string, projectType: string): Array<{ title: string; content: string }> {
+  private generateSDDDocuments(refinedSpec: string, projectType: string, spec: RefinedSpecification): Array<{ title: string; content: string }> {
     const documents: Array<{ title: string; content: string }> = [];
 
     // Generate generic SDD documents based on project type
@@ -1010,7 +2479,50 @@ ${refinedSpec}
       });
     }
 
-    return documents;
+    // Carry the user's answers into the documents that act on them
+    const fromAnswers = this.answerSections(spec);
+    return documents.map(doc => fromAnswers[doc.title] ? { ...doc, content: `${doc.content}\n\n${fromAnswers[doc.title]}` } : doc);
+  }
+
+  /**
+   * Document sections built from the answered parts of the specification, keyed by document title
+   */
+  private answerSections(spec: RefinedSpecification): Record<string, string> {
+    const { objective, platform, targetUsers, keyFeatures, constraints, successCriteria } = spec.sections;
+    const list = (items: string[]) => items.map(item => `- ${item}`).join('\n');
+    const requirements: string[] = [];
+    const design: string[] = [];
+    const tasks: string[] = [];
+
+    if (objective.length > 0) {
+      requirements.push(`### Objective\n${objective.join('\n')}`);
+    }
+    if (targetUsers.length > 0) {
+      requirements.push(`### Target Users\n${list(targetUsers)}`);
+    }
+    if (keyFeatures.length > 0) {
+      requirements.push(`### Feature Requirements\n${keyFeatures.map((feature, index) => `- FR-${index + 1}: ${feature}`).join('\n')}`);
+      tasks.push(`### Features\n${keyFeatures.map((feature, index) => `- [ ] Implement FR-${index + 1}: ${feature}`).join('\n')}`);
+    }
+    if (successCriteria.length > 0) {
+      requirements.push(`### Acceptance Criteria\n${list(successCriteria)}`);
+      tasks.push(`### Acceptance\n${successCriteria.map(criterion => `- [ ] Verify: ${criterion}`).join('\n')}`);
+    }
+    if (spec.unansweredQuestions.length > 0) {
+      requirements.push(`### Open Questions\n${list(spec.unansweredQuestions.map(questionText))}`);
+    }
+    if (platform.length > 0) {
+      design.push(`### Platform\n${list(platform)}`);
+    }
+    if (constraints.length > 0) {
+      design.push(`### Constraints\n${list(constraints)}`);
+    }
+
+    const section = (parts: string[]) => parts.length > 0 ? `## From Your Answers\n\n${parts.join('\n\n')}` : undefined;
+    return Object.fromEntries(
+      [['requirements.md', section(requirements)], ['design.md', section(design)], ['tasks.md', section(tasks)]]
+        .filter((entry): entry is [string, string] => entry[1] !== undefined)
+    );
   }
 
   private generateTestSpecifications(projectType: string): any {
@@ -1121,58 +2633,24 @@ ${refinedSpec}
   }
 
   /**
-   * Generate development plan for a project
+   * Development plan from the session's question pack
    */
-  private generateDevelopmentPlan(userIdea: string): {
+  private generateDevelopmentPlan(session: Session): {
     implementationSteps: string[];
     milestones: string[];
     estimatedTimeline: string;
   } {
-    if (userIdea.toLowerCase().includes('mouse') && userIdea.toLowerCase().includes('button')) {
-      return {
-        implementationSteps: [
-          'Set up project structure and dependencies',
-          'Implement mouse event detection layer',
-          'Create configuration system for button mappings',
-          'Build system tray interface',
-          'Implement multiple mouse profile support',
-          'Add hot-plug detection',
-          'Create documentation and user guides'
-        ],
-        milestones: [
-          'Core infrastructure setup',
-          'Mouse event detection working',
-          'Configuration system functional',
-          'UI integration complete',
-          'Multi-mouse support implemented',
-          'Testing and bug fixes',
-          'Documentation and release'
-        ],
-        estimatedTimeline: '6-8 weeks'
-      };
-    }
+    return this.sessionQuestionPack(session).developmentPlan ?? GENERAL_PACK.developmentPlan!;
+  }
 
-    return {
-      implementationSteps: [
-        'Set up project structure and development environment',
-        'Implement core functionality and APIs',
-        'Create user interface and user experience',
-        'Add configuration and customization options',
-        'Implement testing and quality assurance',
-        'Documentation and user guides',
-        'Deployment and release preparation'
-      ],
-      milestones: [
-        'Project setup complete',
-        'Core features implemented',
-        'UI/UX integration',
-        'Configuration system ready',
-        'Testing phase',
-        'Documentation complete',
-        'Final release'
-      ],
-      estimatedTimeline: '4-6 weeks'
-    };
+  /**
+   * Flush changed sessions to the store before the process exits
+   */
+  public shutdown(): Promise<void> {
+    this.shutdownPromise ??= this.sessionManager.close()
+      .catch(error => log.error('shutdown_flush_failed', { error: error instanceof Error ? error.message : 'Unknown error' }))
+      .finally(() => process.exit(0));
+    return this.shutdownPromise;
   }
 
   /**
@@ -1181,16 +2659,34 @@ ${refinedSpec}
   public async start(): Promise<void> {
     try {
       const transport = new StdioServerTransport();
+      transport.onclose = () => void this.shutdown();
       await this.server.connect(transport);
-      console.log('KAT-PLANNER Production MCP server started successfully!');
-      console.log(`Session storage: ${this.sessionManager}`);
+      process.once('SIGINT', () => void this.shutdown());
+      process.once('SIGTERM', () => void this.shutdown());
+      // The stdio transport does not close when the client closes our stdin, so watch for EOF too
+      process.stdin.once('end', () => void this.shutdown());
+      log.info('server_started', { storage: this.sessionManager.describeStorage() });
     } catch (error) {
-      console.error('Failed to start MCP server:', error);
+      log.error('server_start_failed', { error });
       throw error;
     }
   }
 }
 
+/**
+ * "document_review" → "Document Review"
+ */
+function titleCase(name: string): string {
+  return name.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+}
+
+/**
+ * Numbered question list with each question's id and the kind of answer it takes
+ */
+function listQuestions(questions: ClarifyingQuestion[]): string {
+  return questions.map((question, index) => describeQuestion(question, index + 1)).join('\n');
+}
+
 /**
  * Main entry point
  */
@@ -1201,5 +2697,8 @@ export async function main(): Promise<void> {
 
 // Start the server if this file is run directly
 if (require.main === module) {
-  main().catch(console.error);
-}
\ No newline at end of file
+  main().catch(error => {
+    log.error('server_exited', { error });
+    process.exit(1);
+  });
+}
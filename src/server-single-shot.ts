@@ -1,6 +1,9 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { z } from 'zod';
+import { createLogger } from './logger.js';
+
+const log = createLogger('server-single-shot');
 
 /**
  * KAT-PLANNER MCP Server - Single Shot Implementation
@@ -326,9 +329,9 @@ export class KatPlannerServer {
     try {
       const transport = new StdioServerTransport();
       await this.server.connect(transport);
-      console.log('KAT-PLANNER Single Shot MCP server started successfully!');
+      log.info('server_started', { server: 'single-shot' });
     } catch (error) {
-      console.error('Failed to start MCP server:', error);
+      log.error('server_start_failed', { error });
       throw error;
     }
   }
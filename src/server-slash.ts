@@ -1,8 +1,11 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { z } from 'zod';
+import { createLogger } from './logger.js';
 import { slashCommandsResource } from './slash-commands-resource.js';
 
+const log = createLogger('server-slash');
+
 /**
  * KAT-PLANNER MCP Server with Slash Commands
  * Implements project planning through structured slash commands
@@ -14,7 +17,7 @@ export class KatPlannerSlashServer {
   });
 
   constructor() {
-    console.log('KatPlannerSlashServer instance created');
+    log.debug('slash_server_created');
     this.registerResources();
     this.registerTools();
   }
@@ -188,11 +191,12 @@ export class KatPlannerSlashServer {
       const transport = new StdioServerTransport();
       await this.server.connect(transport);
 
-      console.log('KAT-PLANNER Slash Commands MCP server started successfully!');
-      console.log('Available resources: slash_commands_help, workflow_guidance');
-      console.log('Available tools: health_check, validate_workflow');
+      log.info('server_started', {
+        resources: ['slash_commands_help', 'workflow_guidance'],
+        tools: ['health_check', 'validate_workflow']
+      });
     } catch (error) {
-      console.error('Failed to start MCP server:', error);
+      log.error('server_start_failed', { error });
       throw error;
     }
   }
@@ -208,5 +212,5 @@ export async function main(): Promise<void> {
 
 // Start the server if this file is run directly
 if (require.main === module) {
-  main().catch(console.error);
+  main().catch(error => log.error('server_exited', { error }));
 }
\ No newline at end of file
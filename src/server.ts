@@ -1,6 +1,9 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { z } from 'zod';
+import { createLogger } from './logger.js';
+
+const log = createLogger('server');
 
 /**
  * KAT-PLANNER MCP Server
@@ -421,10 +424,9 @@ I need to clarify your project requirements. Please provide more details about:
       const transport = new StdioServerTransport();
       await this.server.connect(transport);
 
-      console.log('KAT-PLANNER MCP server started successfully!');
-      console.log('Enhanced workflow enforcement active.');
+      log.info('server_started', { workflowEnforcement: 'enhanced' });
     } catch (error) {
-      console.error('Failed to start MCP server:', error);
+      log.error('server_start_failed', { error });
       throw error;
     }
   }
@@ -0,0 +1,149 @@
+import { createHash } from 'crypto';
+import { z } from 'zod';
+import { parseSessionRecord } from './session-migrations.js';
+import { Session, SessionState } from './session-schema.js';
+import type { Workflow } from './workflow.js';
+
+/**
+ * Identifies a JSON document as a kat-planner session bundle
+ */
+export const SESSION_BUNDLE_FORMAT = 'kat-planner-session-bundle';
+
+/**
+ * Version of the bundle envelope, independent of the session schema version it carries
+ */
+export const SESSION_BUNDLE_VERSION = 1;
+
+/**
+ * Portable copy of a session for moving it between machines and teammates.
+ * Owner, snapshots, rollbacks and archive details stay with the source installation.
+ */
+export interface SessionBundle {
+  format: typeof SESSION_BUNDLE_FORMAT;
+  bundleVersion: typeof SESSION_BUNDLE_VERSION;
+  schemaVersion: number;
+  exportedAt: string;
+  session: Record<string, unknown>;
+  checksums: {
+    algorithm: 'sha256';
+    session: string;
+    documents: Record<string, string>; // Document title -> checksum of its content
+  };
+}
+
+const bundleEnvelopeSchema = z.object({
+  format: z.literal(SESSION_BUNDLE_FORMAT),
+  bundleVersion: z.literal(SESSION_BUNDLE_VERSION),
+  schemaVersion: z.number().int(),
+  exportedAt: z.string(),
+  session: z.record(z.unknown()),
+  checksums: z.object({
+    algorithm: z.literal('sha256'),
+    session: z.string(),
+    documents: z.record(z.string())
+  })
+});
+
+/**
+ * Outcome of reading a bundle: the validated session, or why it was rejected
+ */
+export type SessionBundleReadResult =
+  | { ok: true; session: Session; declaredState: SessionState }
+  | { ok: false; error: string };
+
+/**
+ * Package a session into a self-describing, checksummed bundle
+ */
+export function createSessionBundle(session: Session): SessionBundle {
+  const { owner, snapshots, rollbacks, archivedAt, archiveReason, ...portable } = session;
+  const payload = JSON.parse(JSON.stringify(portable)) as Record<string, unknown>;
+
+  return {
+    format: SESSION_BUNDLE_FORMAT,
+    bundleVersion: SESSION_BUNDLE_VERSION,
+    schemaVersion: session.schemaVersion,
+    exportedAt: new Date().toISOString(),
+    session: payload,
+    checksums: {
+      algorithm: 'sha256',
+      session: sha256(canonicalJson(payload)),
+      documents: Object.fromEntries((session.generatedDocuments ?? []).map(doc => [doc.title, sha256(doc.content)]))
+    }
+  };
+}
+
+/**
+ * Validate a bundle's envelope and checksums, then migrate and validate the session it carries.
+ * The session's state is stepped back if the bundle lacks the content that state's guards require.
+ */
+export function readSessionBundle(input: unknown, workflow: Workflow): SessionBundleReadResult {
+  const envelope = bundleEnvelopeSchema.safeParse(input);
+  if (!envelope.success) {
+    const issue = envelope.error.issues[0];
+    return { ok: false, error: `Not a valid session bundle (${issue ? `${issue.path.join('.') || 'bundle'}: ${issue.message}` : 'unknown format'})` };
+  }
+
+  const bundle = envelope.data;
+  if (bundle.session.schemaVersion !== bundle.schemaVersion) {
+    return { ok: false, error: 'Bundle schemaVersion does not match the session it carries' };
+  }
+  if (sha256(canonicalJson(bundle.session)) !== bundle.checksums.session) {
+    return { ok: false, error: 'Session checksum mismatch; the bundle was modified or truncated' };
+  }
+
+  const parsed = parseSessionRecord(bundle.session);
+  if (!parsed.ok) {
+    return { ok: false, error: `Bundle contains an invalid session (${parsed.error})` };
+  }
+
+  const documents = parsed.session.generatedDocuments ?? [];
+  for (const doc of documents) {
+    if (bundle.checksums.documents[doc.title] !== sha256(doc.content)) {
+      return { ok: false, error: `Checksum mismatch for document "${doc.title}"` };
+    }
+  }
+
+  const declaredState = parsed.session.state;
+  if (!workflow.has(declaredState)) {
+    return { ok: false, error: `Bundle session is in state "${declaredState}", which workflow "${workflow.name}" does not define` };
+  }
+  return {
+    ok: true,
+    session: { ...parsed.session, state: supportedState(parsed.session, workflow) },
+    declaredState
+  };
+}
+
+/**
+ * Latest workflow state, up to the session's own, whose guards the session's content meets
+ */
+function supportedState(session: Session, workflow: Workflow): SessionState {
+  const states = workflow.states;
+  let state: SessionState = workflow.initialState;
+  for (const candidate of states.slice(0, states.indexOf(session.state) + 1)) {
+    if (workflow.unmetGuards(candidate, session).length === 0) {
+      state = candidate;
+    }
+  }
+  return state;
+}
+
+/**
+ * JSON with object keys sorted, so checksums do not depend on key order
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function sha256(data: string): string {
+  return createHash('sha256').update(data, 'utf-8').digest('hex');
+}
@@ -0,0 +1,169 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import * as fs from 'fs';
+
+/**
+ * Where the encryption keys come from. The first key encrypts; all keys are tried for decryption,
+ * so data written with a previous key stays readable until it is re-encrypted.
+ */
+export interface EncryptionConfig {
+  key?: string;           // Base64 or hex encoded 32-byte key
+  keyFile?: string;       // One key per line, current key first
+  previousKeys?: string[];
+}
+
+/**
+ * A value encrypted with AES-256-GCM, as written to disk in place of the plaintext record
+ */
+export interface EncryptedPayload {
+  encrypted: 'aes-256-gcm';
+  keyId: string; // Fingerprint of the key that encrypted it
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/**
+ * Raised when stored data cannot be decrypted with the configured keys. Callers must not treat the
+ * data as corrupt: discarding or overwriting it would destroy sessions that the right key can read.
+ */
+export class SessionKeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionKeyError';
+  }
+}
+
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+
+/**
+ * Authenticated encryption of session records with key rotation support
+ */
+export class SessionCipher {
+  private readonly keys: Array<{ id: string; key: Buffer }>;
+
+  constructor(keys: Buffer[]) {
+    if (keys.length === 0) {
+      throw new Error('SessionCipher needs at least one key');
+    }
+    this.keys = keys.map(key => ({ id: keyFingerprint(key), key }));
+  }
+
+  /**
+   * Fingerprint of the key new data is encrypted with
+   */
+  get keyId(): string {
+    return this.keys[0]!.id;
+  }
+
+  encrypt(value: unknown): EncryptedPayload {
+    const { id, key } = this.keys[0]!;
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv('aes-256-gcm', key, iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(value), 'utf-8'), cipher.final()]);
+
+    return {
+      encrypted: 'aes-256-gcm',
+      keyId: id,
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64')
+    };
+  }
+
+  decrypt(payload: EncryptedPayload): unknown {
+    const entry = this.keys.find(candidate => candidate.id === payload.keyId);
+    if (!entry) {
+      throw new SessionKeyError(
+        `Session data is encrypted with key ${payload.keyId}, which is not among the configured keys (${this.keys.map(k => k.id).join(', ')}). ` +
+        'Configure that key, or list it in KAT_PLANNER_PREVIOUS_ENCRYPTION_KEYS if it was rotated out.'
+      );
+    }
+
+    try {
+      const decipher = createDecipheriv('aes-256-gcm', entry.key, Buffer.from(payload.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(payload.tag, 'base64'));
+      const data = Buffer.concat([decipher.update(Buffer.from(payload.data, 'base64')), decipher.final()]);
+      return JSON.parse(data.toString('utf-8'));
+    } catch {
+      throw new SessionKeyError(`Session data encrypted with key ${payload.keyId} failed authentication; it was modified or is damaged`);
+    }
+  }
+
+  /**
+   * Whether a payload was encrypted with the current key
+   */
+  isCurrent(payload: EncryptedPayload): boolean {
+    return payload.keyId === this.keyId;
+  }
+}
+
+export function isEncryptedPayload(value: unknown): value is EncryptedPayload {
+  return !!value && typeof value === 'object' && (value as EncryptedPayload).encrypted === 'aes-256-gcm';
+}
+
+/**
+ * Prepare a record for disk: encrypted when a cipher is configured, as-is otherwise
+ */
+export function encodeRecord(value: unknown, cipher: SessionCipher | undefined): unknown {
+  return cipher ? cipher.encrypt(value) : value;
+}
+
+/**
+ * Read a record from disk. `stale` is set when it should be written again: plaintext while
+ * encryption is on, or encrypted with a previous key.
+ */
+export function decodeRecord(raw: unknown, cipher: SessionCipher | undefined): { value: unknown; stale: boolean } {
+  if (!isEncryptedPayload(raw)) {
+    return { value: raw, stale: cipher !== undefined };
+  }
+  if (!cipher) {
+    throw new SessionKeyError(
+      'Session data is encrypted but no encryption key is configured. Set KAT_PLANNER_ENCRYPTION_KEY or KAT_PLANNER_ENCRYPTION_KEY_FILE.'
+    );
+  }
+  return { value: cipher.decrypt(raw), stale: !cipher.isCurrent(raw) };
+}
+
+/**
+ * Build the cipher for the configured keys, or undefined when encryption is off
+ */
+export function createSessionCipher(config: EncryptionConfig | undefined): SessionCipher | undefined {
+  if (!config || (!config.key && !config.keyFile)) {
+    return undefined;
+  }
+
+  const keys: Buffer[] = [];
+  if (config.key) {
+    keys.push(parseKey(config.key, 'KAT_PLANNER_ENCRYPTION_KEY'));
+  }
+  if (config.keyFile) {
+    let data: string;
+    try {
+      data = fs.readFileSync(config.keyFile, 'utf-8');
+    } catch (err) {
+      throw new Error(`Cannot read encryption key file ${config.keyFile}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+    const lines = data.split('\n').map(line => line.trim()).filter(line => line && !line.startsWith('#'));
+    if (lines.length === 0) {
+      throw new Error(`Encryption key file ${config.keyFile} contains no keys`);
+    }
+    keys.push(...lines.map(line => parseKey(line, config.keyFile!)));
+  }
+  keys.push(...(config.previousKeys ?? []).map(key => parseKey(key, 'KAT_PLANNER_PREVIOUS_ENCRYPTION_KEYS')));
+
+  return new SessionCipher(keys);
+}
+
+function parseKey(text: string, source: string): Buffer {
+  const value = text.trim();
+  const key = /^[0-9a-fA-F]{64}$/.test(value) ? Buffer.from(value, 'hex') : Buffer.from(value, 'base64');
+  if (key.length !== KEY_BYTES) {
+    throw new Error(`Invalid encryption key in ${source}: expected ${KEY_BYTES} bytes encoded as base64 or hex (generate one with "openssl rand -base64 32")`);
+  }
+  return key;
+}
+
+function keyFingerprint(key: Buffer): string {
+  return createHash('sha256').update(key).digest('hex').slice(0, 12);
+}
@@ -0,0 +1,361 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { writeFileAtomic } from './file-lock.js';
+import { projectStateDir } from './project-root.js';
+import { decodeRecord, encodeRecord, SessionCipher } from './session-crypto.js';
+import { parseSessionRecord } from './session-migrations.js';
+import { MAX_SESSION_SNAPSHOTS, Session, SessionRollback, SessionSnapshot } from './session-schema.js';
+
+/**
+ * Kinds of events recorded in a session journal
+ */
+export type JournalEventType =
+  | 'session_created'
+  | 'answers_recorded'
+  | 'state_transition'
+  | 'documents_generated'
+  | 'approval_recorded'
+  | 'revision_recorded'
+  | 'session_updated'
+  | 'session_removed'
+  | 'session_archived'
+  | 'session_restored'
+  | 'snapshot_taken'
+  | 'session_rolled_back'
+  | 'approval_rejected'
+  | 'state_transition_invalid';
+
+/**
+ * One line of a session's JSONL journal. `changes` holds the session fields the event set,
+ * so replaying events in order rebuilds the session.
+ */
+export interface JournalEvent {
+  timestamp: string;
+  sessionId: string;
+  type: JournalEventType;
+  changes?: Partial<Session>;
+  fromState?: Session['state'];
+  toState?: Session['state'];
+  reason?: string;
+  snapshot?: SessionSnapshot;
+  rollback?: SessionRollback;
+  details?: Record<string, unknown>; // Of a refused approval or transition, which changes nothing
+}
+
+// Which event type records a change to each session field; anything else is a plain update
+const FIELD_EVENT_TYPES: Partial<Record<keyof Session, JournalEventType>> = {
+  answers: 'answers_recorded',
+  questionRounds: 'answers_recorded',
+  refinedSpecification: 'documents_generated',
+  generatedDocuments: 'documents_generated',
+  projectType: 'documents_generated',
+  approvalStatus: 'approval_recorded',
+  documentReviews: 'approval_recorded',
+  revisions: 'revision_recorded'
+};
+
+/**
+ * Default journal directory, next to the session store for the same scope
+ */
+export function defaultJournalPath(projectRoot?: string): string {
+  return projectRoot
+    ? path.join(projectStateDir(projectRoot), 'journal')
+    : path.join(os.homedir(), '.kat-planner-journal');
+}
+
+/**
+ * Append-only, per-session JSONL journal of everything that happened to a session
+ */
+export class SessionJournal {
+  // Appends are queued so events land in the order they were recorded
+  private appendQueue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly directory: string,
+    private readonly cipher?: SessionCipher
+  ) {}
+
+  get location(): string {
+    return this.directory;
+  }
+
+  /**
+   * Record the creation of a session with its initial fields; `origin` says how it came to be
+   */
+  recordCreated(session: Session, origin: 'new' | 'forked' | 'imported' = 'new'): Promise<void> {
+    return this.append([{
+      timestamp: new Date(session.createdAt).toISOString(),
+      sessionId: session.sessionId,
+      type: 'session_created',
+      reason: origin,
+      changes: { ...session }
+    }]);
+  }
+
+  /**
+   * Record an applied update, split into one event per kind of change
+   */
+  recordUpdate(previous: Session, updates: Partial<Session>): Promise<void> {
+    const timestamp = new Date().toISOString();
+    const grouped = new Map<JournalEventType, Partial<Session>>();
+
+    for (const [field, value] of Object.entries(updates) as Array<[keyof Session, unknown]>) {
+      if (field === 'state' || field === 'lastActivity' || field === 'snapshots' || field === 'rollbacks' || field === 'schemaVersion') {
+        continue; // State has its own event; history fields are journaled as snapshot/rollback events
+      }
+      const type = FIELD_EVENT_TYPES[field] ?? 'session_updated';
+      grouped.set(type, { ...grouped.get(type), [field]: value });
+    }
+
+    const events: JournalEvent[] = Array.from(grouped.entries()).map(([type, changes]) => ({
+      timestamp,
+      sessionId: previous.sessionId,
+      type,
+      changes
+    }));
+
+    if (updates.state && updates.state !== previous.state) {
+      events.push({
+        timestamp,
+        sessionId: previous.sessionId,
+        type: 'state_transition',
+        fromState: previous.state,
+        toState: updates.state,
+        changes: { state: updates.state }
+      });
+    }
+
+    return this.append(events);
+  }
+
+  /**
+   * Record that a session was removed from the active store
+   */
+  recordRemoved(sessionId: string, reason: string): Promise<void> {
+    return this.append([{
+      timestamp: new Date().toISOString(),
+      sessionId,
+      type: 'session_removed',
+      reason
+    }]);
+  }
+
+  /**
+   * Record that a session was moved to the archive
+   */
+  recordArchived(sessionId: string, reason: string): Promise<void> {
+    return this.append([{
+      timestamp: new Date().toISOString(),
+      sessionId,
+      type: 'session_archived',
+      reason
+    }]);
+  }
+
+  /**
+   * Record that an archived session was brought back to active state
+   */
+  recordRestored(sessionId: string): Promise<void> {
+    return this.append([{
+      timestamp: new Date().toISOString(),
+      sessionId,
+      type: 'session_restored'
+    }]);
+  }
+
+  /**
+   * Record a snapshot taken before a state transition
+   */
+  recordSnapshot(sessionId: string, snapshot: SessionSnapshot): Promise<void> {
+    return this.append([{
+      timestamp: new Date(snapshot.takenAt).toISOString(),
+      sessionId,
+      type: 'snapshot_taken',
+      snapshot
+    }]);
+  }
+
+  /**
+   * Record a rollback; `changes` is the complete workflow content the session was reset to
+   */
+  recordRollback(sessionId: string, rollback: SessionRollback, changes: Partial<Session>): Promise<void> {
+    return this.append([{
+      timestamp: new Date(rollback.rolledBackAt).toISOString(),
+      sessionId,
+      type: 'session_rolled_back',
+      fromState: rollback.fromState,
+      toState: rollback.toState,
+      reason: rollback.reason,
+      rollback,
+      changes
+    }]);
+  }
+
+  /**
+   * Record a refused approval or state transition, so metrics can be rebuilt from the journal
+   */
+  recordRefusal(sessionId: string, type: 'approval_rejected' | 'state_transition_invalid', details: Record<string, unknown>): Promise<void> {
+    return this.append([{
+      timestamp: new Date().toISOString(),
+      sessionId,
+      type,
+      details
+    }]);
+  }
+
+  /**
+   * Read a session's events in order. Unparseable lines (e.g. a torn final write) are skipped;
+   * lines that cannot be decrypted with the configured keys raise SessionKeyError.
+   */
+  async read(sessionId: string): Promise<JournalEvent[]> {
+    return (await this.readLines(sessionId)).map(line => line.event);
+  }
+
+  /**
+   * Rewrite every journal with the current encryption key (or as plaintext when encryption is off).
+   * Run while no server is appending to the journals.
+   */
+  async reencrypt(): Promise<number> {
+    let rewritten = 0;
+    for (const sessionId of await this.list()) {
+      const lines = await this.readLines(sessionId);
+      if (lines.some(line => line.stale)) {
+        await this.flush();
+        const data = lines.map(line => JSON.stringify(encodeRecord(line.event, this.cipher)) + '\n').join('');
+        await writeFileAtomic(this.journalPath(sessionId), data);
+        rewritten++;
+      }
+    }
+    return rewritten;
+  }
+
+  private async readLines(sessionId: string): Promise<Array<{ event: JournalEvent; stale: boolean }>> {
+    let data: string;
+    try {
+      data = await fs.readFile(this.journalPath(sessionId), 'utf-8');
+    } catch (err) {
+      if (err && typeof err === 'object' && 'code' in err && err.code === 'ENOENT') {
+        return [];
+      }
+      throw err;
+    }
+
+    const lines: Array<{ event: JournalEvent; stale: boolean }> = [];
+    for (const line of data.split('\n')) {
+      if (!line.trim()) continue;
+      let raw: unknown;
+      try {
+        raw = JSON.parse(line);
+      } catch {
+        continue; // Skip the damaged line and keep replaying the rest
+      }
+      const { value, stale } = decodeRecord(raw, this.cipher);
+      lines.push({ event: value as JournalEvent, stale });
+    }
+    return lines;
+  }
+
+  /**
+   * Session IDs that have a journal
+   */
+  async list(): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(this.directory);
+      return entries
+        .filter(name => name.endsWith('.jsonl'))
+        .map(name => name.slice(0, -'.jsonl'.length));
+    } catch (err) {
+      if (err && typeof err === 'object' && 'code' in err && err.code === 'ENOENT') {
+        return [];
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Rebuild a session from its journal
+   */
+  async replay(sessionId: string): Promise<Session | undefined> {
+    return replaySession(await this.read(sessionId));
+  }
+
+  /**
+   * Wait for queued appends to reach disk
+   */
+  async flush(): Promise<void> {
+    await this.appendQueue;
+  }
+
+  private append(events: JournalEvent[]): Promise<void> {
+    const first = events[0];
+    if (!first) {
+      return this.appendQueue;
+    }
+
+    const lines = events.map(event => JSON.stringify(encodeRecord(event, this.cipher)) + '\n').join('');
+    const write = this.appendQueue.then(async () => {
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.appendFile(this.journalPath(first.sessionId), lines);
+    });
+    // A failed append is reported to its caller but must not block later ones
+    this.appendQueue = write.catch(() => undefined);
+    return write;
+  }
+
+  private journalPath(sessionId: string): string {
+    if (!/^[A-Za-z0-9_-]+$/.test(sessionId)) {
+      throw new Error(`Invalid session ID for journal: ${sessionId}`);
+    }
+    return path.join(this.directory, `${sessionId}.jsonl`);
+  }
+}
+
+/**
+ * Apply journal events in order, then migrate the result to the current schema. Returns undefined
+ * if the journal has no creation event, ends with the session removed or archived, or does not
+ * produce a valid session.
+ */
+export function replaySession(events: JournalEvent[]): Session | undefined {
+  let session: Session | undefined;
+  let archived = false;
+
+  for (const event of events) {
+    if (event.type === 'session_created') {
+      session = { ...(event.changes as Session) };
+      archived = false;
+    } else if (event.type === 'session_removed') {
+      session = undefined;
+    } else if (event.type === 'approval_rejected' || event.type === 'state_transition_invalid') {
+      continue; // Refusals leave the session as it was
+    } else if (event.type === 'session_archived' || event.type === 'session_restored') {
+      archived = event.type === 'session_archived';
+    } else if (session && event.type === 'snapshot_taken' && event.snapshot) {
+      session.snapshots = [...(session.snapshots ?? []), event.snapshot].slice(-MAX_SESSION_SNAPSHOTS);
+    } else if (session && event.type === 'session_rolled_back') {
+      // A rollback replaces the workflow content wholesale, including fields the snapshot lacked
+      const { schemaVersion, sessionId, owner, label, forkedFrom, createdAt, lastActivity, snapshots, rollbacks } = session;
+      session = {
+        ...(event.changes as Session),
+        schemaVersion,
+        sessionId,
+        owner,
+        label,
+        forkedFrom,
+        createdAt,
+        lastActivity: Math.max(lastActivity, Date.parse(event.timestamp) || 0),
+        snapshots,
+        rollbacks: event.rollback ? [...(rollbacks ?? []), event.rollback] : rollbacks
+      };
+    } else if (session) {
+      Object.assign(session, event.changes);
+      session.lastActivity = Math.max(session.lastActivity, Date.parse(event.timestamp) || 0);
+    }
+  }
+
+  if (!session || archived) {
+    return undefined;
+  }
+  const parsed = parseSessionRecord(session);
+  return parsed.ok ? parsed.session : undefined;
+}
@@ -0,0 +1,46 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Async mutex per session ID.
+ *
+ * Callers queue in arrival order. The lock is re-entrant within one async call chain,
+ * so a tool handler holding a session's lock can still call manager methods that take it.
+ */
+export class SessionLocks {
+  private tails = new Map<string, Promise<void>>();
+  private held = new AsyncLocalStorage<ReadonlySet<string>>();
+
+  /**
+   * Run `operation` while holding the lock for `sessionId`
+   */
+  async run<T>(sessionId: string, operation: () => Promise<T>): Promise<T> {
+    const heldHere = this.held.getStore();
+    if (heldHere?.has(sessionId)) {
+      return operation();
+    }
+
+    const previous = this.tails.get(sessionId) ?? Promise.resolve();
+    let release!: () => void;
+    const current = new Promise<void>(resolve => { release = resolve; });
+    const tail = previous.then(() => current);
+    this.tails.set(sessionId, tail);
+
+    await previous;
+    try {
+      return await this.held.run(new Set([...(heldHere ?? []), sessionId]), operation);
+    } finally {
+      release();
+      // Drop the entry once nobody is queued behind us, so the map does not grow with every session
+      if (this.tails.get(sessionId) === tail) {
+        this.tails.delete(sessionId);
+      }
+    }
+  }
+
+  /**
+   * Whether any caller holds or is waiting for the session's lock
+   */
+  isLocked(sessionId: string): boolean {
+    return this.tails.has(sessionId);
+  }
+}
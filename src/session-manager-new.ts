@@ -1,6 +1,9 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
+import { createLogger } from './logger.js';
+
+const log = createLogger('session-manager');
 
 /**
  * Session interface for KAT-PLANNER MCP server
@@ -231,12 +234,10 @@ export class ProductionSessionManager {
         this.logSessionEvent('save_failed', 'system', {
           error: err.message
         });
-        console.error('Failed to save sessions:', err);
       } else {
         this.logSessionEvent('save_failed', 'system', {
           error: 'Unknown error'
         });
-        console.error('Failed to save sessions:', err);
       }
     }
   }
@@ -293,26 +294,21 @@ export class ProductionSessionManager {
         invalidSessions,
         expiredSessions: expired
       });
-
-      console.log(`Loaded ${this.sessions.size} sessions (cleaned ${invalidSessions} invalid, ${expired} expired)`);
     } catch (err) {
       if (err && typeof err === 'object' && 'code' in err) {
         if (err.code === 'ENOENT') {
           this.logSessionEvent('no_sessions_file', 'system', {
             reason: 'file_not_found'
           });
-          console.log('No previous sessions found');
         } else {
           this.logSessionEvent('load_failed', 'system', {
             error: err instanceof Error ? err.message : 'Unknown error'
           });
-          console.error('Failed to load sessions, starting fresh:', err);
         }
       } else {
         this.logSessionEvent('load_failed', 'system', {
           error: 'Unknown error'
         });
-        console.error('Failed to load sessions, starting fresh:', err);
       }
       this.sessions = new Map();
     }
@@ -342,14 +338,7 @@ export class ProductionSessionManager {
    * Comprehensive logging for debugging and monitoring
    */
   private logSessionEvent(event: string, sessionId: string, details?: any): void {
-    const logEntry = {
-      timestamp: new Date().toISOString(),
-      event,
-      sessionId,
-      ...details
-    };
-
-    console.error(JSON.stringify(logEntry));
+    log.log(event.endsWith('_failed') ? 'error' : 'info', event, { sessionId, ...details });
   }
 
   /**
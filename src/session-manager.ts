@@ -1,59 +1,174 @@
-import * as fs from 'fs/promises';
+import { AsyncLocalStorage } from 'async_hooks';
 import * as path from 'path';
-import * as os from 'os';
+import { KatPlannerConfig, loadConfig } from './config.js';
+import { createLogger, LogLevel } from './logger.js';
+import { resolveProjectRoot } from './project-root.js';
+import { createSessionCipher, SessionCipher, SessionKeyError } from './session-crypto.js';
+import { defaultJournalPath, JournalEvent, SessionJournal } from './session-journal.js';
+import { SessionLocks } from './session-lock.js';
+import { CURRENT_SESSION_SCHEMA_VERSION, DEFAULT_SESSION_OWNER, MAX_SESSION_SNAPSHOTS, Session, sessionOwner, SessionRollback, SessionState, SessionSnapshot, toSnapshotData } from './session-schema.js';
+import { createArchiveStore, createSessionStore, defaultArchivePath, defaultStorePath, importJsonFileStore, SessionLoadResult, SessionRef, SessionStore } from './stores/index.js';
+import { Workflow } from './workflow.js';
+
+export type { Session } from './session-schema.js';
+
+// A steady stream of changes delays the flush by at most this many flush delays
+const MAX_FLUSH_DELAY_FACTOR = 5;
+
+const log = createLogger('session-manager');
+
+// Session events logged at a level other than info; any other `*_failed` event is an error
+const EVENT_LOG_LEVELS: Record<string, LogLevel> = {
+  session_accessed: 'debug',
+  sessions_flushed: 'debug',
+  sessions_saved: 'debug',
+  session_not_found: 'notice',
+  session_limit_reached: 'warning',
+  session_creation_failed: 'warning',
+  session_update_failed: 'warning',
+  state_transition_invalid: 'warning',
+  rollback_rejected: 'warning',
+  cross_namespace_access_rejected: 'warning',
+  admin_view_rejected: 'warning',
+  invalid_session_skipped: 'warning',
+  approval_rejected: 'notice',
+  corrupt_session_file_preserved: 'warning'
+};
+
+/**
+ * Criteria for listing active sessions; every given criterion must match
+ */
+export interface SessionFilter {
+  states?: SessionState[];
+  createdAfter?: number;
+  createdBefore?: number;
+  query?: string; // Case-insensitive match against the idea text and label
+  owner?: string;
+}
+
+/**
+ * Who is calling, as far as the transport can tell. See `resolveOwner` for how this becomes a namespace.
+ */
+export interface SessionOwnerIdentity {
+  authPrincipal?: string; // Client ID of a verified auth token
+  clientName?: string;    // Self-reported MCP client name
+}
 
 /**
- * Session interface for KAT-PLANNER MCP server
+ * Receives every session event the manager logs, e.g. to derive metrics from them, with the
+ * namespace of the session it concerns (or of the caller, for events about no known session)
  */
-interface Session {
-  sessionId: string;
-  state: "questioning" | "refining" | "document_review" | "final_approval" | "development";
-  userIdea: string;
-  createdAt: number;
-  lastActivity: number;
-  answers?: Record<string, string>;
-  refinedSpecification?: string;
-  generatedDocuments?: Array<{ title: string; content: string }>;
-  approvalStatus?: {
-    requirements: boolean;
-    design: boolean;
-    tasks: boolean;
-    agents: boolean;
-    overall: boolean;
-  };
-  developmentPlan?: {
-    implementationSteps: string[];
-    milestones: string[];
-    estimatedTimeline: string;
-  };
-  codebaseType?: "new_project" | "existing_with_docs" | "existing_without_docs";
-  projectType?: string;
+export type SessionEventListener = (event: string, sessionId: string, details: Record<string, unknown>, owner: string) => void;
+
+/**
+ * Options for constructing a session manager
+ */
+export interface SessionManagerOptions {
+  config?: KatPlannerConfig; // Defaults to .katplannerrc files and KAT_PLANNER_* environment variables
+  store?: SessionStore;      // Use this store as-is instead of building one from config
+  archive?: SessionStore;    // Where expired and evicted sessions go; defaults to the configured archive
+  projectRoot?: string;      // Defaults to the project containing the working directory
+  onEvent?: SessionEventListener;
 }
 
 /**
- * Production-ready session manager with atomic file writes and robust error handling
+ * Production-ready session manager with pluggable persistence and robust error handling
  */
 export class ProductionSessionManager {
   private sessions = new Map<string, Session>();
-  private readonly SESSION_TIMEOUT = 30 * 60 * 1000; // 30 minutes
-  private readonly CLEANUP_INTERVAL = 5 * 60 * 1000; // 5 minutes
-  private readonly MAX_SESSIONS = 1000; // Prevent memory bloat
-  private readonly SESSION_FILE = path.join(os.homedir(), '.kat-planner-sessions.json');
+  private readonly config: KatPlannerConfig;
+  private readonly customStore: boolean;
+  private readonly customArchive: boolean;
+  private projectRoot: string;
+  private store: SessionStore;
+  private archive: SessionStore;
+  private journal: SessionJournal;
+  private storeCorrupted = false; // Set when the store had to discard an unreadable file
   private initialized = false;
+  private initializationError?: Error; // Set when sessions could not be loaded safely, e.g. wrong encryption key
+  private readonly cipher?: SessionCipher;
+  // Serializes writes from this process; stores serialize across processes
+  private writeQueue: Promise<void> = Promise.resolve();
+  // Write-behind: changed sessions are collected here and saved together by a debounced flush
+  private dirty = new Set<string>();
+  private flushTimer?: NodeJS.Timeout;
+  private firstDirtyAt?: number;
+  private cleanupTimer?: NodeJS.Timeout;
+  // Makes each session's read-modify-write cycles atomic
+  private readonly locks = new SessionLocks();
+  // Namespace of the caller; sessions of other namespaces are invisible to it. Unset for internal work.
+  private readonly owners = new AsyncLocalStorage<string>();
+  private readonly onEvent?: SessionEventListener;
+  private readonly workflow: Workflow;
 
-  constructor() {
+  constructor(options: SessionManagerOptions = {}) {
+    this.config = options.config ?? loadConfig();
+    this.workflow = new Workflow(this.config.workflow);
+    this.onEvent = options.onEvent;
+    this.projectRoot = path.resolve(options.projectRoot ?? resolveProjectRoot());
+    this.cipher = createSessionCipher(this.config.encryption);
+    this.customStore = options.store !== undefined;
+    this.store = options.store ?? this.createStore();
+    this.customArchive = options.archive !== undefined;
+    this.archive = options.archive ?? this.createArchive();
+    this.journal = this.createJournal();
     this.initialize();
   }
 
+  /**
+   * Build the configured store for the current project root
+   */
+  private createStore(): SessionStore {
+    return createSessionStore(
+      { ...this.config.store, projectRoot: this.projectRoot },
+      (event, details) => {
+        if (event === 'corrupt_session_file_preserved') {
+          this.storeCorrupted = true;
+        }
+        this.logSessionEvent(event, 'system', details);
+      },
+      this.cipher
+    );
+  }
+
+  /**
+   * Build the archive store matching the configured backend
+   */
+  private createArchive(): SessionStore {
+    return createArchiveStore(
+      { ...this.config.store, projectRoot: this.projectRoot },
+      (event, details) => this.logSessionEvent(event, 'system', { ...details, store: 'archive' }),
+      this.cipher
+    );
+  }
+
+  /**
+   * Build the session journal, kept alongside project-scoped storage when that is enabled
+   */
+  private createJournal(): SessionJournal {
+    return new SessionJournal(
+      this.config.journalPath ?? defaultJournalPath(this.isProjectScoped() ? this.projectRoot : undefined),
+      this.cipher
+    );
+  }
+
   /**
    * Initialize session manager - load from disk and start cleanup
    */
   private async initialize(): Promise<void> {
-    await this.loadFromDisk();
+    try {
+      await this.loadFromDisk();
+    } catch (err) {
+      // Refuse to serve rather than start fresh and overwrite sessions a different key could read
+      this.initializationError = err instanceof Error ? err : new Error(String(err));
+      this.initialized = true;
+      return;
+    }
     this.startCleanupTimer();
     this.initialized = true;
     this.logSessionEvent('session_manager_initialized', 'system', {
-      loadedSessions: this.sessions.size
+      loadedSessions: this.sessions.size,
+      store: this.store.kind
     });
   }
 
@@ -64,6 +179,9 @@ export class ProductionSessionManager {
     while (!this.initialized) {
       await new Promise(resolve => setTimeout(resolve, 10));
     }
+    if (this.initializationError) {
+      throw this.initializationError;
+    }
   }
 
   /**
@@ -73,14 +191,17 @@ export class ProductionSessionManager {
     await this.waitForInitialization();
 
     // Check size limit
-    if (this.sessions.size >= this.MAX_SESSIONS) {
+    if (this.sessions.size >= this.config.maxSessions) {
       this.logSessionEvent('session_limit_reached', 'system', {
         currentSessions: this.sessions.size,
-        maxSessions: this.MAX_SESSIONS
+        maxSessions: this.config.maxSessions,
+        evictionPolicy: this.config.evictionPolicy
       });
-      await this.forceCleanup();
+      if (this.config.evictionPolicy !== 'refuse') {
+        await this.forceCleanup();
+      }
 
-      if (this.sessions.size >= this.MAX_SESSIONS) {
+      if (this.sessions.size >= this.config.maxSessions) {
         this.logSessionEvent('session_creation_failed', 'system', {
           reason: 'session_limit_after_cleanup'
         });
@@ -90,15 +211,18 @@ export class ProductionSessionManager {
 
     const sessionId = this.generateSessionId();
     const session: Session = {
+      schemaVersion: CURRENT_SESSION_SCHEMA_VERSION,
       sessionId,
-      state: "questioning",
+      owner: this.owners.getStore(),
+      state: this.workflow.initialState,
       userIdea,
       createdAt: Date.now(),
       lastActivity: Date.now()
     };
 
     this.sessions.set(sessionId, session);
-    await this.saveToDisk();
+    await this.markDirty([session]);
+    this.journalWrite(this.journal.recordCreated(session));
 
     this.logSessionEvent('session_created', sessionId, { userIdea });
     return sessionId;
@@ -108,20 +232,29 @@ export class ProductionSessionManager {
    * Get session with activity update
    */
   getSession(sessionId: string): Promise<Session | undefined> {
-    return this.waitForInitialization().then(() => {
-      const session = this.sessions.get(sessionId);
+    return this.waitForInitialization().then(() => this.locks.run(sessionId, async () => {
+      // Another process sharing the store may have created it
+      const session = this.visible(this.sessions.get(sessionId) ?? await this.loadFromStore(sessionId));
       if (!session) {
         this.logSessionEvent('session_not_found', sessionId);
         return undefined;
       }
 
-      // Update activity
+      // Update activity; only the timestamp changed, so it goes out with the next flush
       session.lastActivity = Date.now();
-      this.saveToDisk(); // Async save
+      void this.markDirty([session]);
 
       this.logSessionEvent('session_accessed', sessionId, { state: session.state });
       return session;
-    });
+    }));
+  }
+
+  /**
+   * Run a read-modify-write on a session atomically: other calls for the same session wait until
+   * `operation` and the writes it made have finished. Manager methods called inside do not block.
+   */
+  withSessionLock<T>(sessionId: string, operation: () => Promise<T>): Promise<T> {
+    return this.locks.run(sessionId, operation);
   }
 
   /**
@@ -129,82 +262,201 @@ export class ProductionSessionManager {
    */
   async updateSession(sessionId: string, updates: Partial<Session>): Promise<boolean> {
     await this.waitForInitialization();
-    const session = this.sessions.get(sessionId);
-    if (!session) {
-      this.logSessionEvent('session_update_failed', sessionId, {
-        reason: 'session_not_found'
-      });
-      return false;
-    }
+    return this.locks.run(sessionId, async () => {
+      const session = this.visible(this.sessions.get(sessionId));
+      if (!session) {
+        this.logSessionEvent('session_update_failed', sessionId, {
+          reason: 'session_not_found'
+        });
+        return false;
+      }
 
-    // Validate state transitions
-    if (updates.state && !this.canTransition(session.state, updates.state)) {
-      this.logSessionEvent('state_transition_invalid', sessionId, {
-        fromState: session.state,
-        toState: updates.state
-      });
-      return false;
-    }
+      // Validate state transitions against the workflow, including the target state's guards
+      if (updates.state && updates.state !== session.state) {
+        const unmetGuards = this.workflow.canTransition(session.state, updates.state)
+          ? this.workflow.unmetGuards(updates.state, { ...session, ...updates })
+          : undefined;
+        if (!unmetGuards || unmetGuards.length > 0) {
+          this.logSessionEvent('state_transition_invalid', sessionId, {
+            fromState: session.state,
+            toState: updates.state,
+            unmetGuards
+          });
+          return false;
+        }
+      }
+
+      const previous = { ...session };
 
-    Object.assign(session, updates);
-    session.lastActivity = Date.now();
+      // Snapshot the pre-transition content so the session can be rolled back to it
+      let snapshot: SessionSnapshot | undefined;
+      let phaseDurationMs: number | undefined;
+      if (updates.state && updates.state !== session.state) {
+        // Every entry into a state (transition, rollback, fork) leaves a snapshot, so the last one marks it
+        const lastEntry = session.snapshots?.[session.snapshots.length - 1];
+        phaseDurationMs = Date.now() - (lastEntry?.takenAt ?? session.createdAt);
+        snapshot = {
+          snapshotId: this.generateSnapshotId(),
+          takenAt: Date.now(),
+          reason: `${session.state} → ${updates.state}`,
+          data: toSnapshotData(session)
+        };
+        session.snapshots = [...(session.snapshots ?? []), snapshot].slice(-MAX_SESSION_SNAPSHOTS);
+      }
+
+      Object.assign(session, updates);
+      session.lastActivity = Date.now();
 
-    await this.saveToDisk();
+      await this.markDirty([session]);
+      if (snapshot) {
+        this.journalWrite(this.journal.recordSnapshot(sessionId, snapshot));
+      }
+      this.journalWrite(this.journal.recordUpdate(previous, updates));
+
+      this.logSessionEvent('session_updated', sessionId, {
+        updatedFields: Object.keys(updates),
+        fromState: previous.state,
+        newState: updates.state || session.state,
+        phaseDurationMs
+      });
 
-    this.logSessionEvent('session_updated', sessionId, {
-      updatedFields: Object.keys(updates),
-      newState: updates.state || session.state
+      return true;
     });
+  }
 
-    return true;
+  /**
+   * Snapshots of a session, oldest first
+   */
+  async listSnapshots(sessionId: string): Promise<SessionSnapshot[] | undefined> {
+    await this.waitForInitialization();
+    const session = this.visible(this.sessions.get(sessionId));
+    return session ? [...(session.snapshots ?? [])] : undefined;
   }
 
   /**
-   * Validate state transitions to prevent workflow loops
+   * Roll a session back to one of its snapshots.
+   *
+   * The move from the current state to the snapshot's state must be a valid transition unless
+   * `override` is set, in which case the override is recorded on the session and in its journal.
+   * The current content is snapshotted first, so a rollback can itself be undone.
    */
-  private canTransition(from: string, to: string): boolean {
-    const validTransitions: Record<string, string[]> = {
-      "questioning": ["refining"],
-      "refining": ["document_review"],
-      "document_review": ["refining", "final_approval"], // Allow revisions
-      "final_approval": ["development"]
-    };
+  async rollbackSession(
+    sessionId: string,
+    snapshotId: string,
+    options: { override?: boolean; reason?: string } = {}
+  ): Promise<{ session?: Session; error?: 'session_not_found' | 'snapshot_not_found' | 'transition_not_allowed' }> {
+    await this.waitForInitialization();
+    return this.locks.run(sessionId, async () => {
+      const session = this.visible(this.sessions.get(sessionId));
+      if (!session) {
+        return { error: 'session_not_found' };
+      }
+
+      const target = session.snapshots?.find(snapshot => snapshot.snapshotId === snapshotId);
+      if (!target) {
+        return { error: 'snapshot_not_found' };
+      }
+
+      const fromState = session.state;
+      const toState = target.data.state;
+      const allowed = fromState === toState || this.workflow.canTransition(fromState, toState);
+      if (!allowed && !options.override) {
+        this.logSessionEvent('rollback_rejected', sessionId, { fromState, toState, snapshotId });
+        return { error: 'transition_not_allowed' };
+      }
 
-    const allowedTransitions = validTransitions[from] || [];
-    return allowedTransitions.includes(to);
+      const now = Date.now();
+      const safetySnapshot: SessionSnapshot = {
+        snapshotId: this.generateSnapshotId(),
+        takenAt: now,
+        reason: `before rollback to ${snapshotId}`,
+        data: toSnapshotData(session)
+      };
+      const rollback: SessionRollback = {
+        rolledBackAt: now,
+        snapshotId,
+        fromState,
+        toState,
+        override: !allowed,
+        reason: options.reason
+      };
+
+      const restoredData = JSON.parse(JSON.stringify(target.data));
+      const rolledBack: Session = {
+        ...restoredData,
+        schemaVersion: session.schemaVersion,
+        sessionId,
+        owner: session.owner,
+        label: session.label,
+        forkedFrom: session.forkedFrom,
+        createdAt: session.createdAt,
+        lastActivity: now,
+        snapshots: [...(session.snapshots ?? []), safetySnapshot].slice(-MAX_SESSION_SNAPSHOTS),
+        rollbacks: [...(session.rollbacks ?? []), rollback]
+      };
+
+      this.sessions.set(sessionId, rolledBack);
+      await this.markDirty([rolledBack]);
+      this.journalWrite(this.journal.recordSnapshot(sessionId, safetySnapshot));
+      this.journalWrite(this.journal.recordRollback(sessionId, rollback, restoredData));
+
+      this.logSessionEvent('session_rolled_back', sessionId, { ...rollback });
+      return { session: rolledBack };
+    });
+  }
+
+  /**
+   * The workflow sessions follow
+   */
+  getWorkflow(): Workflow {
+    return this.workflow;
   }
 
   /**
-   * Force cleanup - remove oldest sessions when at capacity
+   * Whether a session has been idle past the configured timeout
+   */
+  private isExpired(session: Session, now: number = Date.now()): boolean {
+    if (this.config.sessionTimeoutMs <= 0 || this.config.neverExpireStates.includes(session.state)) {
+      return false;
+    }
+    return now - session.lastActivity > this.config.sessionTimeoutMs;
+  }
+
+  /**
+   * Force cleanup - evict sessions per the configured policy when at capacity
    */
   private async forceCleanup(): Promise<void> {
-    if (this.sessions.size === 0) return;
+    // Sessions in never-expire states are protected from eviction as well
+    const candidates = Array.from(this.sessions.values())
+      .filter(session => !this.config.neverExpireStates.includes(session.state) && !this.locks.isLocked(session.sessionId));
+    if (candidates.length === 0) return;
 
-    // Remove oldest sessions first
-    const sorted = Array.from(this.sessions.entries())
-      .sort((a, b) => a[1].lastActivity - b[1].lastActivity);
+    const sorted = this.config.evictionPolicy === 'oldest_created'
+      ? candidates.sort((a, b) => a.createdAt - b.createdAt)
+      : candidates.sort((a, b) => a.lastActivity - b.lastActivity); // lru
 
-    const toRemove = Math.floor(this.sessions.size * 0.2); // Remove oldest 20%
+    const toRemove = Math.max(1, Math.floor(candidates.length * this.config.evictionFraction));
 
     this.logSessionEvent('force_cleanup_started', 'system', {
       totalSessions: this.sessions.size,
-      sessionsToRemove: toRemove
+      sessionsToRemove: toRemove,
+      evictionPolicy: this.config.evictionPolicy
     });
 
-    let removed = 0;
+    const removed: Session[] = [];
     for (let i = 0; i < toRemove; i++) {
-      const sessionId = sorted[i]?.[0];
-      if (sessionId) {
-        this.sessions.delete(sessionId);
-        removed++;
-        this.logSessionEvent('session_removed', sessionId, { reason: 'force_cleanup' });
+      const session = sorted[i];
+      if (session) {
+        this.sessions.delete(session.sessionId);
+        removed.push(session);
+        this.logSessionEvent('session_archived', session.sessionId, { reason: 'evicted' });
       }
     }
 
-    await this.saveToDisk();
+    await this.archiveSessions(removed, 'evicted');
 
     this.logSessionEvent('force_cleanup_complete', 'system', {
-      sessionsRemoved: removed
+      sessionsRemoved: removed.length
     });
   }
 
@@ -213,22 +465,22 @@ export class ProductionSessionManager {
    */
   private cleanupExpiredSessions(): void {
     const now = Date.now();
-    let cleaned = 0;
+    const expired: Session[] = [];
 
     for (const [sessionId, session] of this.sessions.entries()) {
-      if (now - session.lastActivity > this.SESSION_TIMEOUT) {
+      if (this.isExpired(session, now) && !this.locks.isLocked(sessionId)) {
         this.sessions.delete(sessionId);
-        cleaned++;
+        expired.push(session);
         this.logSessionEvent('session_expired', sessionId, {
           duration: now - session.createdAt
         });
       }
     }
 
-    if (cleaned > 0) {
-      this.saveToDisk();
+    if (expired.length > 0) {
+      void this.archiveSessions(expired, 'expired');
       this.logSessionEvent('cleanup_complete', 'system', {
-        sessionsCleaned: cleaned
+        sessionsCleaned: expired.length
       });
     }
   }
@@ -237,141 +489,319 @@ export class ProductionSessionManager {
    * Start automatic cleanup timer
    */
   private startCleanupTimer(): void {
-    setInterval(() => {
+    this.cleanupTimer = setInterval(() => {
       this.cleanupExpiredSessions();
-    }, this.CLEANUP_INTERVAL);
+    }, this.config.cleanupIntervalMs);
   }
 
   /**
-   * Atomic file write with direct approach
+   * Record that sessions changed. They are saved by the next flush, which waits until writes
+   * have been quiet for `flushDelayMs` (but no longer than a few delays after the first change).
+   * With a delay of 0 the sessions are written before this resolves.
    */
-  private async saveToDisk(): Promise<void> {
-    try {
-      // Ensure the directory exists
-      const sessionDir = path.dirname(this.SESSION_FILE);
-      await fs.mkdir(sessionDir, { recursive: true });
+  private markDirty(sessions: Session[]): Promise<void> {
+    for (const session of sessions) {
+      this.dirty.add(session.sessionId);
+    }
 
-      const data = JSON.stringify(Array.from(this.sessions.entries()), null, 2);
+    const delay = this.config.flushDelayMs;
+    if (delay === 0) {
+      return this.flush();
+    }
 
-      // Direct write (simpler approach for now)
-      await fs.writeFile(this.SESSION_FILE, data);
+    const now = Date.now();
+    this.firstDirtyAt ??= now;
+    const deadline = this.firstDirtyAt + delay * MAX_FLUSH_DELAY_FACTOR;
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+    }
+    this.flushTimer = setTimeout(() => void this.flush(), Math.max(0, Math.min(delay, deadline - now)));
+    this.flushTimer.unref(); // Shutdown flushes explicitly; a pending flush must not keep the process alive
+    return Promise.resolve();
+  }
 
-      this.logSessionEvent('sessions_saved', 'system', {
-        sessionCount: this.sessions.size
+  /**
+   * Write every changed session to the store now. Sessions whose write fails stay dirty and are retried.
+   */
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+    this.firstDirtyAt = undefined;
+
+    const sessions = Array.from(this.dirty)
+      .map(sessionId => this.sessions.get(sessionId))
+      .filter((session): session is Session => session !== undefined);
+    this.dirty.clear();
+
+    if (sessions.length === 0) {
+      await this.writeQueue;
+      return;
+    }
+
+    try {
+      await this.serialize(() => this.store.save(sessions));
+      this.logSessionEvent('sessions_flushed', 'system', {
+        sessionCount: sessions.length
       });
     } catch (err) {
-      if (err instanceof Error) {
-        this.logSessionEvent('save_failed', 'system', {
-          error: err.message
-        });
-        console.error('Failed to save sessions:', err);
-      } else {
-        this.logSessionEvent('save_failed', 'system', {
-          error: 'Unknown error'
-        });
-        console.error('Failed to save sessions:', err);
+      this.logSessionEvent('flush_failed', 'system', {
+        sessionCount: sessions.length,
+        error: err instanceof Error ? err.message : 'Unknown error'
+      });
+      const retry = sessions.filter(session => this.sessions.get(session.sessionId) === session);
+      if (retry.length > 0) {
+        void this.markDirty(retry);
       }
     }
   }
 
   /**
-   * Robust file loading with validation and corruption handling
+   * Persist the given sessions; writes from this process never overlap
    */
-  private async loadFromDisk(): Promise<void> {
-    try {
-      const data = await fs.readFile(this.SESSION_FILE, 'utf-8');
+  private saveSessions(sessions: Session[]): Promise<void> {
+    return this.enqueueWrite('save', async () => {
+      await this.store.save(sessions);
+      this.logSessionEvent('sessions_saved', 'system', {
+        sessionCount: sessions.length
+      });
+    });
+  }
 
-      // Parse and validate
-      const entries = JSON.parse(data);
+  /**
+   * Move sessions to the archive with their documents intact, then drop them from the active store.
+   * If archiving fails the sessions stay in the active store and are picked up again on restart.
+   */
+  private archiveSessions(sessions: Session[], reason: string): Promise<void> {
+    const archivedAt = Date.now();
+    const archived = sessions.map(session => ({ ...session, archivedAt, archiveReason: reason }));
+    const refs: SessionRef[] = sessions.map(({ sessionId, lastActivity }) => ({ sessionId, lastActivity }));
+    for (const session of sessions) {
+      this.dirty.delete(session.sessionId); // The archive gets the latest copy; nothing left to flush
+    }
 
-      if (!Array.isArray(entries)) {
-        throw new Error('Invalid session file format - not an array');
+    return this.enqueueWrite('archive', async () => {
+      await this.archive.save(archived);
+      await this.store.delete(refs);
+      for (const session of sessions) {
+        this.journalWrite(this.journal.recordArchived(session.sessionId, reason));
       }
+    });
+  }
 
-      // Validate each session
-      const validSessions: [string, Session][] = [];
-      let invalidSessions = 0;
+  /**
+   * Queue a store write behind earlier ones, logging rather than throwing on failure
+   */
+  private enqueueWrite(operation: string, write: () => Promise<void>): Promise<void> {
+    return this.serialize(write).catch(err => {
+      this.logSessionEvent(`${operation}_failed`, 'system', {
+        error: err instanceof Error ? err.message : 'Unknown error'
+      });
+    });
+  }
 
-      for (const [id, session] of entries) {
-        if (this.isValidSession(session)) {
-          validSessions.push([id, session]);
-        } else {
-          invalidSessions++;
-          this.logSessionEvent('invalid_session_skipped', id, {
-            reason: 'invalid_session_data'
-          });
+  /**
+   * Run an operation after every earlier write from this process; its result or error goes to the caller
+   */
+  private serialize<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.writeQueue.then(operation);
+    this.writeQueue = result.then(() => undefined, () => undefined);
+    return result;
+  }
+
+  /**
+   * Adopt a session that is in the store but not yet in memory
+   */
+  private async loadFromStore(sessionId: string): Promise<Session | undefined> {
+    try {
+      const session = await this.store.load(sessionId);
+      if (!session || this.isExpired(session)) {
+        return undefined;
+      }
+      this.sessions.set(sessionId, session);
+      return session;
+    } catch (err) {
+      this.logSessionEvent('load_failed', sessionId, {
+        error: err instanceof Error ? err.message : 'Unknown error'
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Robust loading with validation and corruption handling
+   */
+  private async loadFromDisk(): Promise<void> {
+    try {
+      this.storeCorrupted = false;
+      await this.importJsonFileStores();
+      let loaded: SessionLoadResult;
+      try {
+        loaded = await this.store.loadAll();
+      } catch (err) {
+        if (err instanceof SessionKeyError) {
+          throw err;
         }
+        this.logSessionEvent('load_failed', 'system', {
+          error: err instanceof Error ? err.message : 'Unknown error'
+        });
+        this.storeCorrupted = true;
+        loaded = { sessions: [], invalid: [], migrated: [], stale: [] };
+      }
+      const { sessions, invalid, migrated, stale } = loaded;
+
+      for (const { sessionId, error } of invalid) {
+        this.logSessionEvent('invalid_session_skipped', sessionId, {
+          reason: 'invalid_session_data',
+          error
+        });
+      }
+
+      this.sessions = new Map(sessions.map(session => [session.sessionId, session]));
+
+      // Write upgraded and re-encrypted records back so the store only holds the current format and key
+      for (const { sessionId, fromVersion } of migrated) {
+        this.logSessionEvent('session_migrated', sessionId, {
+          fromVersion,
+          toVersion: CURRENT_SESSION_SCHEMA_VERSION
+        });
+      }
+      const rewriteIds = new Set([...migrated.map(entry => entry.sessionId), ...stale]);
+      if (rewriteIds.size > 0) {
+        await this.saveSessions(sessions.filter(session => rewriteIds.has(session.sessionId)));
       }
 
-      this.sessions = new Map(validSessions);
+      // Rebuild whatever the snapshot lost from the journal
+      if (invalid.length > 0 || this.storeCorrupted) {
+        await this.recoverFromJournal(this.storeCorrupted ? undefined : invalid.map(entry => entry.sessionId));
+      }
 
       // Clean up expired sessions on load
       const now = Date.now();
-      let expired = 0;
+      const expired: Session[] = [];
       for (const [id, session] of this.sessions.entries()) {
-        if (now - session.lastActivity > this.SESSION_TIMEOUT) {
+        if (this.isExpired(session, now)) {
           this.sessions.delete(id);
-          expired++;
-          this.logSessionEvent('expired_session_removed', id);
+          expired.push(session);
+          this.logSessionEvent('expired_session_archived', id);
         }
       }
 
-      // Save to remove expired sessions
-      if (expired > 0) {
-        await this.saveToDisk();
+      // Move expired sessions out of the active store
+      if (expired.length > 0) {
+        await this.archiveSessions(expired, 'expired');
       }
 
       this.logSessionEvent('sessions_loaded', 'system', {
+        store: this.store.kind,
+        location: this.store.location,
         validSessions: this.sessions.size,
-        invalidSessions,
-        expiredSessions: expired
+        invalidSessions: invalid.length,
+        migratedSessions: migrated.length,
+        expiredSessions: expired.length
+      });
+    } catch (err) {
+      if (err instanceof SessionKeyError) {
+        this.logSessionEvent('load_failed', 'system', {
+          reason: 'encryption_key_rejected',
+          location: this.store.location,
+          error: err.message,
+          action: 'Sessions are left untouched; fix the key configuration and restart'
+        });
+        throw err;
+      }
+      this.logSessionEvent('load_failed', 'system', {
+        error: err instanceof Error ? err.message : 'Unknown error',
+        action: 'starting fresh'
       });
+    }
+  }
 
-      console.log(`Loaded ${this.sessions.size} sessions (cleaned ${invalidSessions} invalid, ${expired} expired)`);
+  /**
+   * Bring over sessions from the single JSON file that was the default store before the directory
+   * store, when the directory store is used at its default location
+   */
+  private async importJsonFileStores(): Promise<void> {
+    if (this.config.store.kind !== 'directory') {
+      return;
+    }
+    const projectRoot = this.isProjectScoped() ? this.projectRoot : undefined;
+    const onEvent = (event: string, details?: Record<string, unknown>) => this.logSessionEvent(event, 'system', details);
+    try {
+      if (!this.customStore && !this.config.store.path) {
+        await importJsonFileStore(defaultStorePath('json-file', projectRoot), this.store, onEvent, this.cipher);
+      }
+      if (!this.customArchive && !this.config.store.archivePath) {
+        await importJsonFileStore(defaultArchivePath('json-file', projectRoot), this.archive, onEvent, this.cipher);
+      }
     } catch (err) {
-      if (err && typeof err === 'object' && 'code' in err) {
-        if (err.code === 'ENOENT') {
-          this.logSessionEvent('no_sessions_file', 'system', {
-            reason: 'file_not_found'
-          });
-          console.log('No previous sessions found');
-        } else {
-          this.logSessionEvent('load_failed', 'system', {
-            error: err instanceof Error ? err.message : 'Unknown error'
-          });
-          console.error('Failed to load sessions, starting fresh:', err);
+      if (err instanceof SessionKeyError) {
+        throw err;
+      }
+      // The JSON file is left in place and imported on the next start
+      this.logSessionEvent('json_store_import_failed', 'system', {
+        error: err instanceof Error ? err.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Replay journals for sessions missing from the snapshot (all journals when `sessionIds` is omitted)
+   */
+  private async recoverFromJournal(sessionIds?: string[]): Promise<void> {
+    const candidates = sessionIds ?? await this.journal.list();
+    const recovered: Session[] = [];
+
+    for (const sessionId of candidates) {
+      if (this.sessions.has(sessionId)) continue;
+
+      try {
+        const session = await this.journal.replay(sessionId);
+        if (session) {
+          this.sessions.set(sessionId, session);
+          recovered.push(session);
+          this.logSessionEvent('session_recovered_from_journal', sessionId, { state: session.state });
         }
-      } else {
-        this.logSessionEvent('load_failed', 'system', {
-          error: 'Unknown error'
+      } catch (err) {
+        this.logSessionEvent('journal_replay_failed', sessionId, {
+          error: err instanceof Error ? err.message : 'Unknown error'
         });
-        console.error('Failed to load sessions, starting fresh:', err);
       }
     }
+
+    if (recovered.length > 0) {
+      await this.saveSessions(recovered);
+    }
+  }
+
+  /**
+   * Report journal write failures without failing the operation that produced the event
+   */
+  private journalWrite(write: Promise<void>): void {
+    write.catch(err => {
+      this.logSessionEvent('journal_write_failed', 'system', {
+        error: err instanceof Error ? err.message : 'Unknown error'
+      });
+    });
+  }
+
+  /**
+   * Full event history of a session, oldest first
+   */
+  async getSessionHistory(sessionId: string): Promise<JournalEvent[]> {
+    await this.journal.flush();
+    const events = await this.journal.read(sessionId);
+    const created = events.find(event => event.type === 'session_created');
+    return created && !this.isVisibleTo(created.changes?.owner ?? DEFAULT_SESSION_OWNER) ? [] : events;
   }
 
   /**
-   * Validate session data integrity
+   * Rebuild a session from its journal without touching the active session
    */
-  private isValidSession(session: any): session is Session {
-    return session &&
-           typeof session.sessionId === 'string' &&
-           ['questioning', 'refining', 'document_review', 'final_approval', 'development'].includes(session.state) &&
-           typeof session.userIdea === 'string' &&
-           typeof session.createdAt === 'number' &&
-           typeof session.lastActivity === 'number' &&
-           (session.answers === undefined || typeof session.answers === 'object') &&
-           (session.refinedSpecification === undefined || typeof session.refinedSpecification === 'string') &&
-           (session.generatedDocuments === undefined || Array.isArray(session.generatedDocuments)) &&
-           (session.approvalStatus === undefined || (
-             typeof session.approvalStatus === 'object' &&
-             typeof session.approvalStatus.requirements === 'boolean' &&
-             typeof session.approvalStatus.design === 'boolean' &&
-             typeof session.approvalStatus.tasks === 'boolean' &&
-             typeof session.approvalStatus.agents === 'boolean' &&
-             typeof session.approvalStatus.overall === 'boolean'
-           )) &&
-           (session.codebaseType === undefined || ['new_project', 'existing_with_docs', 'existing_without_docs'].includes(session.codebaseType));
+  async replaySession(sessionId: string): Promise<Session | undefined> {
+    await this.journal.flush();
+    return this.visible(await this.journal.replay(sessionId));
   }
 
   /**
@@ -381,18 +811,66 @@ export class ProductionSessionManager {
     return `kat_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
+  /**
+   * Generate unique snapshot ID
+   */
+  private generateSnapshotId(): string {
+    return `snap_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+  }
+
   /**
    * Comprehensive logging for debugging and monitoring
    */
   private logSessionEvent(event: string, sessionId: string, details?: any): void {
-    const logEntry = {
-      timestamp: new Date().toISOString(),
-      event,
-      sessionId,
-      ...details
-    };
+    const level = EVENT_LOG_LEVELS[event] ?? (event.endsWith('_failed') ? 'error' : 'info');
+    log.log(level, event, { sessionId, ...details });
+    const session = this.sessions.get(sessionId);
+    this.onEvent?.(event, sessionId, details ?? {}, session ? sessionOwner(session) : this.owners.getStore() ?? DEFAULT_SESSION_OWNER);
+  }
+
+  /**
+   * Record a workflow decision made outside the manager, such as a refused approval or a mode
+   * requested from the wrong state, alongside the manager's own session events
+   */
+  recordWorkflowEvent(event: 'approval_rejected' | 'state_transition_invalid', sessionId: string, details: Record<string, unknown>): void {
+    this.logSessionEvent(event, sessionId, details);
+    if (this.sessions.has(sessionId)) {
+      this.journalWrite(this.journal.recordRefusal(sessionId, event, details));
+    }
+  }
 
-    console.error(JSON.stringify(logEntry));
+  /**
+   * Every session's journal, including those of archived and deleted sessions, e.g. to rebuild
+   * metrics after a restart. Journals that cannot be read are logged and skipped.
+   */
+  async readJournals(): Promise<JournalEvent[][]> {
+    await this.waitForInitialization();
+    const journals: JournalEvent[][] = [];
+    for (const sessionId of await this.journal.list()) {
+      try {
+        journals.push(await this.journal.read(sessionId));
+      } catch (err) {
+        this.logSessionEvent('journal_read_failed', sessionId, {
+          error: err instanceof Error ? err.message : 'Unknown error'
+        });
+      }
+    }
+    return journals;
+  }
+
+  /**
+   * Number of active sessions in each workflow state, in one namespace or across all of them
+   */
+  getStateCounts(owner?: string): Record<SessionState, number> {
+    const counts: Record<SessionState, number> = Object.fromEntries(this.workflow.states.map(state => [state, 0]));
+    for (const session of this.sessions.values()) {
+      if (owner !== undefined && sessionOwner(session) !== owner) {
+        continue;
+      }
+      // Sessions left in a state the current workflow no longer defines are still counted
+      counts[session.state] = (counts[session.state] ?? 0) + 1;
+    }
+    return counts;
   }
 
   /**
@@ -408,4 +886,391 @@ export class ProductionSessionManager {
   getAllSessionIds(): string[] {
     return Array.from(this.sessions.keys());
   }
-}
\ No newline at end of file
+
+  /**
+   * Active sessions matching the filter, most recently active first
+   */
+  async listSessions(filter: SessionFilter = {}): Promise<Session[]> {
+    await this.waitForInitialization();
+    return Array.from(this.sessions.values())
+      .filter(session => this.isVisibleTo(sessionOwner(session)) && this.matchesFilter(session, filter))
+      .sort((a, b) => b.lastActivity - a.lastActivity);
+  }
+
+  /**
+   * Active sessions of every namespace matching the filter, most recently active first. Admins only.
+   */
+  async listAllSessions(filter: SessionFilter = {}): Promise<{ sessions?: Session[]; error?: 'not_admin' }> {
+    await this.waitForInitialization();
+    const caller = this.owners.getStore();
+    if (caller !== undefined && !this.isAdmin(caller)) {
+      this.logSessionEvent('admin_view_rejected', 'system', { owner: caller });
+      return { error: 'not_admin' };
+    }
+
+    const sessions = Array.from(this.sessions.values())
+      .filter(session => this.matchesFilter(session, filter))
+      .sort((a, b) => b.lastActivity - a.lastActivity);
+    return { sessions };
+  }
+
+  private matchesFilter(session: Session, filter: SessionFilter): boolean {
+    const query = filter.query?.toLowerCase();
+    return (!filter.states || filter.states.includes(session.state)) &&
+      (filter.createdAfter === undefined || session.createdAt >= filter.createdAfter) &&
+      (filter.createdBefore === undefined || session.createdAt < filter.createdBefore) &&
+      (filter.owner === undefined || sessionOwner(session) === filter.owner) &&
+      (!query ||
+        session.userIdea.toLowerCase().includes(query) ||
+        (session.label?.toLowerCase().includes(query) ?? false));
+  }
+
+  /**
+   * Give a session a human-friendly name
+   */
+  async renameSession(sessionId: string, label: string): Promise<Session | undefined> {
+    const updated = await this.updateSession(sessionId, { label });
+    return updated ? this.sessions.get(sessionId) : undefined;
+  }
+
+  /**
+   * Permanently remove a session from the active store. Its journal is kept as an audit trail.
+   * A store failure is thrown to the caller and the session is kept.
+   */
+  async deleteSession(sessionId: string): Promise<boolean> {
+    await this.waitForInitialization();
+    return this.locks.run(sessionId, async () => {
+      const session = this.visible(this.sessions.get(sessionId) ?? await this.loadFromStore(sessionId));
+      if (!session) {
+        return false;
+      }
+
+      // The session stays in memory until the store has dropped it, so a failed delete leaves it intact
+      try {
+        await this.serialize(() => this.store.delete([{ sessionId, lastActivity: session.lastActivity }]));
+      } catch (err) {
+        this.logSessionEvent('delete_failed', sessionId, {
+          error: err instanceof Error ? err.message : 'Unknown error'
+        });
+        throw err;
+      }
+      this.sessions.delete(sessionId);
+      this.dirty.delete(sessionId);
+      this.journalWrite(this.journal.recordRemoved(sessionId, 'deleted'));
+
+      this.logSessionEvent('session_deleted', sessionId, { state: session.state });
+      return true;
+    });
+  }
+
+  /**
+   * Sessions currently in the archive, most recently archived first
+   */
+  async listArchivedSessions(): Promise<Session[]> {
+    await this.waitForInitialization();
+    const { sessions } = await this.archive.loadAll();
+    return sessions.filter(session => this.isVisibleTo(sessionOwner(session))).sort((a, b) => (b.archivedAt ?? 0) - (a.archivedAt ?? 0));
+  }
+
+  /**
+   * Bring an archived session back to active state
+   */
+  async restoreSession(sessionId: string): Promise<{ session?: Session; error?: 'not_found' | 'already_active' | 'session_limit' }> {
+    await this.waitForInitialization();
+    return this.locks.run(sessionId, async () => {
+      const active = this.sessions.get(sessionId);
+      if (active) {
+        return this.visible(active) ? { error: 'already_active' } : { error: 'not_found' };
+      }
+      if (this.sessions.size >= this.config.maxSessions) {
+        if (this.config.evictionPolicy !== 'refuse') {
+          await this.forceCleanup();
+        }
+        if (this.sessions.size >= this.config.maxSessions) {
+          return { error: 'session_limit' };
+        }
+      }
+
+      const archived = this.visible(await this.serialize(() => this.archive.load(sessionId)));
+      if (!archived) {
+        return { error: 'not_found' };
+      }
+
+      const { archivedAt, archiveReason, ...rest } = archived;
+      const session: Session = { ...rest, lastActivity: Date.now() };
+
+      await this.serialize(async () => {
+        await this.store.save([session]);
+        await this.archive.delete([archived]);
+      });
+      this.sessions.set(sessionId, session);
+      this.journalWrite(this.journal.recordRestored(sessionId));
+
+      this.logSessionEvent('session_restored', sessionId, {
+        state: session.state,
+        archivedFor: Date.now() - (archivedAt ?? session.lastActivity),
+        archiveReason
+      });
+      return { session };
+    });
+  }
+
+  /**
+   * Clone a session's workflow content into a new session that records its parent, so the
+   * two can be refined independently. The fork's first snapshot is the content it started from.
+   */
+  async forkSession(parentId: string, label?: string): Promise<{ session?: Session; error?: 'session_not_found' | 'session_limit' }> {
+    await this.waitForInitialization();
+    return this.locks.run(parentId, async () => {
+      const parent = this.visible(this.sessions.get(parentId) ?? await this.loadFromStore(parentId));
+      if (!parent) {
+        return { error: 'session_not_found' };
+      }
+
+      if (this.sessions.size >= this.config.maxSessions) {
+        if (this.config.evictionPolicy !== 'refuse') {
+          await this.forceCleanup();
+        }
+        if (this.sessions.size >= this.config.maxSessions) {
+          return { error: 'session_limit' };
+        }
+      }
+
+      const now = Date.now();
+      const sessionId = this.generateSessionId();
+      const forkPoint: SessionSnapshot = {
+        snapshotId: this.generateSnapshotId(),
+        takenAt: now,
+        reason: `forked from ${parentId}`,
+        data: toSnapshotData(parent)
+      };
+      const session: Session = {
+        ...toSnapshotData(parent),
+        schemaVersion: CURRENT_SESSION_SCHEMA_VERSION,
+        sessionId,
+        owner: parent.owner,
+        label,
+        forkedFrom: { sessionId: parentId, forkedAt: now, state: parent.state, snapshotId: forkPoint.snapshotId },
+        createdAt: now,
+        lastActivity: now,
+        snapshots: [forkPoint]
+      };
+
+      this.sessions.set(sessionId, session);
+      await this.markDirty([session]);
+      this.journalWrite(this.journal.recordCreated(session, 'forked'));
+
+      this.logSessionEvent('session_forked', sessionId, { parentId, state: session.state });
+      return { session };
+    });
+  }
+
+  /**
+   * Active sessions forked directly from the given session, oldest fork first
+   */
+  async listForks(sessionId: string): Promise<Session[]> {
+    await this.waitForInitialization();
+    return Array.from(this.sessions.values())
+      .filter(session => session.forkedFrom?.sessionId === sessionId && this.isVisibleTo(sessionOwner(session)))
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  /**
+   * Add a session brought in from elsewhere (e.g. an import bundle). If its ID is already used by
+   * an active or archived session here, it gets a fresh ID.
+   */
+  async importSession(incoming: Session): Promise<{ session?: Session; remappedFrom?: string; error?: 'session_limit' }> {
+    await this.waitForInitialization();
+
+    if (this.sessions.size >= this.config.maxSessions) {
+      if (this.config.evictionPolicy !== 'refuse') {
+        await this.forceCleanup();
+      }
+      if (this.sessions.size >= this.config.maxSessions) {
+        return { error: 'session_limit' };
+      }
+    }
+
+    const idTaken = this.sessions.has(incoming.sessionId) ||
+      await this.serialize(async () => Boolean(await this.store.load(incoming.sessionId) ?? await this.archive.load(incoming.sessionId)));
+    const sessionId = idTaken ? this.generateSessionId() : incoming.sessionId;
+
+    const session: Session = {
+      ...incoming,
+      schemaVersion: CURRENT_SESSION_SCHEMA_VERSION,
+      sessionId,
+      owner: this.owners.getStore(),
+      lastActivity: Date.now()
+    };
+
+    this.sessions.set(sessionId, session);
+    await this.markDirty([session]);
+    this.journalWrite(this.journal.recordCreated(session, 'imported'));
+
+    this.logSessionEvent('session_imported', sessionId, {
+      state: session.state,
+      remappedFrom: idTaken ? incoming.sessionId : undefined
+    });
+    return idTaken ? { session, remappedFrom: incoming.sessionId } : { session };
+  }
+
+  /**
+   * Most recently active session, used to resume a project's planning session when no sessionId is given
+   */
+  getActiveSessionId(): string | undefined {
+    let active: Session | undefined;
+    for (const session of this.sessions.values()) {
+      if (!this.isVisibleTo(sessionOwner(session))) continue;
+      if (!active || session.lastActivity > active.lastActivity) {
+        active = session;
+      }
+    }
+    return active?.sessionId;
+  }
+
+  /**
+   * Namespace for a caller: a verified auth principal, else the configured user name, else the
+   * client's self-reported name, else DEFAULT_SESSION_OWNER. Prefixes keep a self-reported client
+   * name from impersonating a configured user or an authenticated principal.
+   */
+  resolveOwner(identity: SessionOwnerIdentity): string {
+    if (identity.authPrincipal) {
+      return `auth:${identity.authPrincipal}`;
+    }
+    if (this.config.user) {
+      return this.config.user;
+    }
+    if (identity.clientName) {
+      return `client:${identity.clientName}`;
+    }
+    return DEFAULT_SESSION_OWNER;
+  }
+
+  /**
+   * Whether a namespace may view sessions across all namespaces
+   */
+  isAdmin(owner: string): boolean {
+    return this.config.admins.includes(owner);
+  }
+
+  /**
+   * Run `operation` on behalf of `owner`: sessions it creates belong to that namespace, and
+   * sessions of other namespaces look like they do not exist
+   */
+  runAsOwner<T>(owner: string, operation: () => Promise<T>): Promise<T> {
+    return this.owners.run(owner, operation);
+  }
+
+  /**
+   * Whether the current caller may see sessions of the given namespace
+   */
+  private isVisibleTo(owner: string): boolean {
+    const caller = this.owners.getStore();
+    return caller === undefined || caller === owner;
+  }
+
+  /**
+   * The session, or undefined if it belongs to another namespace than the caller's
+   */
+  private visible(session: Session | undefined): Session | undefined {
+    if (!session || this.isVisibleTo(sessionOwner(session))) {
+      return session;
+    }
+    this.logSessionEvent('cross_namespace_access_rejected', session.sessionId, {
+      owner: this.owners.getStore(),
+      sessionOwner: sessionOwner(session)
+    });
+    return undefined;
+  }
+
+  /**
+   * Whether sessions are stored inside the project rather than the home directory
+   */
+  isProjectScoped(): boolean {
+    return !this.customStore && this.config.store.scope === 'project';
+  }
+
+  /**
+   * Re-point project-scoped storage at a new project root (e.g. once the MCP client reports its roots).
+   * Sessions already in memory are carried over to the new project's store.
+   */
+  async setProjectRoot(projectRoot: string): Promise<void> {
+    await this.waitForInitialization();
+
+    const resolved = path.resolve(projectRoot);
+    if (!this.isProjectScoped() || this.config.store.path || resolved === this.projectRoot) {
+      return;
+    }
+
+    const carried = Array.from(this.sessions.values());
+    const previousRoot = this.projectRoot;
+    await this.flush();
+    try {
+      await this.openProjectStorage(resolved);
+    } catch (error) {
+      // Everything was flushed above, so reopening the previous project's storage loses nothing
+      await this.openProjectStorage(previousRoot);
+      throw error;
+    }
+
+    const adopted = carried.filter(session => !this.sessions.has(session.sessionId));
+    for (const session of adopted) {
+      this.sessions.set(session.sessionId, session);
+    }
+    if (adopted.length > 0) {
+      await this.saveSessions(adopted);
+    }
+
+    this.logSessionEvent('project_root_changed', 'system', {
+      projectRoot: resolved,
+      location: this.store.location,
+      carriedSessions: adopted.length
+    });
+  }
+
+  /**
+   * Close the current store, archive and journal and load sessions from those of `projectRoot`
+   */
+  private async openProjectStorage(projectRoot: string): Promise<void> {
+    await this.store.close();
+    this.projectRoot = projectRoot;
+    this.store = this.createStore();
+    if (!this.customArchive) {
+      await this.archive.close();
+      this.archive = this.createArchive();
+    }
+    await this.journal.flush();
+    this.journal = this.createJournal();
+    await this.loadFromDisk();
+  }
+
+  /**
+   * Describe where sessions are persisted
+   */
+  describeStorage(): string {
+    return `${this.store.kind} (${this.store.location})${this.cipher ? `, encrypted with key ${this.cipher.keyId}` : ''}`;
+  }
+
+  /**
+   * Why sessions could not be loaded, if the manager refused to start
+   */
+  getLoadError(): string | undefined {
+    return this.initializationError?.message;
+  }
+
+  /**
+   * Flush pending writes and release the store
+   */
+  async close(): Promise<void> {
+    // Initialization starts the cleanup timer, so let it finish first; a failed load still releases the stores
+    await this.waitForInitialization().catch(() => undefined);
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = undefined;
+    }
+    await this.flush();
+    await this.journal.flush();
+    await this.store.close();
+    await this.archive.close();
+  }
+}
@@ -0,0 +1,112 @@
+import { CURRENT_SESSION_SCHEMA_VERSION, Session, sessionSchema } from './session-schema.js';
+import { questionFromText } from './tools/questions.js';
+
+/**
+ * Raw session record as read from storage, before migration and validation
+ */
+type SessionRecord = Record<string, unknown>;
+
+/**
+ * One step of the migration pipeline, upgrading records from `version - 1` to `version`
+ */
+interface SessionMigration {
+  version: number;
+  description: string;
+  migrate(record: SessionRecord): SessionRecord;
+}
+
+/**
+ * Records written before `schemaVersion` existed are treated as version 1
+ */
+const UNVERSIONED_SCHEMA_VERSION = 1;
+
+/**
+ * Ordered migrations; each one runs only for records older than its version
+ */
+const MIGRATIONS: SessionMigration[] = [
+  {
+    version: 2,
+    description: 'Add schemaVersion and map the questioning/refining/approved workflow onto the five-state workflow',
+    migrate(record) {
+      return {
+        ...record,
+        // session-manager-new.ts ended at "approved" without SDD documents, so resume where they get generated
+        state: record.state === 'approved' ? 'refining' : record.state,
+        schemaVersion: 2
+      };
+    }
+  },
+  {
+    version: 3,
+    description: 'Turn the plain-text questions of each question round, including in snapshots, into structured free-text questions',
+    migrate(record) {
+      const snapshots = Array.isArray(record.snapshots)
+        ? record.snapshots.map(snapshot => isRecord(snapshot) && isRecord(snapshot.data)
+          ? { ...snapshot, data: structureQuestionRounds(snapshot.data) }
+          : snapshot)
+        : record.snapshots;
+      return { ...structureQuestionRounds(record), snapshots, schemaVersion: 3 };
+    }
+  }
+];
+
+/**
+ * Content with each round's "Label: question" strings replaced by structured questions
+ */
+function structureQuestionRounds(content: SessionRecord): SessionRecord {
+  if (!Array.isArray(content.questionRounds)) {
+    return content;
+  }
+  return {
+    ...content,
+    questionRounds: content.questionRounds.map(round => isRecord(round) && Array.isArray(round.questions)
+      ? { ...round, questions: round.questions.map((question, index) => typeof question === 'string' ? questionFromText(question, index + 1) : question) }
+      : round)
+  };
+}
+
+function isRecord(value: unknown): value is SessionRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Outcome of reading one stored session record
+ */
+export type SessionParseResult =
+  | { ok: true; session: Session; migratedFrom?: number }
+  | { ok: false; error: string };
+
+/**
+ * Upgrade a stored record to the current schema version and validate it.
+ * Records from a newer server are rejected rather than downgraded.
+ */
+export function parseSessionRecord(raw: unknown): SessionParseResult {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { ok: false, error: 'not an object' };
+  }
+
+  let record = raw as SessionRecord;
+  const version = record.schemaVersion === undefined ? UNVERSIONED_SCHEMA_VERSION : record.schemaVersion;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < UNVERSIONED_SCHEMA_VERSION) {
+    return { ok: false, error: `invalid schemaVersion ${JSON.stringify(record.schemaVersion)}` };
+  }
+  if (version > CURRENT_SESSION_SCHEMA_VERSION) {
+    return { ok: false, error: `schemaVersion ${version} is newer than supported version ${CURRENT_SESSION_SCHEMA_VERSION}` };
+  }
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version > version) {
+      record = migration.migrate(record);
+    }
+  }
+
+  const result = sessionSchema.safeParse(record);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    return { ok: false, error: issue ? `${issue.path.join('.') || 'session'}: ${issue.message}` : 'invalid session data' };
+  }
+
+  return version < CURRENT_SESSION_SCHEMA_VERSION
+    ? { ok: true, session: result.data, migratedFrom: version }
+    : { ok: true, session: result.data };
+}
@@ -0,0 +1,194 @@
+import { z } from 'zod';
+import { clarifyingQuestionSchema } from './tools/questions.js';
+
+/**
+ * Name of a workflow state. Which states exist, and how sessions move between them, is defined by
+ * the active workflow (see workflow.ts).
+ */
+export type SessionState = string;
+
+/**
+ * Format of workflow state names
+ */
+export const sessionStateSchema = z.string().regex(/^[a-z][a-z0-9_]*$/, 'expected a lower_snake_case state name');
+
+/**
+ * Version of the session record format written by this server. Bump it together with a new
+ * migration in session-migrations.ts whenever the shape below changes.
+ */
+export const CURRENT_SESSION_SCHEMA_VERSION = 3;
+
+/**
+ * Maximum snapshots kept per session; the oldest are dropped first
+ */
+export const MAX_SESSION_SNAPSHOTS = 50;
+
+const documentRevisionSchema = z.object({
+  title: z.string(),
+  fromVersion: z.number().int().positive(),
+  toVersion: z.number().int().positive(),
+  diff: z.string() // Unified diff from the previous version
+});
+
+const sessionRevisionSchema = z.object({
+  revision: z.number().int().positive(), // 1 for the first revision requested
+  requestedAt: z.number(),
+  request: z.string(),                   // The user's feedback, as given in revisionRequest
+  fromState: sessionStateSchema,         // Review state the session returned to afterwards
+  specificationDiff: z.string(),
+  documents: z.array(documentRevisionSchema)
+});
+
+const documentReviewSchema = z.object({
+  document: z.string(),                          // Document title
+  version: z.number().int().positive(),          // Version the decision applies to
+  decision: z.enum(['approved', 'rejected']),
+  comment: z.string().optional(),
+  reviewedAt: z.number()
+});
+
+const questionRoundSchema = z.object({
+  round: z.number().int().positive(), // 1 for the initial clarifying questions
+  askedAt: z.number(),
+  questions: z.array(clarifyingQuestionSchema),
+  answeredAt: z.number().optional()
+});
+
+// Workflow content: everything a snapshot captures and a rollback restores
+const sessionContentSchema = z.object({
+  state: sessionStateSchema,
+  userIdea: z.string(),
+  answers: z.record(z.string()).optional(),             // Keyed by question id
+  questionPack: z.string().optional(),                     // Id of the question pack the session started with
+  questionRounds: z.array(questionRoundSchema).optional(), // Questions asked, round by round
+  refinedSpecification: z.string().optional(),
+  generatedDocuments: z.array(z.object({
+    title: z.string(),
+    content: z.string(),
+    version: z.number().int().positive().optional() // Bumped by each revision; 1 when unset
+  })).optional(),
+  approvalStatus: z.object({
+    requirements: z.boolean(),
+    design: z.boolean(),
+    tasks: z.boolean(),
+    agents: z.boolean(),
+    overall: z.boolean()
+  }).optional(),
+  developmentPlan: z.object({
+    implementationSteps: z.array(z.string()),
+    milestones: z.array(z.string()),
+    estimatedTimeline: z.string()
+  }).optional(),
+  codebaseType: z.enum(['new_project', 'existing_with_docs', 'existing_without_docs']).optional(),
+  projectType: z.string().optional(),
+  revisions: z.array(sessionRevisionSchema).optional(),     // Revision history, oldest first
+  documentReviews: z.array(documentReviewSchema).optional() // Per-document decisions, oldest first
+});
+
+const sessionSnapshotSchema = z.object({
+  snapshotId: z.string(),
+  takenAt: z.number(),
+  reason: z.string(), // e.g. "refining → document_review"
+  data: sessionContentSchema
+});
+
+const sessionRollbackSchema = z.object({
+  rolledBackAt: z.number(),
+  snapshotId: z.string(),
+  fromState: sessionStateSchema,
+  toState: sessionStateSchema,
+  override: z.boolean(),
+  reason: z.string().optional()
+});
+
+const sessionForkSchema = z.object({
+  sessionId: z.string(),  // Parent session
+  forkedAt: z.number(),
+  state: sessionStateSchema, // Parent's state when the fork was made
+  snapshotId: z.string()  // Fork's own snapshot of the content it started from
+});
+
+/**
+ * Namespace of sessions created without an owner identity, including those from before namespacing
+ */
+export const DEFAULT_SESSION_OWNER = 'local';
+
+/**
+ * Schema of a current-version session record, as stored and as held in memory
+ */
+export const sessionSchema = sessionContentSchema.extend({
+  schemaVersion: z.literal(CURRENT_SESSION_SCHEMA_VERSION),
+  sessionId: z.string(),
+  owner: z.string().optional(), // Namespace the session belongs to; DEFAULT_SESSION_OWNER when unset
+  label: z.string().optional(), // Human-friendly name set with rename_session
+  forkedFrom: sessionForkSchema.optional(),
+  createdAt: z.number(),
+  lastActivity: z.number(),
+  snapshots: z.array(sessionSnapshotSchema).optional(),
+  rollbacks: z.array(sessionRollbackSchema).optional(),
+  archivedAt: z.number().optional(), // Set while the session sits in the archive
+  archiveReason: z.string().optional()
+});
+
+/**
+ * Session record for KAT-PLANNER MCP server
+ */
+export type Session = z.infer<typeof sessionSchema>;
+
+/**
+ * Workflow content of a session captured by a snapshot
+ */
+export type SessionSnapshotData = z.infer<typeof sessionContentSchema>;
+
+/**
+ * Point-in-time copy of a session's workflow content, taken before each state transition
+ */
+export type SessionSnapshot = z.infer<typeof sessionSnapshotSchema>;
+
+/**
+ * Record of a rollback, including whether it bypassed the transition rules
+ */
+export type SessionRollback = z.infer<typeof sessionRollbackSchema>;
+
+/**
+ * One applied revision request and the document versions it produced
+ */
+export type SessionRevision = z.infer<typeof sessionRevisionSchema>;
+
+/**
+ * One round of questions asked during questioning
+ */
+export type QuestionRound = z.infer<typeof questionRoundSchema>;
+
+/**
+ * A reviewer's decision on one version of a generated document
+ */
+export type DocumentReview = z.infer<typeof documentReviewSchema>;
+
+/**
+ * Where a forked session branched off its parent
+ */
+export type SessionFork = z.infer<typeof sessionForkSchema>;
+
+/**
+ * Copy the workflow content of a session, leaving out identity, owner, label, lineage, version, timestamps and history
+ */
+export function toSnapshotData(session: Session): SessionSnapshotData {
+  const { schemaVersion, sessionId, owner, label, forkedFrom, createdAt, lastActivity, snapshots, rollbacks, archivedAt, archiveReason, ...data } = session;
+  return JSON.parse(JSON.stringify(data));
+}
+
+/**
+ * Workflow content fields that differ between two copies of a session
+ */
+export function changedContentFields(from: SessionSnapshotData, to: SessionSnapshotData): Array<keyof SessionSnapshotData> {
+  const fields = new Set([...Object.keys(from), ...Object.keys(to)] as Array<keyof SessionSnapshotData>);
+  return Array.from(fields).filter(field => JSON.stringify(from[field]) !== JSON.stringify(to[field]));
+}
+
+/**
+ * Namespace a session belongs to
+ */
+export function sessionOwner(session: Session): string {
+  return session.owner ?? DEFAULT_SESSION_OWNER;
+}
@@ -0,0 +1,180 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { withFileLock, writeFileAtomic } from '../file-lock.js';
+import { encodeRecord, SessionCipher, SessionKeyError } from '../session-crypto.js';
+import type { Session } from '../session-schema.js';
+import { isSameOrNewer, readStoredSession, SessionLoadResult, SessionRef, SessionStore, SessionStoreListener } from './session-store.js';
+
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * One JSON file per session in a directory.
+ *
+ * Touching a session rewrites only that session's file, which keeps writes cheap
+ * for stores holding thousands of sessions.
+ */
+export class DirectorySessionStore implements SessionStore {
+  readonly kind = 'directory' as const;
+
+  constructor(
+    private readonly directory: string,
+    private readonly onEvent: SessionStoreListener = () => undefined,
+    private readonly cipher?: SessionCipher
+  ) {}
+
+  get location(): string {
+    return this.directory;
+  }
+
+  async loadAll(): Promise<SessionLoadResult> {
+    const result: SessionLoadResult = { sessions: [], invalid: [], migrated: [], stale: [] };
+
+    for (const sessionId of await this.list()) {
+      try {
+        const read = await this.readSessionFile(sessionId);
+        if (read) {
+          result.sessions.push(read.session);
+          if (read.migratedFrom !== undefined) {
+            result.migrated.push({ sessionId, fromVersion: read.migratedFrom });
+          }
+          if (read.stale) {
+            result.stale.push(sessionId);
+          }
+        }
+      } catch (err) {
+        if (err instanceof SessionKeyError) {
+          throw err; // Readable with the right key, so never quarantined
+        }
+        result.invalid.push({ sessionId, error: err instanceof Error ? err.message : 'Unknown error' });
+        await this.quarantineCorruptFile(sessionId, err);
+      }
+    }
+
+    return result;
+  }
+
+  async load(sessionId: string): Promise<Session | undefined> {
+    if (!SESSION_ID_PATTERN.test(sessionId)) {
+      return undefined;
+    }
+
+    try {
+      return (await this.readSessionFile(sessionId))?.session;
+    } catch (err) {
+      if (err instanceof SessionKeyError) {
+        throw err;
+      }
+      return undefined;
+    }
+  }
+
+  async save(sessions: Session[]): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    for (const session of sessions) {
+      const filePath = this.sessionPath(session.sessionId);
+      await withFileLock(filePath, async () => {
+        const stored = await this.readSessionFile(session.sessionId).catch(ignoreUnreadable);
+        if (isSameOrNewer(session, stored?.session)) {
+          await writeFileAtomic(filePath, JSON.stringify(encodeRecord(session, this.cipher), null, 2));
+        }
+      });
+    }
+  }
+
+  async delete(sessions: SessionRef[]): Promise<void> {
+    for (const ref of sessions) {
+      const filePath = this.sessionPath(ref.sessionId);
+      await withFileLock(filePath, async () => {
+        const stored = await this.readSessionFile(ref.sessionId).catch(ignoreUnreadable);
+        if (stored && stored.session.lastActivity <= ref.lastActivity) {
+          await fs.unlink(filePath).catch(() => undefined);
+        }
+      });
+    }
+  }
+
+  async list(): Promise<string[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.directory);
+    } catch (err) {
+      if (err && typeof err === 'object' && 'code' in err && err.code === 'ENOENT') {
+        return [];
+      }
+      throw err;
+    }
+
+    return entries
+      .filter(name => name.endsWith('.json'))
+      .map(name => name.slice(0, -'.json'.length))
+      .filter(sessionId => SESSION_ID_PATTERN.test(sessionId));
+  }
+
+  async close(): Promise<void> {
+    // Nothing held open between operations
+  }
+
+  private sessionPath(sessionId: string): string {
+    if (!SESSION_ID_PATTERN.test(sessionId)) {
+      throw new Error(`Invalid session ID for directory store: ${sessionId}`);
+    }
+    return path.join(this.directory, `${sessionId}.json`);
+  }
+
+  /**
+   * Read and migrate one session file; undefined if missing, throws if unreadable or invalid
+   */
+  private async readSessionFile(sessionId: string): Promise<{ session: Session; migratedFrom?: number; stale: boolean } | undefined> {
+    let data: string;
+    try {
+      data = await fs.readFile(this.sessionPath(sessionId), 'utf-8');
+    } catch (err) {
+      if (err && typeof err === 'object' && 'code' in err && err.code === 'ENOENT') {
+        return undefined;
+      }
+      throw err;
+    }
+
+    const { parsed, stale } = readStoredSession(JSON.parse(data), this.cipher);
+    if (!parsed.ok) {
+      throw new Error(`Invalid session data: ${parsed.error}`);
+    }
+    if (parsed.session.sessionId !== sessionId) {
+      throw new Error('Invalid session data: sessionId does not match file name');
+    }
+    return { ...parsed, stale };
+  }
+
+  /**
+   * Keep an unreadable session file for inspection rather than silently discarding it
+   */
+  private async quarantineCorruptFile(sessionId: string, reason: unknown): Promise<void> {
+    const filePath = this.sessionPath(sessionId);
+    const corruptPath = `${filePath}.corrupt-${Date.now()}`;
+    try {
+      await fs.rename(filePath, corruptPath);
+      this.onEvent('corrupt_session_file_preserved', {
+        sessionId,
+        path: corruptPath,
+        error: reason instanceof Error ? reason.message : 'Unknown error'
+      });
+    } catch (err) {
+      this.onEvent('corrupt_session_file_preserve_failed', {
+        sessionId,
+        error: err instanceof Error ? err.message : 'Unknown error'
+      });
+    }
+  }
+}
+
+/**
+ * Treat a damaged file as absent when deciding whether to overwrite it, but never one that only
+ * fails to decrypt: the right key can still read it
+ */
+function ignoreUnreadable(err: unknown): undefined {
+  if (err instanceof SessionKeyError) {
+    throw err;
+  }
+  return undefined;
+}
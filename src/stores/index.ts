@@ -0,0 +1,122 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { projectStateDir } from '../project-root.js';
+import type { SessionCipher } from '../session-crypto.js';
+import { DirectorySessionStore } from './directory-store.js';
+import { JsonFileSessionStore } from './json-file-store.js';
+import { SqliteSessionStore } from './sqlite-store.js';
+import type { SessionStore, SessionStoreConfig, SessionStoreKind, SessionStoreListener, SessionStoreScope } from './session-store.js';
+
+export type { SessionLoadResult, SessionRef, SessionStore, SessionStoreConfig, SessionStoreKind, SessionStoreListener, SessionStoreScope } from './session-store.js';
+export { DirectorySessionStore, JsonFileSessionStore, SqliteSessionStore };
+
+export const STORE_KINDS: SessionStoreKind[] = ['json-file', 'directory', 'sqlite'];
+export const STORE_SCOPES: SessionStoreScope[] = ['home', 'project'];
+
+/**
+ * Default location for each backend: in the home directory, or under `.spec/.kat/` for a project
+ */
+export function defaultStorePath(kind: SessionStoreKind, projectRoot?: string): string {
+  if (projectRoot) {
+    const stateDir = projectStateDir(projectRoot);
+    switch (kind) {
+      case 'directory':
+        return path.join(stateDir, 'sessions');
+      case 'sqlite':
+        return path.join(stateDir, 'sessions.sqlite');
+      default:
+        return path.join(stateDir, 'session.json');
+    }
+  }
+
+  switch (kind) {
+    case 'directory':
+      return path.join(os.homedir(), '.kat-planner-sessions');
+    case 'sqlite':
+      return path.join(os.homedir(), '.kat-planner-sessions.sqlite');
+    default:
+      return path.join(os.homedir(), '.kat-planner-sessions.json');
+  }
+}
+
+/**
+ * Default location of the archive that expired and evicted sessions are moved to
+ */
+export function defaultArchivePath(kind: SessionStoreKind, projectRoot?: string): string {
+  if (projectRoot) {
+    const stateDir = projectStateDir(projectRoot);
+    switch (kind) {
+      case 'directory':
+        return path.join(stateDir, 'archive');
+      case 'sqlite':
+        return path.join(stateDir, 'archive.sqlite');
+      default:
+        return path.join(stateDir, 'archive.json');
+    }
+  }
+
+  switch (kind) {
+    case 'directory':
+      return path.join(os.homedir(), '.kat-planner-archive');
+    case 'sqlite':
+      return path.join(os.homedir(), '.kat-planner-archive.sqlite');
+    default:
+      return path.join(os.homedir(), '.kat-planner-archive.json');
+  }
+}
+
+/**
+ * Instantiate the archive store for the configured backend
+ */
+export function createArchiveStore(config: SessionStoreConfig, onEvent?: SessionStoreListener, cipher?: SessionCipher): SessionStore {
+  if (config.scope === 'project' && !config.archivePath && !config.projectRoot) {
+    throw new Error('Project-scoped session storage requires a project root');
+  }
+
+  const location = config.archivePath ?? defaultArchivePath(config.kind, config.scope === 'project' ? config.projectRoot : undefined);
+  return instantiateStore(config.kind, location, onEvent, cipher);
+}
+
+/**
+ * Instantiate the configured session store
+ */
+export function createSessionStore(config: SessionStoreConfig, onEvent?: SessionStoreListener, cipher?: SessionCipher): SessionStore {
+  if (config.scope === 'project' && !config.path && !config.projectRoot) {
+    throw new Error('Project-scoped session storage requires a project root');
+  }
+
+  const location = config.path ?? defaultStorePath(config.kind, config.scope === 'project' ? config.projectRoot : undefined);
+  return instantiateStore(config.kind, location, onEvent, cipher);
+}
+
+function instantiateStore(kind: SessionStoreKind, location: string, onEvent?: SessionStoreListener, cipher?: SessionCipher): SessionStore {
+  switch (kind) {
+    case 'directory':
+      return new DirectorySessionStore(location, onEvent, cipher);
+    case 'sqlite':
+      return new SqliteSessionStore(location, onEvent, cipher);
+    case 'json-file':
+      return new JsonFileSessionStore(location, onEvent, cipher);
+  }
+}
+
+/**
+ * Move sessions from a single-file JSON store into another store, e.g. when the default backend
+ * changes. The JSON file is renamed to `<file>.imported` afterwards, records it could not read
+ * included, so it is only imported once. Returns the number of sessions imported.
+ */
+export async function importJsonFileStore(filePath: string, target: SessionStore, onEvent?: SessionStoreListener, cipher?: SessionCipher): Promise<number> {
+  try {
+    await fs.access(filePath);
+  } catch {
+    return 0;
+  }
+
+  const legacy = new JsonFileSessionStore(filePath, onEvent, cipher);
+  const { sessions, invalid } = await legacy.loadAll();
+  await target.save(sessions);
+  await fs.rename(filePath, `${filePath}.imported`);
+  onEvent?.('json_store_imported', { from: filePath, to: target.location, imported: sessions.length, skipped: invalid.length });
+  return sessions.length;
+}
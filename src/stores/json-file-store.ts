@@ -0,0 +1,173 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { withFileLock, writeFileAtomic } from '../file-lock.js';
+import { encodeRecord, SessionCipher, SessionKeyError } from '../session-crypto.js';
+import type { Session } from '../session-schema.js';
+import { collectLoadedSession, isSameOrNewer, readStoredSession, SessionLoadResult, SessionRef, SessionStore, SessionStoreListener } from './session-store.js';
+
+/**
+ * All sessions in a single JSON file, as `[sessionId, session]` entries.
+ *
+ * Every write takes the shared lock, re-reads the file and merges into it, then
+ * atomically replaces it, so concurrent processes never drop each other's sessions.
+ */
+export class JsonFileSessionStore implements SessionStore {
+  readonly kind = 'json-file' as const;
+
+  constructor(
+    private readonly filePath: string,
+    private readonly onEvent: SessionStoreListener = () => undefined,
+    private readonly cipher?: SessionCipher
+  ) {}
+
+  get location(): string {
+    return this.filePath;
+  }
+
+  async loadAll(): Promise<SessionLoadResult> {
+    const data = await this.readFile();
+    if (data === undefined) {
+      return { sessions: [], invalid: [], migrated: [], stale: [] };
+    }
+
+    try {
+      return this.parse(data).result;
+    } catch (err) {
+      if (err instanceof SessionKeyError) {
+        throw err;
+      }
+      // Another process may have replaced the file since we read it; re-read under the lock,
+      // which moves a still-corrupt file aside
+      const recovered = await withFileLock(this.filePath, () => this.readForUpdate());
+      return { sessions: Array.from(recovered.sessions.values()), invalid: [], migrated: [], stale: [] };
+    }
+  }
+
+  async load(sessionId: string): Promise<Session | undefined> {
+    const { sessions } = await this.loadAll();
+    return sessions.find(session => session.sessionId === sessionId);
+  }
+
+  async save(sessions: Session[]): Promise<void> {
+    await this.update(stored => {
+      for (const session of sessions) {
+        if (isSameOrNewer(session, stored.get(session.sessionId))) {
+          stored.set(session.sessionId, session);
+        }
+      }
+    });
+  }
+
+  async delete(sessions: SessionRef[]): Promise<void> {
+    await this.update(stored => {
+      for (const ref of sessions) {
+        const existing = stored.get(ref.sessionId);
+        if (existing && existing.lastActivity <= ref.lastActivity) {
+          stored.delete(ref.sessionId);
+        }
+      }
+    });
+  }
+
+  async list(): Promise<string[]> {
+    const { sessions } = await this.loadAll();
+    return sessions.map(session => session.sessionId);
+  }
+
+  async close(): Promise<void> {
+    // Nothing held open between operations
+  }
+
+  /**
+   * Read-modify-write the whole file under the shared lock
+   */
+  private async update(mutate: (stored: Map<string, Session>) => void): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    await withFileLock(this.filePath, async () => {
+      const { sessions: stored, unreadable } = await this.readForUpdate();
+      mutate(stored);
+      // Records this version cannot read (e.g. from a newer server) are written back untouched
+      const kept = unreadable.filter(([id]) => !stored.has(id));
+      const entries = Array.from(stored.entries()).map(([id, session]) => [id, encodeRecord(session, this.cipher)]);
+      await writeFileAtomic(this.filePath, JSON.stringify([...kept, ...entries], null, 2));
+    });
+  }
+
+  /**
+   * Read the current file while holding the lock. A corrupt file is moved aside instead of being overwritten.
+   */
+  private async readForUpdate(): Promise<{ sessions: Map<string, Session>; unreadable: Array<[string, unknown]> }> {
+    const data = await this.readFile();
+    if (data === undefined) {
+      return { sessions: new Map(), unreadable: [] };
+    }
+
+    try {
+      const { result, unreadable } = this.parse(data);
+      return {
+        sessions: new Map(result.sessions.map(session => [session.sessionId, session])),
+        unreadable
+      };
+    } catch (err) {
+      if (err instanceof SessionKeyError) {
+        throw err; // Readable with the right key, so never moved aside or overwritten
+      }
+      await this.quarantineCorruptFile(err);
+      return { sessions: new Map(), unreadable: [] };
+    }
+  }
+
+  private async readFile(): Promise<string | undefined> {
+    try {
+      return await fs.readFile(this.filePath, 'utf-8');
+    } catch (err) {
+      if (err && typeof err === 'object' && 'code' in err && err.code === 'ENOENT') {
+        return undefined;
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Parse the file contents, migrating older records and separating valid sessions from invalid ones
+   */
+  private parse(data: string): { result: SessionLoadResult; unreadable: Array<[string, unknown]> } {
+    const entries = JSON.parse(data);
+
+    if (!Array.isArray(entries)) {
+      throw new Error('Invalid session file format - not an array');
+    }
+
+    const result: SessionLoadResult = { sessions: [], invalid: [], migrated: [], stale: [] };
+    const unreadable: Array<[string, unknown]> = [];
+
+    for (const [id, record] of entries) {
+      const read = readStoredSession(record, this.cipher);
+      collectLoadedSession(result, String(id), read);
+      if (!read.parsed.ok) {
+        unreadable.push([String(id), record]);
+      }
+    }
+
+    return { result, unreadable };
+  }
+
+  /**
+   * Keep an unreadable session file for inspection rather than silently discarding it
+   */
+  private async quarantineCorruptFile(reason: unknown): Promise<void> {
+    const corruptPath = `${this.filePath}.corrupt-${Date.now()}`;
+    try {
+      await fs.rename(this.filePath, corruptPath);
+      this.onEvent('corrupt_session_file_preserved', {
+        path: corruptPath,
+        error: reason instanceof Error ? reason.message : 'Unknown error'
+      });
+    } catch (err) {
+      this.onEvent('corrupt_session_file_preserve_failed', {
+        error: err instanceof Error ? err.message : 'Unknown error'
+      });
+    }
+  }
+}
@@ -0,0 +1,108 @@
+import { decodeRecord, SessionCipher } from '../session-crypto.js';
+import { parseSessionRecord, SessionParseResult } from '../session-migrations.js';
+import type { Session } from '../session-schema.js';
+
+/**
+ * Available session persistence backends
+ */
+export type SessionStoreKind = 'json-file' | 'directory' | 'sqlite';
+
+/**
+ * Where sessions live by default: the user's home directory or the project being planned
+ */
+export type SessionStoreScope = 'home' | 'project';
+
+/**
+ * Backend selection; `path` defaults to a per-kind location under the scope's directory
+ */
+export interface SessionStoreConfig {
+  kind: SessionStoreKind;
+  scope: SessionStoreScope;
+  path?: string;
+  archivePath?: string; // Where expired and evicted sessions are kept
+  projectRoot?: string; // Required for project scope unless `path` is set
+}
+
+/**
+ * Identifies a stored session together with the last activity the caller observed
+ */
+export type SessionRef = Pick<Session, 'sessionId' | 'lastActivity'>;
+
+/**
+ * Result of loading every stored session. Records in an older format are migrated to the
+ * current schema; records that still fail validation are reported by ID rather than thrown.
+ */
+export interface SessionLoadResult {
+  sessions: Session[];
+  invalid: Array<{ sessionId: string; error: string }>;
+  migrated: Array<{ sessionId: string; fromVersion: number }>;
+  stale: string[]; // Stored as plaintext or with a previous encryption key; should be written again
+}
+
+/**
+ * Receives store-level events (corruption recovery, etc.) for logging
+ */
+export type SessionStoreListener = (event: string, details?: Record<string, unknown>) => void;
+
+/**
+ * Persistence backend for planning sessions.
+ *
+ * Stores may be shared by several kat-planner processes, so writes are per session
+ * and never replace a copy that another process has touched more recently.
+ */
+export interface SessionStore {
+  readonly kind: SessionStoreKind;
+  readonly location: string;
+
+  /** Load every stored session */
+  loadAll(): Promise<SessionLoadResult>;
+
+  /** Load a single session, or undefined if it is not stored */
+  load(sessionId: string): Promise<Session | undefined>;
+
+  /** Insert or update sessions; a stored copy with newer activity wins */
+  save(sessions: Session[]): Promise<void>;
+
+  /** Delete sessions unless they have been active since the caller last saw them */
+  delete(sessions: SessionRef[]): Promise<void>;
+
+  /** List stored session IDs */
+  list(): Promise<string[]>;
+
+  /** Release any open handles */
+  close(): Promise<void>;
+}
+
+/**
+ * Decrypt, migrate and validate one stored record.
+ * Throws SessionKeyError if the record cannot be decrypted with the configured keys.
+ */
+export function readStoredSession(raw: unknown, cipher: SessionCipher | undefined): { parsed: SessionParseResult; stale: boolean } {
+  const { value, stale } = decodeRecord(raw, cipher);
+  return { parsed: parseSessionRecord(value), stale };
+}
+
+/**
+ * Add one read record to a load result
+ */
+export function collectLoadedSession(result: SessionLoadResult, sessionId: string, read: { parsed: SessionParseResult; stale: boolean }): void {
+  const { parsed, stale } = read;
+  if (!parsed.ok) {
+    result.invalid.push({ sessionId, error: parsed.error });
+    return;
+  }
+  result.sessions.push(parsed.session);
+  if (parsed.migratedFrom !== undefined) {
+    result.migrated.push({ sessionId, fromVersion: parsed.migratedFrom });
+  }
+  if (stale) {
+    result.stale.push(sessionId);
+  }
+}
+
+/**
+ * Whether an incoming session should replace the stored copy
+ */
+export function isSameOrNewer(incoming: SessionRef, stored: SessionRef | undefined): boolean {
+  return !stored || incoming.lastActivity >= stored.lastActivity;
+}
@@ -0,0 +1,147 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type BetterSqlite3 from 'better-sqlite3';
+import { encodeRecord, SessionCipher, SessionKeyError } from '../session-crypto.js';
+import type { SessionParseResult } from '../session-migrations.js';
+import type { Session } from '../session-schema.js';
+import { collectLoadedSession, readStoredSession, SessionLoadResult, SessionRef, SessionStore, SessionStoreListener } from './session-store.js';
+
+/**
+ * Sessions in an embedded SQLite database, one row per session.
+ *
+ * Uses WAL mode and a busy timeout so several kat-planner processes can share the
+ * database. Requires the optional `better-sqlite3` dependency.
+ */
+export class SqliteSessionStore implements SessionStore {
+  readonly kind = 'sqlite' as const;
+  private db: BetterSqlite3.Database | null = null;
+
+  constructor(
+    private readonly dbPath: string,
+    private readonly onEvent: SessionStoreListener = () => undefined,
+    private readonly cipher?: SessionCipher
+  ) {}
+
+  get location(): string {
+    return this.dbPath;
+  }
+
+  async loadAll(): Promise<SessionLoadResult> {
+    const rows = this.open()
+      .prepare('SELECT session_id, data FROM sessions')
+      .all() as Array<{ session_id: string; data: string }>;
+
+    const result: SessionLoadResult = { sessions: [], invalid: [], migrated: [], stale: [] };
+
+    for (const row of rows) {
+      collectLoadedSession(result, row.session_id, this.parseRow(row.data));
+    }
+
+    return result;
+  }
+
+  async load(sessionId: string): Promise<Session | undefined> {
+    const row = this.open()
+      .prepare('SELECT data FROM sessions WHERE session_id = ?')
+      .get(sessionId) as { data: string } | undefined;
+
+    if (!row) {
+      return undefined;
+    }
+    const { parsed } = this.parseRow(row.data);
+    return parsed.ok ? parsed.session : undefined;
+  }
+
+  async save(sessions: Session[]): Promise<void> {
+    const db = this.open();
+    const upsert = db.prepare(`
+      INSERT INTO sessions (session_id, state, created_at, last_activity, data)
+      VALUES (@sessionId, @state, @createdAt, @lastActivity, @data)
+      ON CONFLICT(session_id) DO UPDATE SET
+        state = excluded.state,
+        last_activity = excluded.last_activity,
+        data = excluded.data
+      WHERE excluded.last_activity >= sessions.last_activity
+    `);
+
+    db.transaction((batch: Session[]) => {
+      for (const session of batch) {
+        upsert.run({
+          sessionId: session.sessionId,
+          state: session.state,
+          createdAt: session.createdAt,
+          lastActivity: session.lastActivity,
+          data: JSON.stringify(encodeRecord(session, this.cipher))
+        });
+      }
+    })(sessions);
+  }
+
+  async delete(sessions: SessionRef[]): Promise<void> {
+    const db = this.open();
+    const remove = db.prepare('DELETE FROM sessions WHERE session_id = ? AND last_activity <= ?');
+
+    db.transaction((refs: SessionRef[]) => {
+      for (const ref of refs) {
+        remove.run(ref.sessionId, ref.lastActivity);
+      }
+    })(sessions);
+  }
+
+  async list(): Promise<string[]> {
+    return this.open()
+      .prepare('SELECT session_id FROM sessions ORDER BY created_at')
+      .pluck()
+      .all() as string[];
+  }
+
+  async close(): Promise<void> {
+    this.db?.close();
+    this.db = null;
+  }
+
+  /**
+   * Open the database on first use and make sure the schema exists
+   */
+  private open(): BetterSqlite3.Database {
+    if (this.db) {
+      return this.db;
+    }
+
+    let Database: typeof BetterSqlite3;
+    try {
+      Database = require('better-sqlite3');
+    } catch (err) {
+      throw new Error('The sqlite session store requires the optional "better-sqlite3" package to be installed');
+    }
+
+    fs.mkdirSync(path.dirname(this.dbPath), { recursive: true });
+
+    const db = new Database(this.dbPath);
+    db.pragma('journal_mode = WAL');
+    db.pragma('busy_timeout = 5000');
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS sessions (
+        session_id TEXT PRIMARY KEY,
+        state TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        last_activity INTEGER NOT NULL,
+        data TEXT NOT NULL
+      )
+    `);
+
+    this.db = db;
+    this.onEvent('sqlite_store_opened', { path: this.dbPath });
+    return db;
+  }
+
+  private parseRow(data: string): { parsed: SessionParseResult; stale: boolean } {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(data);
+    } catch (err) {
+      return { parsed: { ok: false, error: err instanceof Error ? err.message : 'unparseable JSON' }, stale: false };
+    }
+    return readStoredSession(raw, this.cipher); // Key errors propagate: the row is fine, the key is not
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * One line of a line-by-line comparison: kept (' '), removed ('-') or added ('+')
+ */
+interface DiffLine {
+  op: ' ' | '-' | '+';
+  text: string;
+}
+
+/**
+ * Unified diff of two texts, line by line, with `context` unchanged lines around each change.
+ * Returns an empty string when the texts are the same.
+ */
+export function unifiedDiff(before: string, after: string, labels: { from: string; to: string }, context = 3): string {
+  const lines = diffLines(before.split('\n'), after.split('\n'));
+  const changed = lines.flatMap((line, index) => (line.op === ' ' ? [] : [index]));
+  if (changed.length === 0) {
+    return '';
+  }
+
+  // Changes at most two contexts apart share a hunk, as do hunks that would touch
+  const hunks: Array<{ start: number; end: number }> = [];
+  for (const index of changed) {
+    const last = hunks[hunks.length - 1];
+    if (last && index - context <= last.end + 1) {
+      last.end = Math.min(lines.length - 1, index + context);
+    } else {
+      hunks.push({ start: Math.max(0, index - context), end: Math.min(lines.length - 1, index + context) });
+    }
+  }
+
+  const output = [`--- ${labels.from}`, `+++ ${labels.to}`];
+  for (const hunk of hunks) {
+    const preceding = lines.slice(0, hunk.start);
+    const body = lines.slice(hunk.start, hunk.end + 1);
+    const oldBefore = preceding.filter(line => line.op !== '+').length;
+    const newBefore = preceding.filter(line => line.op !== '-').length;
+    const oldCount = body.filter(line => line.op !== '+').length;
+    const newCount = body.filter(line => line.op !== '-').length;
+    output.push(`@@ -${oldCount === 0 ? oldBefore : oldBefore + 1},${oldCount} +${newCount === 0 ? newBefore : newBefore + 1},${newCount} @@`);
+    output.push(...body.map(line => `${line.op}${line.text}`));
+  }
+  return output.join('\n');
+}
+
+/**
+ * Line-level edit script from the longest common subsequence of the two line lists
+ */
+function diffLines(before: string[], after: string[]): DiffLine[] {
+  const width = after.length + 1;
+  // common[i * width + j]: length of the LCS of before[i..] and after[j..]
+  const common = new Uint32Array((before.length + 1) * width);
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      common[i * width + j] = before[i] === after[j]
+        ? common[(i + 1) * width + j + 1]! + 1
+        : Math.max(common[(i + 1) * width + j]!, common[i * width + j + 1]!);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      lines.push({ op: ' ', text: before[i]! });
+      i++;
+      j++;
+    } else if (common[(i + 1) * width + j]! >= common[i * width + j + 1]!) {
+      lines.push({ op: '-', text: before[i]! });
+      i++;
+    } else {
+      lines.push({ op: '+', text: after[j]! });
+      j++;
+    }
+  }
+  lines.push(...before.slice(i).map(text => ({ op: '-' as const, text })));
+  lines.push(...after.slice(j).map(text => ({ op: '+' as const, text })));
+  return lines;
+}
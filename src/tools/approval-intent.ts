@@ -0,0 +1,325 @@
+/**
+ * Approval intent: decides whether a user's reply approves the plan, refuses it, or approves it only
+ * once something changes, in the user's own words and in any of the supported languages
+ */
+
+export type ApprovalDecision = 'approve' | 'reject' | 'conditional' | 'unclear';
+
+/**
+ * How a reply was classified
+ */
+export interface ApprovalIntent {
+  decision: ApprovalDecision;
+  confidence: number;        // 0–1
+  signals: string[];         // Terms the decision rests on, e.g. "ok", "not proceed"
+  revisionRequest?: string;  // What a conditional approval asks to change
+}
+
+/**
+ * Confidence an approve decision needs before it is acted on
+ */
+export const APPROVAL_CONFIDENCE_THRESHOLD = 0.7;
+
+// Terms that approve, by language. Longer phrases win over the shorter terms they contain ("no problem" over "no").
+const APPROVE_TERMS = [
+  // English
+  'yes', 'yep', 'yeah', 'yup', 'sure', 'ok', 'okay', 'fine', 'approve', 'approved', 'i approve', 'lgtm',
+  'looks good', 'look good', 'looks great', 'sounds good', 'all good', 'go ahead', 'go for it', 'proceed', 'continue',
+  'ship it', 'agreed', 'i agree', 'confirm', 'confirmed', 'good to go', 'documents look good', 'ready for development',
+  'no problem', 'no objections', 'no changes', 'why not', 'let\'s go', 'perfect', '👍', '✅',
+  // Spanish
+  'sí', 'si', 'vale', 'de acuerdo', 'aprobado', 'apruebo', 'adelante', 'continúa', 'continua', 'procede', 'perfecto', 'sin cambios',
+  // French
+  'oui', 'd\'accord', 'ok pour moi', 'approuvé', 'j\'approuve', 'vas-y', 'allez-y', 'continuez', 'parfait', 'ça me va', 'c\'est bon',
+  // German
+  'ja', 'genehmigt', 'einverstanden', 'passt', 'weiter', 'los geht\'s', 'sieht gut aus', 'in ordnung', 'freigegeben',
+  // Portuguese
+  'sim', 'aprovado', 'pode seguir', 'prossiga', 'pode continuar', 'tudo certo',
+  // Italian
+  'sì', 'va bene', 'approvato', 'procedi', 'avanti', 'perfetto',
+  // Dutch
+  'akkoord', 'goedgekeurd', 'prima', 'ga door',
+  // Russian
+  'да', 'одобрено', 'согласен', 'согласна', 'продолжай', 'продолжайте', 'хорошо',
+  // Chinese
+  '是', '好', '好的', '可以', '同意', '批准', '继续', '没问题',
+  // Japanese
+  'はい', '承認', '承認します', '進めて', '進めてください', 'オッケー', 'いいです', '問題ない'
+];
+
+// Terms that refuse or defer, by language
+const REJECT_TERMS = [
+  // English
+  'no', 'nope', 'nah', 'not yet', 'reject', 'rejected', 'i reject', 'wait', 'hold on', 'hold off', 'stop', 'cancel',
+  'not ready', 'needs work', 'needs changes', 'no way', 'not approved', 'disapprove', 'decline', 'declined', '👎', '❌',
+  // Spanish
+  'todavía no', 'aún no', 'rechazado', 'rechazo', 'espera',
+  // French
+  'non', 'pas encore', 'refusé', 'je refuse', 'attends', 'attendez',
+  // German
+  'nein', 'noch nicht', 'abgelehnt', 'warte', 'stopp',
+  // Portuguese
+  'não', 'ainda não', 'rejeitado', 'espere',
+  // Italian
+  'non ancora', 'rifiutato', 'aspetta',
+  // Dutch
+  'nee', 'nog niet', 'afgewezen', 'wacht',
+  // Russian
+  'нет', 'не сейчас', 'пока нет', 'подожди', 'отклонено',
+  // Chinese
+  '不', '不是', '不好', '不要', '不行', '不可以', '不同意', '拒绝', '等等', '还没', '先别', '别继续',
+  // Japanese
+  'いいえ', 'だめ', 'ダメ', 'まだ', '待って', '進めないで', '承認しません'
+];
+
+// Words that turn the approval term that follows them into a refusal ("not ok", "don't proceed")
+const NEGATORS = new Set([
+  'not', 'don\'t', 'dont', 'do not', 'never', 'isn\'t', 'doesn\'t', 'can\'t', 'cannot', 'won\'t', 'shouldn\'t', 'hardly',
+  'no', 'nothing', 'none', 'nobody', 'ne', 'pas', 'nicht', 'kein', 'keine', 'não', 'nao', 'non', 'niet', 'не', 'ни'
+]);
+
+// Negators that follow the term they negate ("passt nicht", "d'accord pas")
+const TRAILING_NEGATORS = new Set(['nicht', 'pas', 'niet', 'not']);
+
+// Punctuation ending the clause a negator applies within
+const CLAUSE_BREAKS = [',', '.', ';', '!', '?', '，', '。', '、'];
+
+// Words after which the rest of the reply is a condition or a change ("yes, but …", "ok if …")
+const CONTRAST_MARKERS = [
+  'but', 'however', 'except', 'though', 'although', 'as long as', 'provided', 'if', 'only if',
+  'pero', 'excepto', 'siempre que', 'mais', 'sauf', 'à condition que', 'aber', 'außer', 'wenn', 'falls', 'sofern',
+  'mas', 'porém', 'desde que', 'ma', 'però', 'purché', 'maar', 'behalve', 'но', 'кроме', 'если',
+  '但是', '但', '不过', '只是', '如果', 'ただし', 'でも', 'けど', 'しかし'
+];
+
+// Contrast markers that make the rest of the reply a condition rather than a change
+const CONDITION_MARKERS = new Set([
+  'if', 'only if', 'as long as', 'provided', 'siempre que', 'à condition que', 'wenn', 'falls', 'sofern', 'desde que',
+  'purché', 'если', '如果'
+]);
+
+// Words a condition needs more than to ask for something ("if you must", "if that's needed")
+const FILLER_WORDS = new Set([
+  'you', 'i', 'we', 'they', 'it', 'it\'s', 'that', 'that\'s', 'this', 'so', 'really', 'must', 'have', 'to', 'need', 'needed',
+  'needs', 'necessary', 'want', 'wish', 'like', 'think', 'insist', 'please', 'possible', 'is', 'are', 'be', 'do', 'does',
+  'can', 'could', 'should', 'would', 'will', 'the', 'a', 'there', 'me', 'us', 'for', 'with', 'too', 'then', 'anyway'
+]);
+
+// Words before which the reply is a change, with approval after ("change X, otherwise fine")
+const TRAILING_CONTRAST_MARKERS = ['otherwise', 'apart from that', 'other than that', 'sinon', 'sonst', 'por lo demás', 'de resto', 'altrimenti', 'иначе', '除此之外', 'それ以外は'];
+
+// Whole replies of one letter, as typed at a y/n prompt
+const SINGLE_LETTER_REPLIES: Record<string, ApprovalDecision> = { y: 'approve', n: 'reject' };
+
+// Scripts written without spaces between words; their terms are matched anywhere in the text
+const UNSPACED = /[぀-ヿ㐀-鿿]/;
+
+interface Match {
+  term: string;
+  start: number;
+  end: number;
+  approve: boolean;
+}
+
+/**
+ * Classify a reply to "do you approve?". Negated approvals ("not ok", "don't proceed") count as
+ * refusals, and an approval followed by a change or condition ("yes, but use PostgreSQL") is
+ * conditional, with the change as its revision request.
+ */
+export function classifyApproval(reply: string): ApprovalIntent {
+  const text = reply.normalize('NFKC').replace(/[‘’`´]/g, '\'').replace(/\s+/g, ' ').trim();
+  if (!text) {
+    return { decision: 'unclear', confidence: 0, signals: [] };
+  }
+  const single = SINGLE_LETTER_REPLIES[text.toLowerCase()];
+  if (single) {
+    return { decision: single, confidence: 0.85, signals: [text.toLowerCase()] };
+  }
+
+  const split = splitAtContrast(text);
+  if (split && split.change) {
+    const approval = score(split.approval);
+    const change = score(split.change);
+    // "yes but not yet" defers rather than asking for a change, and "ok, though go ahead" is plain approval
+    const deferred = change.decision === 'reject' && wordCount(split.change) <= 4;
+    if (approval.decision === 'approve' && (deferred || (change.decision === 'approve' && onlyTerms(split.change)))) {
+      return { ...change, confidence: round(Math.min(approval.confidence, change.confidence)), signals: [...approval.signals, ...change.signals] };
+    }
+    if (approval.decision === 'approve' && CONDITION_MARKERS.has(split.marker) && !asksForSomething(split.change)) {
+      // "proceed if you must" hedges the approval without naming a change
+      return { decision: 'unclear', confidence: 0.5, signals: [...approval.signals, `${split.marker} ${split.change}`] };
+    }
+    if (approval.decision === 'approve') {
+      return {
+        decision: 'conditional',
+        confidence: round(Math.min(approval.confidence, 0.9)),
+        signals: [...approval.signals, `${split.marker} …`],
+        revisionRequest: split.change
+      };
+    }
+  }
+  return score(text);
+}
+
+/**
+ * Tally the approving and refusing terms in a piece of text
+ */
+function score(text: string): ApprovalIntent {
+  const lower = normalize(text);
+  const matches = findMatches(lower);
+  const consumed = new Set<Match>();
+  const signals: string[] = [];
+  let approvals = 0;
+  let rejections = 0;
+
+  for (const match of matches.filter(candidate => candidate.approve)) {
+    const negation = negationOf(lower, match, matches);
+    if (negation) {
+      // A negator that is itself a refusal ("non approvato") counts once
+      if (negation.within) {
+        consumed.add(negation.within);
+      }
+      rejections++;
+      signals.push(negation.trailing ? `${match.term} ${negation.word}` : `${negation.word} ${match.term}`);
+    } else {
+      approvals++;
+      signals.push(match.term);
+    }
+  }
+  for (const match of matches.filter(candidate => !candidate.approve && !consumed.has(candidate))) {
+    rejections++;
+    signals.push(match.term);
+  }
+
+  if (approvals === rejections) {
+    return { decision: 'unclear', confidence: approvals === 0 ? 0 : 0.5, signals };
+  }
+  const agreeing = Math.max(approvals, rejections);
+  const confidence = (agreeing / (approvals + rejections)) * (agreeing > 1 ? 0.95 : 0.85);
+  return { decision: approvals > rejections ? 'approve' : 'reject', confidence: round(confidence), signals };
+}
+
+/**
+ * Every approving and refusing term in a text, keeping the longest where terms overlap
+ */
+function findMatches(text: string): Match[] {
+  const candidates: Match[] = [];
+  for (const [terms, approve] of [[APPROVE_TERMS, true], [REJECT_TERMS, false]] as const) {
+    for (const term of terms) {
+      const wanted = normalize(term);
+      for (const index of occurrences(text, wanted)) {
+        candidates.push({ term, start: index, end: index + wanted.length, approve });
+      }
+    }
+  }
+
+  candidates.sort((a, b) => (b.end - b.start) - (a.end - a.start) || a.start - b.start);
+  const kept: Match[] = [];
+  for (const candidate of candidates) {
+    if (!kept.some(match => candidate.start < match.end && match.start < candidate.end)) {
+      kept.push(candidate);
+    }
+  }
+  return kept.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * The negator reversing an approving term: one of the three words before it in the same clause, or a
+ * trailing negator right after it. Negators inside another approving term ("no objections") do not count.
+ */
+function negationOf(text: string, match: Match, matches: Match[]): { word: string; trailing?: boolean; within?: Match } | undefined {
+  const termAt = (position: number) => matches.find(other => other !== match && position >= other.start && position < other.end);
+  const candidate = (word: string, start: number) => {
+    const within = termAt(start);
+    return NEGATORS.has(word) && !within?.approve ? { word, within } : undefined;
+  };
+
+  const before = text.slice(0, match.start);
+  const clauseStart = Math.max(...CLAUSE_BREAKS.map(mark => before.lastIndexOf(mark))) + 1;
+  const words = wordsOf(before.slice(clauseStart), clauseStart).slice(-3);
+  for (let i = words.length - 1; i >= 0; i--) {
+    const previous = words[i - 1];
+    const found = (previous && candidate(`${previous.word} ${words[i]!.word}`, previous.start)) || candidate(words[i]!.word, words[i]!.start);
+    if (found) {
+      return found;
+    }
+  }
+
+  const after = text.slice(match.end);
+  const next = wordsOf(after, match.end)[0];
+  if (next && TRAILING_NEGATORS.has(next.word) && !CLAUSE_BREAKS.some(mark => after.slice(0, next.start - match.end).includes(mark))) {
+    const found = candidate(next.word, next.start);
+    return found && { ...found, trailing: true };
+  }
+  return undefined;
+}
+
+/**
+ * Split a reply at its first contrast or condition into the approving part and the change it asks
+ * for. Works on the reply as written, so the change keeps its original wording.
+ */
+function splitAtContrast(text: string): { approval: string; change: string; marker: string } | undefined {
+  let best: { index: number; marker: string; trailing: boolean } | undefined;
+  for (const [markers, trailing] of [[CONTRAST_MARKERS, false], [TRAILING_CONTRAST_MARKERS, true]] as const) {
+    for (const marker of markers) {
+      const index = occurrences(text, marker, 'i')[0];
+      if (index !== undefined && index > 0 && (!best || index < best.index)) {
+        best = { index, marker, trailing };
+      }
+    }
+  }
+  if (!best) {
+    return undefined;
+  }
+
+  const head = trimClause(text.slice(0, best.index));
+  const tail = trimClause(text.slice(best.index + best.marker.length));
+  return best.trailing ? { approval: tail, change: head, marker: best.marker } : { approval: head, change: tail, marker: best.marker };
+}
+
+/**
+ * Start indexes of a term in a text, as whole words unless the term is in an unspaced script
+ */
+function occurrences(text: string, term: string, flags = ''): number[] {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const pattern = UNSPACED.test(term) ? escaped : `(?<![\\p{L}\\p{N}'])${escaped}(?![\\p{L}\\p{N}'])`;
+  return Array.from(text.matchAll(new RegExp(pattern, `gu${flags}`)), found => found.index ?? 0);
+}
+
+/**
+ * Whether a text says nothing beyond its approving and refusing terms
+ */
+function onlyTerms(text: string): boolean {
+  const lower = normalize(text);
+  const rest = findMatches(lower).reduceRight((remaining, match) => remaining.slice(0, match.start) + remaining.slice(match.end), lower);
+  return !/[\p{L}\p{N}]/u.test(rest);
+}
+
+/**
+ * Whether a condition names something to do, beyond approving terms and filler words
+ */
+function asksForSomething(text: string): boolean {
+  const lower = normalize(text);
+  const rest = findMatches(lower).reduceRight((remaining, match) => remaining.slice(0, match.start) + ' ' + remaining.slice(match.end), lower);
+  return wordsOf(rest, 0).some(({ word }) => !FILLER_WORDS.has(word));
+}
+
+function wordsOf(text: string, offset: number): Array<{ word: string; start: number }> {
+  return Array.from(text.matchAll(/[\p{L}\p{N}']+/gu), found => ({ word: found[0], start: offset + (found.index ?? 0) }));
+}
+
+function normalize(text: string): string {
+  return text.normalize('NFKC').toLowerCase().replace(/[‘’`´]/g, '\'').replace(/\s+/g, ' ').trim();
+}
+
+function trimClause(text: string): string {
+  return text.replace(/^[\s,.;:!?，。、-]+|[\s,.;:!?，。、-]+$/g, '');
+}
+
+function wordCount(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
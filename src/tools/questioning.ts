@@ -0,0 +1,172 @@
+/**
+ * Questioning engine: inspects the answers so far and decides whether another round of follow-up
+ * questions is needed before the specification is refined
+ */
+
+import { AnswerValue, ClarifyingQuestion, SpecSection } from './questions.js';
+import { RefinedSpecification, sectionsOf } from './refinement.js';
+
+/**
+ * Rounds asked before questioning moves on regardless of remaining gaps
+ */
+export const MAX_QUESTION_ROUNDS = 5;
+
+/**
+ * A follow-up question and why it is being asked
+ */
+export interface FollowUpQuestion {
+  question: ClarifyingQuestion;
+  reason: string;
+  critical: boolean; // Questioning does not move on while a critical question is unanswered
+}
+
+/**
+ * What the answers so far leave open
+ */
+export interface QuestioningGaps {
+  critical: FollowUpQuestion[];
+  optional: FollowUpQuestion[];
+}
+
+// Topics the answers raise that need a decision of their own: `raised` must match and `settled` must not
+const FOLLOW_UP_RULES: Array<{ raised: RegExp; settled: RegExp; question: ClarifyingQuestion; reason: string; critical: boolean }> = [
+  {
+    raised: /\b(web ?(app|application|site)|website|saas|browser|dashboard|portal)\b/i,
+    settled: /\b(auth\w*|log ?in|sign ?(in|on|up)|sso|oauth|passwords?|magic links?|no accounts?|anonymous)\b/i,
+    question: {
+      id: 'authentication',
+      label: 'Authentication',
+      prompt: 'How will users sign in?',
+      kind: 'single_choice',
+      options: ['Email and password', 'SSO/OAuth', 'Magic links', 'No accounts'],
+      required: false,
+      section: 'constraints'
+    },
+    reason: 'A web app was described without an authentication model',
+    critical: true
+  },
+  {
+    raised: /\b(mobile|phone|tablet|native app)\b/i,
+    settled: /\b(ios|android|iphone|ipad|cross[- ]platform|react native|flutter)\b/i,
+    question: {
+      id: 'mobile_platforms',
+      label: 'Mobile platforms',
+      prompt: 'Which mobile platforms should it target?',
+      kind: 'multi_choice',
+      options: ['iOS', 'Android'],
+      required: false,
+      section: 'platform'
+    },
+    reason: 'A mobile app was described without naming its platforms',
+    critical: true
+  },
+  {
+    raised: /\b(payments?|billing|subscriptions?|checkout|purchases?|invoices?)\b/i,
+    settled: /\b(stripe|paypal|braintree|paddle|adyen|square|app store|play store|in-app purchase)\b/i,
+    question: { id: 'payment_provider', label: 'Payments', prompt: 'Which payment provider should handle billing?', kind: 'free_text', required: false, section: 'constraints' },
+    reason: 'Payments were mentioned without a provider',
+    critical: true
+  },
+  {
+    raised: /\b(teams?|organi[sz]ations?|multi[- ]?user|shared|collaborat\w*|admins?)\b/i,
+    settled: /\b(roles?|permissions?|access control|rbac|owners?|viewers?|editors?)\b/i,
+    question: { id: 'roles_permissions', label: 'Roles and permissions', prompt: 'Which roles exist and what can each of them do?', kind: 'free_text', required: false, section: 'constraints' },
+    reason: 'Several users share data but no roles were described',
+    critical: false
+  },
+  {
+    raised: /\b(store|save|persist|history|records?|accounts?|lists?|data)\b/i,
+    settled: /\b(database|db|postgres\w*|mysql|sqlite|mongo\w*|redis|dynamo\w*|firestore|firebase|supabase|files?|local storage|s3)\b/i,
+    question: {
+      id: 'data_storage',
+      label: 'Data storage',
+      prompt: 'Where should data be stored (for example PostgreSQL, SQLite, a hosted service or local files)?',
+      kind: 'free_text',
+      required: false,
+      section: 'constraints'
+    },
+    reason: 'Data has to be kept but no storage was named',
+    critical: false
+  },
+  {
+    raised: /\boffline\b/i,
+    settled: /\b(sync\w*|conflicts?|merge)\b/i,
+    question: {
+      id: 'offline_sync',
+      label: 'Offline sync',
+      prompt: 'How should changes made offline be synchronized and conflicts resolved?',
+      kind: 'free_text',
+      required: false,
+      section: 'constraints'
+    },
+    reason: 'Offline use was required without a sync strategy',
+    critical: false
+  },
+  {
+    raised: /\b(api|integrat\w*|webhooks?)\b/i,
+    settled: /\b(rest\w*|graphql|grpc|openapi|json-rpc)\b/i,
+    question: {
+      id: 'api_style',
+      label: 'API style',
+      prompt: 'Which style should the API follow?',
+      kind: 'single_choice',
+      options: ['REST', 'GraphQL', 'gRPC'],
+      required: false,
+      section: 'constraints'
+    },
+    reason: 'An API or integration was mentioned without its style',
+    critical: false
+  }
+];
+
+// Sections a specification cannot be refined without
+const CRITICAL_SECTIONS: SpecSection[] = ['objective', 'keyFeatures'];
+
+// What a user says to stop being asked follow-up questions
+const STOP_PATTERN = /\b(that'?s enough|enough (questions|already)|no more questions|stop asking|skip (the )?(rest|follow[- ]?ups?)|let'?s move on)\b/i;
+
+/**
+ * Find what the answers leave open. `asked` holds every question asked so far; optional follow-ups
+ * are only asked once, while unanswered critical ones, and those about the objective or key
+ * features, are asked again.
+ */
+export function findQuestioningGaps(
+  userIdea: string,
+  spec: RefinedSpecification,
+  answers: Record<string, string>,
+  asked: ClarifyingQuestion[]
+): QuestioningGaps {
+  const text = [userIdea, ...Object.values(answers)].join('\n');
+  const alreadyAsked = new Set(asked.map(question => question.id));
+  const unanswered = new Set(spec.unansweredQuestions.map(question => question.id));
+
+  const followUps = FOLLOW_UP_RULES
+    .filter(rule => rule.raised.test(text) && !rule.settled.test(text))
+    .filter(rule => !alreadyAsked.has(rule.question.id) || (rule.critical && unanswered.has(rule.question.id)))
+    .map(({ question, reason, critical }) => ({ question, reason, critical }));
+
+  const unansweredCritical = spec.unansweredQuestions
+    .filter(question => sectionsOf(question).some(section => CRITICAL_SECTIONS.includes(section)))
+    .map(question => ({ question, reason: 'Still unanswered', critical: true }));
+
+  return {
+    critical: [...unansweredCritical, ...followUps.filter(followUp => followUp.critical)],
+    optional: followUps.filter(followUp => !followUp.critical)
+  };
+}
+
+/**
+ * Whether any of the answers asks to stop the questioning
+ */
+export function wantsToStopQuestioning(answers: Record<string, AnswerValue>): boolean {
+  return Object.values(answers).some(value => (Array.isArray(value) ? value : [String(value)]).some(entry => STOP_PATTERN.test(entry)));
+}
+
+/**
+ * Answers without those that only ask to stop the questioning
+ */
+export function withoutStopRequests(answers: Record<string, AnswerValue>): Record<string, AnswerValue> {
+  return Object.fromEntries(Object.entries(answers).filter(([, value]) =>
+    !(Array.isArray(value) ? value : [String(value)]).every(entry => STOP_PATTERN.test(entry) && entry.trim().split(/\s+/).length <= 6)
+  ));
+}
@@ -0,0 +1,246 @@
+/**
+ * Structured clarifying questions: stable ids, answer kinds, options, defaults and required flags,
+ * and validation of the answers given to them
+ */
+
+import { z } from 'zod';
+
+/**
+ * Sections of a refined specification that answers are mapped onto
+ */
+export const SPEC_SECTIONS = ['objective', 'platform', 'targetUsers', 'keyFeatures', 'constraints', 'successCriteria'] as const;
+export type SpecSection = typeof SPEC_SECTIONS[number];
+
+/**
+ * Kinds of answer a question takes
+ */
+export const QUESTION_KINDS = ['single_choice', 'multi_choice', 'free_text', 'number', 'boolean'] as const;
+export type QuestionKind = typeof QUESTION_KINDS[number];
+
+/**
+ * An answer as given in userAnswers
+ */
+export const answerValueSchema = z.union([z.string(), z.array(z.string()), z.number(), z.boolean()]);
+export type AnswerValue = z.infer<typeof answerValueSchema>;
+
+/**
+ * Schema of a clarifying question
+ */
+export const clarifyingQuestionSchema = z.object({
+  id: z.string().regex(/^[a-z][a-z0-9_]*$/, 'expected a lower_snake_case question id'),
+  label: z.string().min(1),                      // Short name, e.g. "Target users"
+  prompt: z.string().min(1),                     // The question put to the user
+  kind: z.enum(QUESTION_KINDS).default('free_text'),
+  options: z.array(z.string().min(1)).optional(), // Choices for single_choice and multi_choice
+  default: answerValueSchema.optional(),         // Used when the question is left unanswered
+  required: z.boolean().default(false),
+  min: z.number().optional(),                    // Bounds for number answers
+  max: z.number().optional(),
+  section: z.enum(SPEC_SECTIONS).optional()      // Specification section the answer fills; inferred from the label when unset
+}).superRefine((question, ctx) => {
+  const choice = question.kind === 'single_choice' || question.kind === 'multi_choice';
+  if (choice && (question.options?.length ?? 0) < 2) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['options'], message: `${question.kind} questions need at least two options` });
+  }
+  if (!choice && question.options) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['options'], message: 'options are only allowed on choice questions' });
+  }
+  if (question.kind !== 'number' && (question.min !== undefined || question.max !== undefined)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['min'], message: 'min and max are only allowed on number questions' });
+  }
+  if (question.default !== undefined) {
+    const checked = checkAnswer(question, question.default);
+    if ('error' in checked) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['default'], message: `invalid default: ${checked.error}` });
+    }
+  }
+});
+
+export type ClarifyingQuestion = z.infer<typeof clarifyingQuestionSchema>;
+
+/**
+ * A problem with one answer in userAnswers, or with a required question left unanswered
+ */
+export interface AnswerError {
+  key: string;         // The userAnswers key, or the question id for a missing answer
+  questionId?: string;
+  message: string;
+}
+
+/**
+ * A free-text question from a "Label: question" line
+ */
+export function questionFromText(text: string, number?: number): ClarifyingQuestion {
+  const colon = text.indexOf(':');
+  const label = colon > 0 ? text.slice(0, colon).trim() : number !== undefined ? `Question ${number}` : text.trim();
+  const prompt = colon > 0 ? text.slice(colon + 1).trim() || text.trim() : text.trim();
+  const slug = label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 40).replace(/_+$/, '');
+  return { id: /^[a-z]/.test(slug) ? slug : `question_${slug || number || 1}`, label, prompt, kind: 'free_text', required: false };
+}
+
+/**
+ * "Target users: Who will use this application?"
+ */
+export function questionText(question: ClarifyingQuestion): string {
+  return `${question.label}: ${question.prompt}`;
+}
+
+/**
+ * A question as listed to the user, with its id and what kind of answer it takes
+ */
+export function describeQuestion(question: ClarifyingQuestion, number: number): string {
+  const details = [`id: ${question.id}`, question.kind.replace('_', ' ')];
+  if (question.options) {
+    details.push(`options: ${question.options.join(' | ')}`);
+  }
+  if (question.min !== undefined || question.max !== undefined) {
+    details.push(`range: ${question.min ?? '…'}–${question.max ?? '…'}`);
+  }
+  if (question.default !== undefined) {
+    details.push(`default: ${Array.isArray(question.default) ? question.default.join(', ') : String(question.default)}`);
+  }
+  if (question.required) {
+    details.push('required');
+  }
+  return `${number}. ${questionText(question)} [${details.join('; ')}]`;
+}
+
+/**
+ * The question a userAnswers key refers to: its id, its number ("1", "q1"), or its label or full text
+ */
+export function findQuestion(key: string, questions: ClarifyingQuestion[]): ClarifyingQuestion | undefined {
+  const byId = questions.find(question => question.id === key);
+  if (byId) {
+    return byId;
+  }
+
+  const numbered = /^(?:q(?:uestion)?)?[\s_#-]*(\d+)$/i.exec(key.trim());
+  if (numbered) {
+    return questions[Number(numbered[1]) - 1];
+  }
+
+  const wanted = normalize(key);
+  return wanted.length < 3 ? undefined : questions.find(question =>
+    normalize(question.label) === wanted || normalize(question.id) === wanted || normalize(questionText(question)) === wanted
+  );
+}
+
+/**
+ * Check an answer against its question, giving the value to store: choices in their option's
+ * spelling, booleans as "yes"/"no", numbers as written
+ */
+export function checkAnswer(question: ClarifyingQuestion, value: AnswerValue): { value: string } | { error: string } {
+  const entries = (Array.isArray(value) ? value : [String(value)]).map(entry => entry.trim()).filter(Boolean);
+  if (entries.length === 0) {
+    return { error: 'expected a non-empty answer' };
+  }
+
+  switch (question.kind) {
+    case 'free_text':
+      return { value: entries.join(', ') };
+
+    case 'number': {
+      if (entries.length > 1) {
+        return { error: 'expected a single number' };
+      }
+      const number = typeof value === 'number' ? value : Number(entries[0]);
+      if (!Number.isFinite(number)) {
+        return { error: `expected a number, got "${entries[0]}"` };
+      }
+      if (question.min !== undefined && number < question.min) {
+        return { error: `must be at least ${question.min}, got ${number}` };
+      }
+      if (question.max !== undefined && number > question.max) {
+        return { error: `must be at most ${question.max}, got ${number}` };
+      }
+      return { value: String(number) };
+    }
+
+    case 'boolean': {
+      const answer = entries.length === 1 ? entries[0]!.toLowerCase() : '';
+      if (['yes', 'y', 'true', '1'].includes(answer)) {
+        return { value: 'yes' };
+      }
+      if (['no', 'n', 'false', '0'].includes(answer)) {
+        return { value: 'no' };
+      }
+      return { error: `expected yes or no, got "${entries.join(', ')}"` };
+    }
+
+    case 'single_choice': {
+      if (entries.length > 1) {
+        return { error: `expected one of: ${question.options!.join(', ')}; got ${entries.length} answers` };
+      }
+      const option = matchOption(question, entries[0]!);
+      return option ? { value: option } : { error: `"${entries[0]}" is not one of: ${question.options!.join(', ')}` };
+    }
+
+    case 'multi_choice': {
+      const chosen = Array.isArray(value) ? entries : entries[0]!.split(/[,;]/).map(entry => entry.trim()).filter(Boolean);
+      const unknown = chosen.filter(entry => !matchOption(question, entry));
+      if (unknown.length > 0) {
+        return { error: `${unknown.map(entry => `"${entry}"`).join(', ')} ${unknown.length === 1 ? 'is' : 'are'} not among: ${question.options!.join(', ')}` };
+      }
+      return { value: Array.from(new Set(chosen.map(entry => matchOption(question, entry)!))).join(', ') };
+    }
+  }
+}
+
+/**
+ * Validate userAnswers against the questions they answer. Answers come back keyed by question id;
+ * unanswered questions take their default, and required ones without a default are errors.
+ */
+export function validateAnswers(
+  questions: ClarifyingQuestion[],
+  given: Record<string, AnswerValue>
+): { answers: Record<string, string>; errors: AnswerError[] } {
+  const answers: Record<string, string> = {};
+  const answeredBy = new Map<string, string>();
+  const errors: AnswerError[] = [];
+
+  for (const [key, value] of Object.entries(given)) {
+    const question = findQuestion(key, questions);
+    if (!question) {
+      errors.push({ key, message: `does not match any question; expected one of: ${questions.map(candidate => candidate.id).join(', ')}` });
+      continue;
+    }
+    const earlier = answeredBy.get(question.id);
+    if (earlier !== undefined) {
+      errors.push({ key, questionId: question.id, message: `answers ${question.id}, which is already answered by "${earlier}"` });
+      continue;
+    }
+    answeredBy.set(question.id, key);
+
+    const checked = checkAnswer(question, value);
+    if ('error' in checked) {
+      errors.push({ key, questionId: question.id, message: checked.error });
+    } else {
+      answers[question.id] = checked.value;
+    }
+  }
+
+  for (const question of questions) {
+    if (answeredBy.has(question.id)) {
+      continue;
+    }
+    if (question.default !== undefined) {
+      const checked = checkAnswer(question, question.default);
+      if ('value' in checked) {
+        answers[question.id] = checked.value;
+      }
+    } else if (question.required) {
+      errors.push({ key: question.id, questionId: question.id, message: `an answer is required (${question.prompt})` });
+    }
+  }
+
+  return { answers, errors };
+}
+
+function matchOption(question: ClarifyingQuestion, answer: string): string | undefined {
+  const wanted = normalize(answer);
+  return question.options?.find(option => normalize(option) === wanted);
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
@@ -1,8 +1,9 @@
 /**
- * Placeholder file for refinement tool implementation
- * This will contain the core logic for project idea refinement
+ * Refinement engine: turns the user's answers to clarifying questions into a structured specification
  */
 
+import { ClarifyingQuestion, findQuestion, questionFromText, questionText, SPEC_SECTIONS, SpecSection } from './questions.js';
+
 export interface RefinementContext {
   projectType: 'new_project' | 'enhancement' | 'bug_fix';
   userIdea: string;
@@ -21,9 +22,202 @@ export interface CodebaseAnalysis {
 }
 
 /**
- * Placeholder refinement function
- * TODO: Implement actual refinement logic with LLM integration
+ * A specification built from the user's answers, with what they have not answered yet
+ */
+export interface RefinedSpecification {
+  project: string;
+  sections: Record<SpecSection, string[]>; // Entries taken from answers, in question order
+  unansweredQuestions: ClarifyingQuestion[];
+  additionalNotes: string[];               // Answers that fit no section, as "key: answer"
+}
+
+// Which sections a question feeds, tried in order against its label (the text before ':') and then its full text
+const SECTION_RULES: Array<{ pattern: RegExp; sections: SpecSection[] }> = [
+  { pattern: /\b(authentication|payments|roles and permissions|data storage|offline sync|api)\b/i, sections: ['constraints'] },
+  { pattern: /\b(core functionality|problems?|objectives?|goals?|purpose)\b/i, sections: ['objective'] },
+  { pattern: /\b(target users?|users?|audience|customers?)\b/i, sections: ['targetUsers'] },
+  { pattern: /\btechnical constraints?\b/i, sections: ['constraints', 'platform'] },
+  { pattern: /\b(constraints?|limitations?|budget|deadlines?|compliance)\b/i, sections: ['constraints'] },
+  { pattern: /\b(platforms?|distributions?|operating systems?|languages?|frameworks?|stack)\b/i, sections: ['platform'] },
+  { pattern: /\b(success|metrics?|measure|kpis?|acceptance)\b/i, sections: ['successCriteria'] },
+  { pattern: /\b(features?|functionality|actions?|buttons?|capabilit(y|ies)|support)\b/i, sections: ['keyFeatures'] }
+];
+
+// Sections rendered as bullet lists; answers to them are split into separate items
+const LIST_SECTIONS = new Set<SpecSection>(['keyFeatures', 'constraints', 'successCriteria']);
+
+const SECTION_TITLES: Record<SpecSection, string> = {
+  objective: 'Objective',
+  platform: 'Platform',
+  targetUsers: 'Target Users',
+  keyFeatures: 'Key Features',
+  constraints: 'Constraints',
+  successCriteria: 'Success Criteria'
+};
+
+const TO_BE_DETERMINED = 'To be determined (not covered by the answers yet)';
+
+/**
+ * Map answers onto specification sections. Answers are keyed by question id, though numbers ("q1"),
+ * labels and full question texts are matched too; anything else is placed by its key.
+ */
+export function refineSpecification(
+  userIdea: string,
+  questions: ClarifyingQuestion[],
+  answers: Record<string, string | string[]>
+): RefinedSpecification {
+  const sections = Object.fromEntries(SPEC_SECTIONS.map(section => [section, [] as string[]])) as Record<SpecSection, string[]>;
+  const answered = new Set<string>();
+  const additionalNotes: string[] = [];
+
+  // Place answers in question order so sections read in the order the user was asked
+  const order = (question: ClarifyingQuestion | undefined) => question ? questions.indexOf(question) : questions.length;
+  const placed = Object.entries(answers)
+    .map(([key, value]) => ({ key, value: toEntries(value), question: findQuestion(key, questions) }))
+    .filter(answer => answer.value.length > 0)
+    .sort((a, b) => order(a.question) - order(b.question));
+
+  for (const answer of placed) {
+    const targets = sectionsOf(answer.question ?? answer.key);
+    if (answer.question) {
+      answered.add(answer.question.id);
+    }
+    if (targets.length === 0) {
+      additionalNotes.push(`${answer.question?.label ?? answer.key}: ${answer.value.join('; ')}`);
+      continue;
+    }
+    for (const section of targets) {
+      sections[section].push(...sectionEntries(answer.question, answer.value, section));
+    }
+  }
+
+  return {
+    project: userIdea,
+    sections,
+    unansweredQuestions: questions.filter(question => !answered.has(question.id)),
+    additionalNotes
+  };
+}
+
+/**
+ * Fold the user's revision requests into a specification, oldest first. Each request is added to the
+ * sections it speaks to like an answer would be, or to the additional notes when it fits none.
+ */
+export function withRevisionRequests(spec: RefinedSpecification, requests: string[]): RefinedSpecification {
+  const sections = Object.fromEntries(SPEC_SECTIONS.map(section => [section, [...spec.sections[section]]])) as Record<SpecSection, string[]>;
+  const additionalNotes = [...spec.additionalNotes];
+
+  requests.forEach((request, index) => {
+    const text = request.trim();
+    if (!text) {
+      return;
+    }
+    const targets = sectionsOf(text);
+    if (targets.length === 0) {
+      additionalNotes.push(`Revision ${index + 1}: ${text}`);
+    }
+    // "Key features: CSV export" is placed by its label, which the entry leaves out
+    const label = labelOf(text);
+    const entry = label !== text && SECTION_RULES.some(rule => rule.pattern.test(label)) ? text.slice(label.length + 1).trim() : text;
+    for (const section of targets) {
+      sections[section].push(...(LIST_SECTIONS.has(section) ? splitItems(entry) : [entry]));
+    }
+  });
+
+  return { ...spec, sections, additionalNotes };
+}
+
+/**
+ * Render a refined specification as the markdown shown to the user and embedded in documents
+ */
+export function formatSpecification(spec: RefinedSpecification): string {
+  const lines = [`**Project:** ${spec.project}`];
+
+  for (const section of SPEC_SECTIONS) {
+    const entries = spec.sections[section];
+    if (LIST_SECTIONS.has(section)) {
+      lines.push(`**${SECTION_TITLES[section]}:**`);
+      lines.push(...(entries.length > 0 ? entries : [TO_BE_DETERMINED]).map(entry => `- ${entry}`));
+    } else {
+      lines.push(`**${SECTION_TITLES[section]}:** ${entries.length > 0 ? entries.join('; ') : TO_BE_DETERMINED}`);
+    }
+  }
+
+  if (spec.additionalNotes.length > 0) {
+    lines.push('**Additional Notes:**', ...spec.additionalNotes.map(note => `- ${note}`));
+  }
+  if (spec.unansweredQuestions.length > 0) {
+    lines.push('**Open Questions:**', ...spec.unansweredQuestions.map(question => `- ${questionText(question)}`));
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Refine an idea from a conversation, treating each user turn as the answer to the assistant turn before it
  */
 export async function refineIdea(context: RefinementContext): Promise<string> {
-  return `Refined specification for: ${context.userIdea}`;
-}
\ No newline at end of file
+  const questions: ClarifyingQuestion[] = [];
+  const answers: Record<string, string> = {};
+  context.conversationHistory.forEach((message, index) => {
+    const previous = context.conversationHistory[index - 1];
+    if (message.role === 'user' && previous?.role === 'assistant') {
+      const question = { ...questionFromText(previous.content, questions.length + 1), id: `question_${questions.length + 1}` };
+      questions.push(question);
+      answers[question.id] = message.content;
+    }
+  });
+  return formatSpecification(refineSpecification(context.userIdea, questions, answers));
+}
+
+/**
+ * Specification sections a question (or an answer key) speaks to: its own section if it names one,
+ * otherwise the first rule its label, then its full text, matches
+ */
+export function sectionsOf(question: ClarifyingQuestion | string): SpecSection[] {
+  if (typeof question !== 'string' && question.section) {
+    return [question.section];
+  }
+  const text = typeof question === 'string' ? question : questionText(question);
+  const label = typeof question === 'string' ? labelOf(question) : question.label;
+  const rule = SECTION_RULES.find(candidate => candidate.pattern.test(label)) ??
+    SECTION_RULES.find(candidate => candidate.pattern.test(text));
+  return rule?.sections ?? [];
+}
+
+/**
+ * "Target users: Who will use this?" → "Target users"
+ */
+function labelOf(question: string): string {
+  const colon = question.indexOf(':');
+  return colon > 0 ? question.slice(0, colon) : question;
+}
+
+function toEntries(value: string | string[]): string[] {
+  return (Array.isArray(value) ? value : [value]).map(entry => entry.trim()).filter(Boolean);
+}
+
+/**
+ * What an answer adds to a section. Free text stands on its own, multi-choice answers become one
+ * entry per option and other kinds are prefixed with the question label ("Button support: 5")
+ * unless the label is the section's own title.
+ */
+function sectionEntries(question: ClarifyingQuestion | undefined, value: string[], section: SpecSection): string[] {
+  if (question?.kind === 'multi_choice') {
+    return value.flatMap(entry => entry.split(',')).map(entry => entry.trim()).filter(Boolean);
+  }
+  if (question && question.kind !== 'free_text' && question.label.toLowerCase() !== SECTION_TITLES[section].toLowerCase()) {
+    return value.map(entry => `${question.label}: ${entry}`);
+  }
+  return LIST_SECTIONS.has(section) ? value.flatMap(splitItems) : value;
+}
+
+/**
+ * Split a list-like answer ("search, tags; due dates") into items, leaving prose answers whole
+ */
+function splitItems(answer: string): string[] {
+  const items = answer
+    .split(/\r?\n|;|,/)
+    .map(item => item.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').replace(/^(?:and|or)\s+/i, '').trim())
+    .filter(Boolean);
+  return items.length > 1 && items.every(item => item.split(/\s+/).length <= 8) ? items : [answer.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '')];
+}
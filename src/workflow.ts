@@ -0,0 +1,336 @@
+import * as fs from 'fs';
+import { z } from 'zod';
+import { Session, SessionState, sessionStateSchema } from './session-schema.js';
+
+/**
+ * Conditions on a session's content that must hold for it to enter a state
+ */
+export const WORKFLOW_GUARDS = ['has_answers', 'has_specification', 'has_documents', 'documents_approved', 'has_development_plan'] as const;
+export type WorkflowGuard = typeof WORKFLOW_GUARDS[number];
+
+/**
+ * Tool parameters that can be required of the call that moves a session into a state
+ */
+export const WORKFLOW_INPUTS = ['userIdea', 'userAnswers', 'explicitApproval', 'revisionRequest'] as const;
+export type WorkflowInput = typeof WORKFLOW_INPUTS[number];
+
+/**
+ * Server handlers a state can be bound to, which carry out the step that enters it. `step` moves
+ * the session into the state and hands the LLM its guidance; the others also do the work of a
+ * built-in step, e.g. `refine` refines the specification from the user's answers.
+ */
+export const WORKFLOW_HANDLERS = ['question', 'refine', 'document_review', 'final_approval', 'development', 'step'] as const;
+export type WorkflowHandler = typeof WORKFLOW_HANDLERS[number];
+
+/**
+ * The tool each handler runs under
+ */
+const HANDLER_TOOLS: Record<WorkflowHandler, string> = {
+  question: 'start_interactive_spec',
+  refine: 'start_interactive_spec',
+  document_review: 'start_interactive_spec',
+  final_approval: 'start_interactive_spec',
+  development: 'start_development',
+  step: 'start_interactive_spec'
+};
+
+const GUARD_CHECKS: Record<WorkflowGuard, (session: Session) => boolean> = {
+  has_answers: session => Object.keys(session.answers ?? {}).length > 0,
+  has_specification: session => Boolean(session.refinedSpecification),
+  has_documents: session => (session.generatedDocuments?.length ?? 0) > 0,
+  documents_approved: session => session.approvalStatus?.overall === true,
+  has_development_plan: session => session.developmentPlan !== undefined
+};
+
+const workflowStateSchema = z.object({
+  name: sessionStateSchema,
+  mode: z.string().regex(/^[a-z][a-z0-9_]*$/).optional(), // start_interactive_spec mode that moves a session into this state
+  tool: z.string().default('start_interactive_spec'),     // Tool that moves a session into this state
+  handler: z.enum(WORKFLOW_HANDLERS).default('step'),      // Server handler that carries out the step into this state
+  transitions: z.array(sessionStateSchema).default([]),   // States a session may move to from here
+  next: sessionStateSchema.optional(),                     // The step the LLM is guided to take from here
+  guards: z.array(z.enum(WORKFLOW_GUARDS)).default([]),
+  requiredInputs: z.array(z.enum(WORKFLOW_INPUTS)).default([]),
+  description: z.string().optional(),                     // What happens in this step, for tool descriptions
+  guidance: z.string().min(1),                             // next_action text while a session is in this state
+  complete: z.boolean().default(false)                     // Planning is finished; the LLM should stop calling tools
+});
+
+/**
+ * Schema of a workflow definition file
+ */
+export const workflowDefinitionSchema = z.object({
+  name: z.string().min(1),
+  initialState: sessionStateSchema,
+  states: z.array(workflowStateSchema).min(1)
+});
+
+export type WorkflowStateDefinition = z.infer<typeof workflowStateSchema>;
+export type WorkflowDefinition = z.infer<typeof workflowDefinitionSchema>;
+
+/**
+ * The built-in specification workflow: question → refine → document review → final approval → development
+ */
+export const DEFAULT_WORKFLOW: WorkflowDefinition = {
+  name: 'kat-planner',
+  initialState: 'questioning',
+  states: [
+    {
+      name: 'questioning',
+      mode: 'question',
+      tool: 'start_interactive_spec',
+      handler: 'question',
+      transitions: ['refining'],
+      next: 'refining',
+      guards: [],
+      requiredInputs: ['userIdea'],
+      description: 'Ask clarifying questions to understand project requirements',
+      guidance: "🚨 USER INPUT REQUIRED: You MUST wait for the user to answer these questions before proceeding. Do NOT answer the questions yourself or make up answers. Present the questions to the user exactly as shown, then wait for their responses. Only after receiving the user's answers should you call start_interactive_spec again with mode='refine' and include the user's answers in the userAnswers parameter. If the answers leave important gaps, you will get follow-up questions: ask the user those too, the same way. If the user says they have answered enough, pass that in userAnswers and the specification is refined from what they have said.",
+      complete: false
+    },
+    {
+      name: 'refining',
+      mode: 'refine',
+      tool: 'start_interactive_spec',
+      handler: 'refine',
+      transitions: ['document_review'],
+      next: 'document_review',
+      guards: [],
+      requiredInputs: [],
+      description: 'Create refined specification based on user answers',
+      guidance: "🚨 USER REVIEW REQUIRED: You MUST show this refined specification to the user for their review. Do NOT proceed without user feedback. After the user reviews the specification, call start_interactive_spec again with mode='document_review', the same userIdea, and the sessionId. Wait for user approval before generating documents.",
+      complete: false
+    },
+    {
+      name: 'document_review',
+      mode: 'document_review',
+      tool: 'start_interactive_spec',
+      handler: 'document_review',
+      transitions: ['refining', 'final_approval'], // Allow revisions
+      next: 'final_approval',
+      guards: ['has_documents'],
+      requiredInputs: [],
+      description: 'Generate SDD documents for user review and approval',
+      guidance: "🚨 USER APPROVAL REQUIRED: You MUST present these generated documents to the user and ask them to approve or reject EACH document. Record each of the user's decisions with review_document; a rejection needs the user's comment. Do NOT approve documents on the user's behalf. If the user rejects documents or asks for changes, call start_interactive_spec with mode='refine', the sessionId, and their feedback in revisionRequest; the documents are revised and come back for review. Only once every document is approved should you call start_interactive_spec again with mode='final_approval', the sessionId, and the user's explicitApproval response.",
+      complete: false
+    },
+    {
+      name: 'final_approval',
+      mode: 'final_approval',
+      tool: 'start_interactive_spec',
+      handler: 'final_approval',
+      transitions: ['development'],
+      guards: ['has_documents', 'documents_approved'],
+      requiredInputs: ['explicitApproval'],
+      description: 'Get final approval before development begins',
+      guidance: "✅ WORKFLOW COMPLETE: The specification has been fully approved and is ready for development. Do NOT call any more tools. Present the complete specification to the user and wait for their instructions.",
+      complete: true
+    },
+    {
+      name: 'development',
+      tool: 'start_development',
+      handler: 'development',
+      transitions: [],
+      guards: ['has_development_plan'],
+      requiredInputs: [],
+      description: 'Begin implementation from the approved specification',
+      guidance: "✅ DEVELOPMENT STARTED: The development plan has been recorded. Do NOT call any more planning tools. Present the plan to the user and implement it step by step as they direct.",
+      complete: true
+    }
+  ]
+};
+
+/**
+ * A validated workflow definition, and everything derived from it: allowed transitions, guards,
+ * required inputs and the guidance given to the LLM in each state
+ */
+export class Workflow {
+  private readonly byName: Map<SessionState, WorkflowStateDefinition>;
+  private readonly byMode: Map<string, WorkflowStateDefinition>;
+
+  constructor(private readonly definition: WorkflowDefinition) {
+    this.byName = new Map(definition.states.map(state => [state.name, state]));
+    this.byMode = new Map(definition.states.filter(state => state.mode).map(state => [state.mode!, state]));
+
+    const problems = validateReferences(definition);
+    if (problems.length > 0) {
+      throw new Error(`Invalid workflow "${definition.name}": ${problems.join('; ')}`);
+    }
+  }
+
+  get name(): string {
+    return this.definition.name;
+  }
+
+  get initialState(): SessionState {
+    return this.definition.initialState;
+  }
+
+  /**
+   * State names in definition order, which is also the order progress is reported in
+   */
+  get states(): SessionState[] {
+    return this.definition.states.map(state => state.name);
+  }
+
+  /**
+   * start_interactive_spec modes, in definition order
+   */
+  get modes(): string[] {
+    return Array.from(this.byMode.keys());
+  }
+
+  has(state: string): boolean {
+    return this.byName.has(state);
+  }
+
+  state(name: string): WorkflowStateDefinition | undefined {
+    return this.byName.get(name);
+  }
+
+  stateForMode(mode: string): WorkflowStateDefinition | undefined {
+    return this.byMode.get(mode);
+  }
+
+  /**
+   * The state bound to a handler that is not entered by mode, such as `development`
+   */
+  stateForHandler(handler: WorkflowHandler): WorkflowStateDefinition | undefined {
+    return this.definition.states.find(state => state.handler === handler);
+  }
+
+  canTransition(from: string, to: string): boolean {
+    return this.byName.get(from)?.transitions.includes(to) ?? false;
+  }
+
+  /**
+   * States a session can move to `state` from
+   */
+  sourcesOf(state: string): SessionState[] {
+    return this.definition.states.filter(candidate => candidate.transitions.includes(state)).map(candidate => candidate.name);
+  }
+
+  /**
+   * Guards of `state` that the session does not meet
+   */
+  unmetGuards(state: string, session: Session): WorkflowGuard[] {
+    return (this.byName.get(state)?.guards ?? []).filter(guard => !GUARD_CHECKS[guard](session));
+  }
+
+  isComplete(state: string): boolean {
+    return this.byName.get(state)?.complete ?? false;
+  }
+
+  /**
+   * What the LLM should do next while a session is in `state`
+   */
+  guidance(state: string): string {
+    return this.byName.get(state)?.guidance ??
+      "🚨 ERROR: Unknown workflow state. Do NOT proceed with any tool calls. Report this error to the user and wait for their guidance.";
+  }
+
+  /**
+   * Tool that takes the guided next step from `state`, if there is one
+   */
+  requiredTool(state: string): string | null {
+    return this.nextState(state)?.tool ?? null;
+  }
+
+  /**
+   * Parameters of the guided next call from `state`; user-supplied inputs are left as placeholders
+   */
+  requiredParameters(state: string, sessionId: string | undefined): Record<string, string | undefined> | null {
+    const next = this.nextState(state);
+    if (!next) {
+      return null;
+    }
+    return {
+      ...(next.mode ? { mode: next.mode } : {}),
+      sessionId,
+      ...Object.fromEntries(next.requiredInputs.map(input => [input, '[user response]']))
+    };
+  }
+
+  private nextState(state: string): WorkflowStateDefinition | undefined {
+    const current = this.byName.get(state);
+    return current && !current.complete && current.next ? this.byName.get(current.next) : undefined;
+  }
+}
+
+/**
+ * Read and validate a workflow definition from a JSON file
+ */
+export function loadWorkflowDefinition(file: string): WorkflowDefinition {
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (err) {
+    throw new Error(`Cannot read workflow ${file}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+  }
+
+  const parsed = workflowDefinitionSchema.safeParse(data);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Invalid workflow ${file}: ${issue ? `${issue.path.join('.') || 'workflow'}: ${issue.message}` : 'unknown format'}`);
+  }
+
+  const problems = validateReferences(parsed.data);
+  if (problems.length > 0) {
+    throw new Error(`Invalid workflow ${file}: ${problems.join('; ')}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Problems with how a definition's states refer to each other
+ */
+function validateReferences(definition: WorkflowDefinition): string[] {
+  const names = new Set<string>();
+  const modes = new Set<string>();
+  const problems: string[] = [];
+
+  for (const state of definition.states) {
+    if (names.has(state.name)) {
+      problems.push(`state "${state.name}" is defined twice`);
+    }
+    names.add(state.name);
+    if (state.mode) {
+      if (modes.has(state.mode)) {
+        problems.push(`mode "${state.mode}" is used by more than one state`);
+      }
+      modes.add(state.mode);
+    }
+    if (state.tool === 'start_interactive_spec' && !state.mode) {
+      problems.push(`state "${state.name}" is entered with start_interactive_spec but has no mode`);
+    }
+    if (HANDLER_TOOLS[state.handler] !== state.tool) {
+      problems.push(`state "${state.name}" has handler "${state.handler}", which runs under ${HANDLER_TOOLS[state.handler]}, not ${state.tool}`);
+    }
+    if (state.handler === 'question' && state.name !== definition.initialState) {
+      problems.push(`state "${state.name}" has handler "question", which only the initial state can have`);
+    }
+  }
+  if (definition.states.filter(state => state.handler === 'development').length > 1) {
+    problems.push('handler "development" is bound to more than one state');
+  }
+
+  const initial = definition.states.find(state => state.name === definition.initialState);
+  if (!initial) {
+    problems.push(`initialState "${definition.initialState}" is not a defined state`);
+  } else if (!initial.mode) {
+    problems.push(`initialState "${definition.initialState}" needs a mode to start sessions with`);
+  } else if (initial.handler !== 'question') {
+    problems.push(`initialState "${definition.initialState}" needs handler "question" to start sessions with`);
+  }
+  for (const state of definition.states) {
+    for (const target of state.transitions) {
+      if (!names.has(target)) {
+        problems.push(`state "${state.name}" has a transition to undefined state "${target}"`);
+      }
+    }
+    if (state.next && !state.transitions.includes(state.next)) {
+      problems.push(`state "${state.name}" has next "${state.next}", which is not one of its transitions`);
+    }
+  }
+  return problems;
+}
@@ -0,0 +1,55 @@
+import { APPROVAL_CONFIDENCE_THRESHOLD, classifyApproval } from '../src/tools/approval-intent.js';
+
+describe('classifyApproval', () => {
+  it.each([
+    'yes',
+    'Looks good, go ahead',
+    'y',
+    'no problem',
+    'no objections',
+    'sí, adelante',
+    '好的',
+    'ok, though go ahead'
+  ])('approves %j', reply => {
+    const intent = classifyApproval(reply);
+
+    expect(intent.decision).toBe('approve');
+    expect(intent.confidence).toBeGreaterThanOrEqual(APPROVAL_CONFIDENCE_THRESHOLD);
+  });
+
+  it.each([
+    ['no', 'no'],
+    ['n', 'n'],
+    ['not ok', 'not ok'],
+    ['don\'t proceed', 'don\'t proceed'],
+    ['passt nicht', 'passt nicht'],
+    ['non approvato', 'non approvato'],
+    ['承認しません', '承認しません'],
+    ['nothing is fine', 'nothing fine'],
+    ['none of it looks good', 'none looks good']
+  ])('refuses %j', (reply, signal) => {
+    const intent = classifyApproval(reply);
+
+    expect(intent.decision).toBe('reject');
+    expect(intent.signals).toContain(signal);
+  });
+
+  it('treats an approval that defers as a refusal', () => {
+    expect(classifyApproval('yes but not yet').decision).toBe('reject');
+  });
+
+  it.each([
+    ['yes, but use PostgreSQL instead of SQLite', 'use PostgreSQL instead of SQLite'],
+    ['ok if you add CSV export', 'you add CSV export'],
+    ['Add dark mode, otherwise fine', 'Add dark mode']
+  ])('makes %j conditional on the change it asks for', (reply, revisionRequest) => {
+    expect(classifyApproval(reply)).toMatchObject({ decision: 'conditional', revisionRequest });
+  });
+
+  it.each(['', 'maybe', 'yes and no', 'proceed if you must', 'ok if you really want to', 'go ahead if it looks good to you'])('finds %j unclear', reply => {
+    const intent = classifyApproval(reply);
+
+    expect(intent.decision).toBe('unclear');
+    expect(intent.confidence).toBeLessThan(APPROVAL_CONFIDENCE_THRESHOLD);
+  });
+});
@@ -0,0 +1,121 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { DEFAULT_CONFIG, KatPlannerConfig, loadConfig } from '../src/config.js';
+
+// File locations a project rc may not set, and where each ends up in the config
+const pathSettings: Array<[string, (config: KatPlannerConfig) => string | undefined]> = [
+  ['sessionPath', config => config.store.path],
+  ['archivePath', config => config.store.archivePath],
+  ['journalPath', config => config.journalPath],
+  ['encryptionKeyFile', config => config.encryption?.keyFile],
+  ['logFile', config => config.logging.file]
+];
+
+describe('loadConfig', () => {
+  let dir: string;
+  let home: string;
+  let project: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'kat-config-'));
+    home = path.join(dir, 'home');
+    project = path.join(dir, 'project');
+    await fs.mkdir(home);
+    await fs.mkdir(path.join(project, '.git'), { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  async function writeRc(where: string, rc: Record<string, unknown>): Promise<void> {
+    await fs.writeFile(path.join(where, '.katplannerrc'), JSON.stringify(rc));
+  }
+
+  function load(env: NodeJS.ProcessEnv = {}) {
+    return loadConfig({ cwd: project, homeDir: home, env });
+  }
+
+  it('uses the defaults without rc files or environment', () => {
+    expect(load()).toEqual(DEFAULT_CONFIG);
+  });
+
+  it('applies the home rc, then the project rc, then the environment', async () => {
+    await writeRc(home, { sessionTimeoutMinutes: 10, maxSessions: 50, evictionPolicy: 'refuse' });
+    await writeRc(project, { maxSessions: 20, evictionPolicy: 'oldest_created' });
+
+    const config = load({ KAT_PLANNER_EVICTION_POLICY: 'lru' });
+
+    expect(config.sessionTimeoutMs).toBe(10 * 60 * 1000);
+    expect(config.maxSessions).toBe(20);
+    expect(config.evictionPolicy).toBe('lru');
+  });
+
+  it('resolves rc paths against the rc file', async () => {
+    await writeRc(home, { sessionPath: 'sessions', journalPath: '../journal' });
+
+    const config = load();
+
+    expect(config.store.path).toBe(path.join(home, 'sessions'));
+    expect(config.journalPath).toBe(path.join(dir, 'journal'));
+  });
+
+  it('rejects invalid values with the file they came from', async () => {
+    await writeRc(project, { evictionFraction: 2 });
+
+    expect(() => load()).toThrow(`Invalid evictionFraction in ${path.join(project, '.katplannerrc')}`);
+  });
+
+  describe('neverExpireStates', () => {
+    it('reads states from an rc file and the environment', async () => {
+      await writeRc(home, { neverExpireStates: ['development'] });
+
+      expect(load().neverExpireStates).toEqual(['development']);
+      expect(load({ KAT_PLANNER_NEVER_EXPIRE_STATES: 'final_approval, development' }).neverExpireStates)
+        .toEqual(['final_approval', 'development']);
+      expect(load({ KAT_PLANNER_NEVER_EXPIRE_STATES: '' }).neverExpireStates).toEqual([]);
+    });
+
+    it('rejects states the workflow does not have', async () => {
+      await writeRc(home, { neverExpireStates: ['shipping'] });
+
+      expect(() => load()).toThrow('Invalid neverExpireStates: "shipping" is not a state of workflow');
+    });
+  });
+
+  describe('settings only the home rc may set', () => {
+    let stderr: jest.SpyInstance;
+
+    beforeEach(() => {
+      stderr = jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+    });
+
+    afterEach(() => {
+      stderr.mockRestore();
+    });
+
+    it.each(pathSettings)('ignores %s from the project rc', async (key, read) => {
+      await writeRc(project, { [key]: '/tmp/elsewhere' });
+
+      expect(read(load())).toBeUndefined();
+      expect(stderr).toHaveBeenCalledWith(expect.stringContaining('project_rc_setting_ignored'));
+    });
+
+    it.each(pathSettings)('reads %s from the home rc', async (key, read) => {
+      await writeRc(home, { [key]: '/tmp/elsewhere' });
+
+      expect(read(load())).toBe('/tmp/elsewhere');
+    });
+
+    it('keeps the home rc value when the project rc sets another', async () => {
+      await writeRc(home, { sessionPath: '/tmp/home-sessions' });
+      await writeRc(project, { sessionPath: '/tmp/project-sessions', maxSessions: 5 });
+
+      const config = load();
+
+      expect(config.store.path).toBe('/tmp/home-sessions');
+      expect(config.maxSessions).toBe(5);
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { approvalStatusFor, documentApprovals, findDocument } from '../src/document-approvals.js';
+import { CURRENT_SESSION_SCHEMA_VERSION, Session, SessionRevision } from '../src/session-schema.js';
+
+type DocumentReview = NonNullable<Session['documentReviews']>[number];
+
+function session(documentReviews: DocumentReview[], revisions?: SessionRevision[]): Session {
+  return {
+    schemaVersion: CURRENT_SESSION_SCHEMA_VERSION,
+    sessionId: 'kat_1',
+    state: 'document_review',
+    userIdea: 'A todo web app',
+    createdAt: 1000,
+    lastActivity: 2000,
+    generatedDocuments: [
+      { title: 'requirements.md', content: '# Requirements', version: 2 },
+      { title: 'design.md', content: '# Design' }
+    ],
+    documentReviews,
+    revisions
+  };
+}
+
+function review(document: string, version: number, decision: DocumentReview['decision'], reviewedAt: number): DocumentReview {
+  return { document, version, decision, comment: decision === 'rejected' ? 'Not yet' : undefined, reviewedAt };
+}
+
+function revision(requestedAt: number): SessionRevision {
+  return { revision: 1, requestedAt, request: 'Add CSV export', fromState: 'document_review', specificationDiff: '', documents: [] };
+}
+
+describe('documentApprovals', () => {
+  it('starts every document out pending', () => {
+    expect(documentApprovals(session([])).map(approval => approval.status)).toEqual(['pending', 'pending']);
+  });
+
+  it('uses the latest review of each document\'s current version', () => {
+    const approvals = documentApprovals(session([
+      review('requirements.md', 2, 'rejected', 3000),
+      review('requirements.md', 2, 'approved', 4000),
+      review('design.md', 1, 'rejected', 3000)
+    ]));
+
+    expect(approvals).toEqual([
+      { title: 'requirements.md', version: 2, status: 'approved', comment: undefined, reviewedAt: 4000 },
+      { title: 'design.md', version: 1, status: 'rejected', comment: 'Not yet', reviewedAt: 3000 }
+    ]);
+  });
+
+  it('ignores reviews of earlier versions', () => {
+    expect(documentApprovals(session([review('requirements.md', 1, 'approved', 3000)]))[0]?.status).toBe('pending');
+  });
+
+  it('puts documents rejected before the latest revision back to pending', () => {
+    const approvals = documentApprovals(session([
+      review('requirements.md', 2, 'approved', 3000),
+      review('design.md', 1, 'rejected', 3000)
+    ], [revision(5000)]));
+
+    expect(approvals.map(approval => approval.status)).toEqual(['approved', 'pending']);
+  });
+
+  it('keeps rejections made after the latest revision', () => {
+    expect(documentApprovals(session([review('design.md', 1, 'rejected', 6000)], [revision(5000)]))[1]?.status).toBe('rejected');
+  });
+});
+
+describe('approvalStatusFor', () => {
+  it('flags each approved document and the overall approval once all are approved', () => {
+    expect(approvalStatusFor(session([review('design.md', 1, 'approved', 3000)]))).toEqual({
+      requirements: false, design: true, tasks: false, agents: false, overall: false
+    });
+    expect(approvalStatusFor(session([
+      review('requirements.md', 2, 'approved', 3000),
+      review('design.md', 1, 'approved', 3000)
+    ])).overall).toBe(true);
+  });
+
+  it('never gives overall approval without documents', () => {
+    expect(approvalStatusFor({ ...session([]), generatedDocuments: [] }).overall).toBe(false);
+  });
+});
+
+describe('findDocument', () => {
+  it('matches titles ignoring case and the .md extension', () => {
+    expect(findDocument(session([]), 'Design')?.title).toBe('design.md');
+    expect(findDocument(session([]), ' REQUIREMENTS.md ')?.title).toBe('requirements.md');
+    expect(findDocument(session([]), 'tasks')).toBeUndefined();
+  });
+});
@@ -0,0 +1,88 @@
+import { applyRevision } from '../src/document-revisions.js';
+import { CURRENT_SESSION_SCHEMA_VERSION, Session } from '../src/session-schema.js';
+import { RefinedSpecification, withRevisionRequests } from '../src/tools/refinement.js';
+
+const session: Session = {
+  schemaVersion: CURRENT_SESSION_SCHEMA_VERSION,
+  sessionId: 'kat_1',
+  state: 'document_review',
+  userIdea: 'A todo web app',
+  createdAt: 1000,
+  lastActivity: 2000,
+  generatedDocuments: [
+    { title: 'requirements.md', content: '# Requirements\n- Tasks' },
+    { title: 'design.md', content: '# Design\n- React', version: 2 }
+  ]
+};
+
+describe('applyRevision', () => {
+  it('versions and diffs only the documents whose content changed', () => {
+    const { documents, revision } = applyRevision(session, 'spec', 'spec\n- CSV export', [
+      { title: 'requirements.md', content: '# Requirements\n- Tasks\n- CSV export' },
+      { title: 'design.md', content: '# Design\n- React' }
+    ], 'Add CSV export');
+
+    expect(documents).toEqual([
+      { title: 'requirements.md', content: '# Requirements\n- Tasks\n- CSV export', version: 2 },
+      { title: 'design.md', content: '# Design\n- React', version: 2 }
+    ]);
+    expect(revision).toMatchObject({ revision: 1, request: 'Add CSV export', fromState: 'document_review' });
+    expect(revision.documents).toEqual([{
+      title: 'requirements.md',
+      fromVersion: 1,
+      toVersion: 2,
+      diff: '--- requirements.md v1\n+++ requirements.md v2\n@@ -1,2 +1,3 @@\n # Requirements\n - Tasks\n+- CSV export'
+    }]);
+    expect(revision.specificationDiff).toBe('--- specification r0\n+++ specification r1\n@@ -1,1 +1,2 @@\n spec\n+- CSV export');
+  });
+
+  it('keeps documents the regenerated set does not include', () => {
+    const { documents, revision } = applyRevision(session, 'spec', 'spec', [], 'Never mind');
+
+    expect(documents).toEqual(session.generatedDocuments);
+    expect(revision.documents).toEqual([]);
+  });
+
+  it('lists the rejected documents it left unchanged', () => {
+    const reviewed: Session = {
+      ...session,
+      documentReviews: [
+        { document: 'requirements.md', version: 1, decision: 'rejected', comment: 'Needs export', reviewedAt: 3000 },
+        { document: 'design.md', version: 2, decision: 'rejected', comment: 'Use Vue', reviewedAt: 3000 }
+      ]
+    };
+
+    const { reopened } = applyRevision(reviewed, 'spec', 'spec', [
+      { title: 'requirements.md', content: '# Requirements\n- Tasks\n- CSV export' },
+      { title: 'design.md', content: '# Design\n- React' }
+    ], 'Add CSV export');
+
+    expect(reopened).toEqual(['design.md']);
+  });
+
+  it('numbers revisions after the earlier ones', () => {
+    const earlier = applyRevision(session, 'spec', 'spec', [], 'First').revision;
+
+    expect(applyRevision({ ...session, revisions: [earlier] }, 'spec', 'spec', [], 'Second').revision.revision).toBe(2);
+  });
+});
+
+describe('withRevisionRequests', () => {
+  const spec: RefinedSpecification = {
+    project: 'A todo web app',
+    sections: { objective: ['Track tasks'], platform: [], targetUsers: [], keyFeatures: ['Due dates'], constraints: [], successCriteria: [] },
+    unansweredQuestions: [],
+    additionalNotes: []
+  };
+
+  it('adds requests to the sections they speak to, without their label', () => {
+    const revised = withRevisionRequests(spec, ['Key features: CSV export; dark mode']);
+
+    expect(revised.sections.keyFeatures).toEqual(['Due dates', 'CSV export', 'dark mode']);
+    expect(spec.sections.keyFeatures).toEqual(['Due dates']);
+  });
+
+  it('notes requests that fit no section, numbered by revision', () => {
+    expect(withRevisionRequests(spec, ['', 'Use PostgreSQL instead of SQLite']).additionalNotes).toEqual(['Revision 2: Use PostgreSQL instead of SQLite']);
+  });
+});
@@ -0,0 +1,108 @@
+import { spawnSync } from 'child_process';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { withFileLock, writeFileAtomic } from '../src/file-lock.js';
+
+describe('withFileLock', () => {
+  let dir: string;
+  let target: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'kat-lock-'));
+    target = path.join(dir, 'sessions.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  // A lock file as another process would have left it
+  async function leaveLock(pid: number, ageMs = 0): Promise<void> {
+    await fs.writeFile(`${target}.lock`, JSON.stringify({ pid, acquiredAt: Date.now() - ageMs }));
+    const mtime = new Date(Date.now() - ageMs);
+    await fs.utimes(`${target}.lock`, mtime, mtime);
+  }
+
+  it('holds the lock while the function runs and releases it after', async () => {
+    const result = await withFileLock(target, async () => {
+      await expect(fs.access(`${target}.lock`)).resolves.toBeUndefined();
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    await expect(fs.access(`${target}.lock`)).rejects.toThrow();
+  });
+
+  it('releases the lock when the function throws', async () => {
+    await expect(withFileLock(target, async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+
+    await expect(fs.access(`${target}.lock`)).rejects.toThrow();
+  });
+
+  it('runs holders one at a time', async () => {
+    const order: string[] = [];
+    const hold = (name: string) => withFileLock(target, async () => {
+      order.push(`${name} start`);
+      await new Promise(resolve => setTimeout(resolve, 50));
+      order.push(`${name} end`);
+    });
+
+    await Promise.all([hold('a'), hold('b')]);
+
+    // Either may win the race, but neither starts before the other has finished
+    expect([order.slice(0, 2), order.slice(2)].sort()).toEqual([['a start', 'a end'], ['b start', 'b end']]);
+  });
+
+  it('breaks a lock whose process is gone', async () => {
+    const { pid } = spawnSync(process.execPath, ['-e', '']);
+    await leaveLock(pid);
+
+    await expect(withFileLock(target, async () => 'acquired', { timeoutMs: 1000 })).resolves.toBe('acquired');
+  });
+
+  it('breaks a lock older than 10 seconds', async () => {
+    await leaveLock(process.ppid, 11 * 1000);
+
+    await expect(withFileLock(target, async () => 'acquired', { timeoutMs: 1000 })).resolves.toBe('acquired');
+  });
+
+  it('gives up on a live lock after 5 seconds', async () => {
+    await leaveLock(process.ppid);
+    const started = Date.now();
+
+    await expect(withFileLock(target, async () => 'acquired')).rejects.toThrow(`Timed out waiting for lock on ${target}`);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(5000);
+    await expect(fs.access(`${target}.lock`)).resolves.toBeUndefined();
+  }, 10 * 1000);
+});
+
+describe('writeFileAtomic', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'kat-atomic-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('replaces the file and leaves nothing else behind', async () => {
+    const file = path.join(dir, 'sessions.json');
+    await fs.writeFile(file, 'old');
+
+    await writeFileAtomic(file, 'new');
+
+    expect(await fs.readFile(file, 'utf-8')).toBe('new');
+    expect(await fs.readdir(dir)).toEqual(['sessions.json']);
+  });
+
+  it('removes its temp file when the write fails', async () => {
+    const file = path.join(dir, 'sessions.json');
+    await fs.mkdir(file); // Renaming a file over a directory fails
+
+    await expect(writeFileAtomic(file, 'new')).rejects.toThrow();
+    expect(await fs.readdir(dir)).toEqual(['sessions.json']);
+  });
+});
@@ -0,0 +1,152 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { LoggingMessageNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { attachLoggingToMcpServer, configureLogging, createLogger, DEFAULT_LOGGING_CONFIG, LoggingConfig } from '../src/logger.js';
+
+const log = createLogger('test');
+
+describe('logging', () => {
+  let stderr: jest.SpyInstance;
+
+  beforeEach(() => {
+    stderr = jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    stderr.mockRestore();
+    configureLogging(DEFAULT_LOGGING_CONFIG);
+  });
+
+  function configure(config: Partial<LoggingConfig> = {}): void {
+    configureLogging({ ...DEFAULT_LOGGING_CONFIG, ...config });
+  }
+
+  // Entries written to stderr since the test started
+  function written(): Array<Record<string, unknown>> {
+    return stderr.mock.calls.map(([line]) => JSON.parse(String(line)) as Record<string, unknown>);
+  }
+
+  describe('redaction', () => {
+    it('replaces user content with its length', () => {
+      configure();
+
+      log.info('session_created', { userIdea: 'A recipe app', answers: { core_functionality: 'Recipes' }, state: 'refining' });
+
+      expect(written()).toEqual([expect.objectContaining({
+        message: 'session_created',
+        userIdea: '[redacted: 12 chars]',
+        answers: '[redacted: 32 chars]',
+        state: 'refining'
+      })]);
+    });
+
+    it('redacts user content nested in other fields', () => {
+      configure();
+
+      log.info('bundle_imported', { details: { label: 'Secret plans' }, sessions: [{ userIdea: 'An idea' }] });
+
+      expect(written()[0]).toMatchObject({
+        details: { label: '[redacted: 12 chars]' },
+        sessions: [{ userIdea: '[redacted: 7 chars]' }]
+      });
+    });
+
+    it('keeps user content when redaction is off', () => {
+      configure({ redact: false });
+
+      log.info('session_created', { userIdea: 'A recipe app' });
+
+      expect(written()[0]).toMatchObject({ userIdea: 'A recipe app' });
+    });
+
+    it('never writes secrets', () => {
+      configure({ redact: false });
+
+      log.info('key_rotated', { key: 'abc123', encryption: { previousKeys: ['old'] }, token: 'xyz' });
+
+      expect(written()[0]).toMatchObject({ key: '[redacted]', encryption: { previousKeys: '[redacted]' }, token: '[redacted]' });
+    });
+  });
+
+  describe('levels', () => {
+    it('drops entries below the configured level', () => {
+      configure({ level: 'warning' });
+
+      log.info('ignored');
+      log.warning('kept');
+      log.error('also_kept');
+
+      expect(written().map(entry => entry.message)).toEqual(['kept', 'also_kept']);
+    });
+
+    it('forwards entries at the level the client sets', async () => {
+      configure({ level: 'emergency' });
+      const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: { logging: {} } });
+      attachLoggingToMcpServer(server);
+      const client = new Client({ name: 'test-client', version: '1.0.0' });
+      const received: unknown[] = [];
+      client.setNotificationHandler(LoggingMessageNotificationSchema, notification => {
+        received.push(notification.params);
+      });
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+
+      try {
+        log.info('before_set_level');
+        await client.setLoggingLevel('info');
+        log.debug('below_client_level');
+        log.info('at_client_level');
+        await new Promise(resolve => setTimeout(resolve, 20));
+
+        expect(received).toEqual([expect.objectContaining({ level: 'info', logger: 'test', data: expect.objectContaining({ message: 'at_client_level' }) })]);
+        expect(written()).toEqual([]);
+      } finally {
+        await client.close();
+        await server.close();
+      }
+    });
+  });
+
+  describe('log file', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'kat-logs-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('appends every entry written to stderr', async () => {
+      const file = path.join(dir, 'nested', 'kat.log');
+      configure({ file });
+
+      log.info('first');
+      log.info('second');
+
+      const lines = (await fs.readFile(file, 'utf-8')).trim().split('\n');
+      expect(lines.map(line => JSON.parse(line).message)).toEqual(['first', 'second']);
+    });
+
+    it('rotates at maxFileBytes and keeps maxFiles rotated files', async () => {
+      const file = path.join(dir, 'kat.log');
+      configure({ file, maxFileBytes: 250, maxFiles: 2 });
+
+      for (let i = 0; i < 10; i++) {
+        log.info(`entry_${i}`);
+      }
+
+      expect((await fs.readdir(dir)).sort()).toEqual(['kat.log', 'kat.log.1', 'kat.log.2']);
+      for (const name of ['kat.log', 'kat.log.1', 'kat.log.2']) {
+        expect((await fs.stat(path.join(dir, name))).size).toBeLessThanOrEqual(250);
+      }
+      const newest = (await fs.readFile(file, 'utf-8')).trim().split('\n');
+      expect(JSON.parse(newest[newest.length - 1]!).message).toBe('entry_9');
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { WorkflowMetrics } from '../src/metrics.js';
+import type { JournalEvent } from '../src/session-journal.js';
+
+const START = Date.parse('2026-01-01T00:00:00.000Z');
+
+function at(offsetSeconds: number): string {
+  return new Date(START + offsetSeconds * 1000).toISOString();
+}
+
+// Created at START, moved to refining after two minutes and to document_review after another ten
+const journal: JournalEvent[] = [
+  { timestamp: at(0), sessionId: 'kat_a', type: 'session_created', changes: { owner: 'alice' } },
+  { timestamp: at(120), sessionId: 'kat_a', type: 'state_transition', fromState: 'questioning', toState: 'refining' },
+  { timestamp: at(720), sessionId: 'kat_a', type: 'state_transition', fromState: 'refining', toState: 'document_review' }
+];
+
+const ACTIVE = { questioning: 1, refining: 0, document_review: 1, final_approval: 0, development: 0 };
+
+describe('WorkflowMetrics', () => {
+  let metrics: WorkflowMetrics;
+
+  beforeEach(() => {
+    metrics = new WorkflowMetrics();
+  });
+
+  function counter(name: string, namespace?: string) {
+    return metrics.toJSON(ACTIVE, namespace).counters[name];
+  }
+
+  describe('replayJournal', () => {
+    it('counts creations and transitions under the session\'s owner', () => {
+      metrics.replayJournal(journal);
+
+      expect(counter('kat_sessions_created_total', 'alice')).toEqual([{ labels: { origin: 'new' }, value: 1 }]);
+      expect(counter('kat_state_transitions_total', 'alice')).toEqual([
+        { labels: { from: 'questioning', to: 'refining' }, value: 1 },
+        { labels: { from: 'refining', to: 'document_review' }, value: 1 }
+      ]);
+      expect(counter('kat_sessions_created_total', 'local')).toEqual([]);
+    });
+
+    it('leaves events from the cutoff on to live reporting', () => {
+      // The server replays up to its start; the last transition is then reported live
+      metrics.replayJournal(journal, Date.parse(journal[2]!.timestamp));
+      metrics.recordSessionEvent('session_updated', { fromState: 'refining', newState: 'document_review', phaseDurationMs: 600 * 1000 }, 'alice');
+
+      expect(counter('kat_state_transitions_total', 'alice')).toEqual([
+        { labels: { from: 'questioning', to: 'refining' }, value: 1 },
+        { labels: { from: 'refining', to: 'document_review' }, value: 1 }
+      ]);
+    });
+  });
+
+  describe('phase durations', () => {
+    it('fills buckets cumulatively', () => {
+      metrics.replayJournal(journal);
+
+      const [questioning, refining] = metrics.toJSON(ACTIVE).histograms['kat_phase_duration_seconds']!;
+      expect(questioning).toMatchObject({
+        labels: { state: 'questioning' },
+        count: 1,
+        sumSeconds: 120,
+        buckets: { 60: 0, 300: 1, 900: 1, 3600: 1, 14400: 1, 86400: 1, 604800: 1 }
+      });
+      expect(refining?.buckets).toEqual({ 60: 0, 300: 0, 900: 1, 3600: 1, 14400: 1, 86400: 1, 604800: 1 });
+    });
+
+    it('ends each Prometheus histogram with a +Inf bucket equal to its count', () => {
+      metrics.recordSessionEvent('session_updated', { fromState: 'questioning', newState: 'refining', phaseDurationMs: 30 * 24 * 3600 * 1000 });
+
+      const text = metrics.toPrometheus(ACTIVE);
+
+      expect(text).toContain('kat_phase_duration_seconds_bucket{state="questioning",le="604800"} 0\n');
+      expect(text).toContain('kat_phase_duration_seconds_bucket{state="questioning",le="+Inf"} 1\n');
+      expect(text).toContain('kat_phase_duration_seconds_count{state="questioning"} 1\n');
+    });
+  });
+
+  it('escapes label values in the Prometheus output', () => {
+    metrics.recordSessionEvent('approval_rejected', { stage: 'say "no"\\\nthen' });
+
+    expect(metrics.toPrometheus(ACTIVE)).toContain('kat_approval_rejections_total{stage="say \\"no\\"\\\\\\nthen"} 1\n');
+  });
+
+  describe('namespaces', () => {
+    beforeEach(() => {
+      metrics.recordSessionEvent('session_created', {}, 'alice');
+      metrics.recordSessionEvent('session_created', {}, 'bob');
+      metrics.recordSessionEvent('session_forked', {}, 'bob');
+    });
+
+    it('report one namespace on its own', () => {
+      expect(counter('kat_sessions_created_total', 'alice')).toEqual([{ labels: { origin: 'new' }, value: 1 }]);
+      expect(counter('kat_sessions_created_total', 'carol')).toEqual([]);
+    });
+
+    it('add every namespace up without one', () => {
+      expect(counter('kat_sessions_created_total')).toEqual([
+        { labels: { origin: 'new' }, value: 2 },
+        { labels: { origin: 'forked' }, value: 1 }
+      ]);
+      expect(metrics.toPrometheus(ACTIVE)).toContain('kat_sessions_created_total{origin="new"} 2\n');
+    });
+
+    it('are not changed by adding them up', () => {
+      metrics.toJSON(ACTIVE);
+
+      expect(counter('kat_sessions_created_total', 'bob')).toEqual([
+        { labels: { origin: 'new' }, value: 1 },
+        { labels: { origin: 'forked' }, value: 1 }
+      ]);
+    });
+  });
+});
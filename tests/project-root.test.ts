@@ -0,0 +1,43 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { projectBundleDir, resolveBundlePath } from '../src/project-root.js';
+
+describe('resolveBundlePath', () => {
+  let root: string;
+  let outside: string;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'kat-project-'));
+    outside = await fs.mkdtemp(path.join(os.tmpdir(), 'kat-outside-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+    await fs.rm(outside, { recursive: true, force: true });
+  });
+
+  it('resolves paths inside the bundle directory', async () => {
+    const dir = projectBundleDir(root);
+
+    await expect(resolveBundlePath(root, 'todo.katbundle.json')).resolves.toBe(path.join(dir, 'todo.katbundle.json'));
+    await expect(resolveBundlePath(root, 'team/todo.json')).resolves.toBe(path.join(dir, 'team', 'todo.json'));
+  });
+
+  it('refuses paths that lead outside it', async () => {
+    await expect(resolveBundlePath(root, '../../../secrets.json')).rejects.toThrow('Bundle files must be inside');
+    await expect(resolveBundlePath(root, path.join(outside, 'todo.json'))).rejects.toThrow('Bundle files must be inside');
+    await expect(resolveBundlePath(root, '.')).rejects.toThrow('Bundle files must be inside');
+  });
+
+  it('refuses paths through symlinks', async () => {
+    const dir = projectBundleDir(root);
+    await fs.mkdir(dir, { recursive: true });
+    await fs.symlink(outside, path.join(dir, 'linked'));
+    await fs.writeFile(path.join(outside, 'todo.json'), '{}');
+    await fs.symlink(path.join(outside, 'todo.json'), path.join(dir, 'todo.json'));
+
+    await expect(resolveBundlePath(root, 'linked/new.json')).rejects.toThrow('cannot be reached through symlinks');
+    await expect(resolveBundlePath(root, 'todo.json')).rejects.toThrow('cannot be reached through symlinks');
+  });
+});
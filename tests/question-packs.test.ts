@@ -0,0 +1,143 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { GENERAL_PACK, projectPackDir, QuestionPackRegistry } from '../src/question-packs.js';
+
+// A minimal pack file body
+function pack(id: string, match: Record<string, string[]>, extra: Record<string, unknown> = {}) {
+  return { id, name: id, match, questions: [`Core functionality: What should ${id} do?`], ...extra };
+}
+
+describe('QuestionPackRegistry', () => {
+  let dir: string;
+  let packDir: string;
+  let registry: QuestionPackRegistry;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'kat-packs-'));
+    packDir = projectPackDir(dir);
+    await fs.mkdir(packDir, { recursive: true });
+    registry = new QuestionPackRegistry();
+    registry.setProjectRoot(dir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  async function writePack(file: string, body: unknown): Promise<void> {
+    await fs.writeFile(path.join(packDir, file), JSON.stringify(body));
+  }
+
+  describe('keyword matching', () => {
+    it('picks the built-in pack an idea mentions', () => {
+      expect(registry.forIdea('A command-line tool that renames photos', 'new_project').id).toBe('cli-tool');
+      expect(registry.forIdea('A REST API for invoices', 'new_project').id).toBe('rest-api');
+    });
+
+    it('falls back to the general pack', () => {
+      expect(registry.forIdea('Something to organize my recipes', 'new_project')).toBe(GENERAL_PACK);
+    });
+
+    it('matches whole words only', async () => {
+      await writePack('art.json', pack('art', { keywords: ['art'] }));
+
+      expect(registry.forIdea('A party planner', 'new_project').id).toBe('general');
+      expect(registry.forIdea('An art portfolio', 'new_project').id).toBe('art');
+    });
+
+    it('prefers the pack with the most keyword hits', async () => {
+      await writePack('game.json', pack('game', { keywords: ['game', 'puzzle'] }));
+
+      expect(registry.forIdea('A terminal puzzle game', 'new_project').id).toBe('game');
+    });
+
+    it('requires every allKeywords entry', async () => {
+      await writePack('mobile-game.json', pack('mobile-game', { allKeywords: ['mobile', 'game'] }));
+
+      expect(registry.forIdea('A mobile banking app', 'new_project').id).toBe('general');
+      expect(registry.forIdea('A mobile game about trains', 'new_project').id).toBe('mobile-game');
+    });
+  });
+
+  describe('project type matching', () => {
+    it('only applies a pack to the project types it lists', async () => {
+      await writePack('migration.json', pack('migration', { keywords: ['ledger'], projectTypes: ['existing_project'] }));
+
+      expect(registry.forIdea('A shared ledger', 'new_project').id).toBe('general');
+      expect(registry.forIdea('A shared ledger', 'existing_project').id).toBe('migration');
+    });
+
+    it('matches on the project type alone', async () => {
+      await writePack('enhancement.json', pack('enhancement', { projectTypes: ['existing_enhancement'] }));
+
+      expect(registry.forIdea('Add dark mode', 'existing_enhancement').id).toBe('enhancement');
+      expect(registry.forIdea('Add dark mode', 'new_project').id).toBe('general');
+    });
+  });
+
+  describe('ties', () => {
+    it('breaks equal scores by priority', async () => {
+      await writePack('a.json', pack('shell-a', { keywords: ['shell'] }));
+      await writePack('b.json', pack('shell-b', { keywords: ['shell'] }, { priority: 5 }));
+
+      expect(registry.forIdea('A shell helper', 'new_project').id).toBe('shell-b');
+    });
+
+    it('prefers a project pack over a built-in one of the same priority', async () => {
+      await writePack('terminal.json', pack('terminal', { keywords: ['cli'] }));
+
+      expect(registry.forIdea('A cli for backups', 'new_project').id).toBe('terminal');
+    });
+  });
+
+  describe('project packs', () => {
+    it('override the built-in pack with the same id', async () => {
+      await writePack('cli.json', pack('cli-tool', { keywords: ['cli'] }, { name: 'Our CLI' }));
+
+      expect(registry.get('cli-tool')?.name).toBe('Our CLI');
+      expect(registry.list().filter(candidate => candidate.id === 'cli-tool')).toHaveLength(1);
+    });
+
+    it('replace the fallback with a pack named general', async () => {
+      await writePack('general.json', pack('general', { keywords: ['anything'] }, { name: 'Team defaults' }));
+
+      expect(registry.forIdea('Something to organize my recipes', 'new_project').name).toBe('Team defaults');
+    });
+
+    it('skip invalid files', async () => {
+      const stderr = jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+      try {
+        await writePack('broken.json', { id: 'Not Kebab', questions: [] });
+        await writePack('ok.json', pack('ok', { keywords: ['ok'] }));
+
+        expect(registry.list().map(candidate => candidate.id)).toContain('ok');
+        expect(stderr).toHaveBeenCalledWith(expect.stringContaining('question_pack_skipped'));
+      } finally {
+        stderr.mockRestore();
+      }
+    });
+
+    it('pick up added, changed and removed files', async () => {
+      expect(registry.get('notes')).toBeUndefined();
+
+      await writePack('notes.json', pack('notes', { keywords: ['notes'] }, { name: 'Notes' }));
+      expect(registry.get('notes')?.name).toBe('Notes');
+
+      await writePack('notes.json', pack('notes', { keywords: ['notes'] }, { name: 'Notebook' }));
+      const later = new Date(Date.now() + 5000);
+      await fs.utimes(path.join(packDir, 'notes.json'), later, later);
+      expect(registry.get('notes')?.name).toBe('Notebook');
+
+      await fs.rm(path.join(packDir, 'notes.json'));
+      expect(registry.get('notes')).toBeUndefined();
+    });
+
+    it('come from the current project root only', async () => {
+      await writePack('notes.json', pack('notes', { keywords: ['notes'] }));
+      registry.setProjectRoot(path.join(dir, 'elsewhere'));
+
+      expect(registry.get('notes')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { findQuestioningGaps, wantsToStopQuestioning, withoutStopRequests } from '../src/tools/questioning.js';
+import { ClarifyingQuestion } from '../src/tools/questions.js';
+import { refineSpecification } from '../src/tools/refinement.js';
+
+const asked: ClarifyingQuestion[] = [
+  { id: 'core_functionality', label: 'Core functionality', prompt: 'What problem does it solve?', kind: 'free_text', required: true, section: 'objective' },
+  { id: 'key_features', label: 'Key features', prompt: 'What are the essential features?', kind: 'free_text', required: true, section: 'keyFeatures' },
+  { id: 'target_users', label: 'Target users', prompt: 'Who will use it?', kind: 'free_text', required: false, section: 'targetUsers' }
+];
+
+function gaps(userIdea: string, answers: Record<string, string>, questions: ClarifyingQuestion[] = asked) {
+  return findQuestioningGaps(userIdea, refineSpecification(userIdea, questions, answers), answers, questions);
+}
+
+const ids = (followUps: Array<{ question: ClarifyingQuestion }>) => followUps.map(followUp => followUp.question.id);
+
+describe('findQuestioningGaps', () => {
+  it('asks again about an unanswered objective or key features', () => {
+    const result = gaps('A command-line tool', { target_users: 'Developers' });
+
+    expect(ids(result.critical)).toEqual(['core_functionality', 'key_features']);
+    expect(result.critical[0]?.reason).toBe('Still unanswered');
+  });
+
+  it('asks how users sign in to a web app', () => {
+    const result = gaps('A todo web app', { core_functionality: 'Track tasks', key_features: 'Due dates' });
+
+    expect(ids(result.critical)).toEqual(['authentication']);
+  });
+
+  it('does not ask about topics the answers settle', () => {
+    const result = gaps('A todo web app', { core_functionality: 'Track tasks', key_features: 'Due dates, OAuth sign in' });
+
+    expect(ids(result.critical)).toEqual([]);
+  });
+
+  it('asks optional follow-ups only once', () => {
+    const answers = { core_functionality: 'Share tasks with teams', key_features: 'Shared lists' };
+    expect(ids(gaps('A command-line tool', answers).optional)).toEqual(['roles_permissions', 'data_storage']);
+
+    const roles: ClarifyingQuestion = { id: 'roles_permissions', label: 'Roles and permissions', prompt: 'Which roles exist?', kind: 'free_text', required: false };
+    expect(ids(gaps('A command-line tool', answers, [...asked, roles]).optional)).toEqual(['data_storage']);
+  });
+
+  it('asks unanswered critical follow-ups again', () => {
+    const authentication: ClarifyingQuestion = {
+      id: 'authentication',
+      label: 'Authentication',
+      prompt: 'How will users sign in?',
+      kind: 'single_choice',
+      options: ['Email and password', 'No accounts'],
+      required: false
+    };
+    const result = gaps('A todo web app', { core_functionality: 'Track tasks', key_features: 'Due dates' }, [...asked, authentication]);
+
+    expect(ids(result.critical)).toEqual(['authentication']);
+  });
+});
+
+describe('stop requests', () => {
+  it('recognizes a request to stop and leaves it out of the answers', () => {
+    const answers = { key_features: 'Due dates', done: "That's enough questions" };
+
+    expect(wantsToStopQuestioning(answers)).toBe(true);
+    expect(wantsToStopQuestioning({ key_features: 'Due dates' })).toBe(false);
+    expect(withoutStopRequests(answers)).toEqual({ key_features: 'Due dates' });
+  });
+});
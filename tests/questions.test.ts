@@ -0,0 +1,87 @@
+import { ClarifyingQuestion, findQuestion, questionFromText, validateAnswers } from '../src/tools/questions.js';
+
+const questions: ClarifyingQuestion[] = [
+  { id: 'core_functionality', label: 'Core functionality', prompt: 'What problem does it solve?', kind: 'free_text', required: true },
+  { id: 'team_size', label: 'Team size', prompt: 'How many people will use it?', kind: 'number', required: false, min: 1, max: 500 },
+  { id: 'offline_support', label: 'Offline support', prompt: 'Must it work offline?', kind: 'boolean', required: false, default: false },
+  { id: 'authentication', label: 'Authentication', prompt: 'How will users sign in?', kind: 'single_choice', options: ['Email and password', 'SSO/OAuth'], required: false },
+  { id: 'platforms', label: 'Platforms', prompt: 'Which platforms?', kind: 'multi_choice', options: ['iOS', 'Android', 'Web'], required: false }
+];
+
+describe('validateAnswers', () => {
+  it('normalizes valid answers and keys them by question id', () => {
+    const result = validateAnswers(questions, {
+      core_functionality: 'Track tasks',
+      q2: 12,
+      'Offline support': 'Y',
+      authentication: 'sso oauth',
+      platforms: 'web, ios, Web'
+    });
+
+    expect(result).toEqual({
+      answers: {
+        core_functionality: 'Track tasks',
+        team_size: '12',
+        offline_support: 'yes',
+        authentication: 'SSO/OAuth',
+        platforms: 'Web, iOS'
+      },
+      errors: []
+    });
+  });
+
+  it('fills in defaults and requires required answers', () => {
+    const result = validateAnswers(questions, {});
+
+    expect(result.answers).toEqual({ offline_support: 'no' });
+    expect(result.errors).toEqual([{ key: 'core_functionality', questionId: 'core_functionality', message: 'an answer is required (What problem does it solve?)' }]);
+  });
+
+  it('reports answers that do not fit their question', () => {
+    const { errors } = validateAnswers(questions, {
+      core_functionality: 'Track tasks',
+      team_size: '1000',
+      offline_support: 'maybe',
+      authentication: 'Magic links',
+      platforms: ['iOS', 'Windows'],
+      budget: 'Small'
+    });
+
+    expect(errors.map(({ key, message }) => `${key}: ${message}`)).toEqual([
+      'team_size: must be at most 500, got 1000',
+      'offline_support: expected yes or no, got "maybe"',
+      'authentication: "Magic links" is not one of: Email and password, SSO/OAuth',
+      'platforms: "Windows" is not among: iOS, Android, Web',
+      'budget: does not match any question; expected one of: core_functionality, team_size, offline_support, authentication, platforms'
+    ]);
+  });
+
+  it('reports a question answered twice', () => {
+    const { errors } = validateAnswers(questions, { core_functionality: 'Track tasks', q1: 'Plan trips' });
+
+    expect(errors).toEqual([{ key: 'q1', questionId: 'core_functionality', message: 'answers core_functionality, which is already answered by "core_functionality"' }]);
+  });
+});
+
+describe('findQuestion', () => {
+  it('matches ids, numbers, labels and full texts', () => {
+    expect(findQuestion('team_size', questions)?.id).toBe('team_size');
+    expect(findQuestion('question 4', questions)?.id).toBe('authentication');
+    expect(findQuestion('team size', questions)?.id).toBe('team_size');
+    expect(findQuestion('Platforms: Which platforms?', questions)?.id).toBe('platforms');
+    expect(findQuestion('q9', questions)).toBeUndefined();
+  });
+});
+
+describe('questionFromText', () => {
+  it('turns "Label: question" into a free-text question', () => {
+    expect(questionFromText('Target users: Who will use this?')).toEqual({
+      id: 'target_users',
+      label: 'Target users',
+      prompt: 'Who will use this?',
+      kind: 'free_text',
+      required: false
+    });
+    expect(questionFromText('Why now?', 3)).toMatchObject({ id: 'question_3', label: 'Question 3', prompt: 'Why now?' });
+  });
+});
@@ -0,0 +1,108 @@
+import { ClarifyingQuestion, questionFromText } from '../src/tools/questions.js';
+import { refineSpecification, sectionsOf, withRevisionRequests } from '../src/tools/refinement.js';
+
+const questions: ClarifyingQuestion[] = [
+  { id: 'core_functionality', label: 'Core functionality', prompt: 'What problem does it solve?', kind: 'free_text', required: true, section: 'objective' },
+  questionFromText('Target users: Who will use it?'),
+  questionFromText('Key features: What must it do?'),
+  { id: 'exports', label: 'Exports', prompt: 'Which formats?', kind: 'multi_choice', options: ['CSV', 'PDF', 'JSON'], required: false, section: 'keyFeatures' },
+  { id: 'button_count', label: 'Button support', prompt: 'How many buttons?', kind: 'number', required: false },
+  questionFromText('Favorite color: Which one?')
+];
+
+describe('sectionsOf', () => {
+  it('uses the section a question names', () => {
+    expect(sectionsOf(questions[0]!)).toEqual(['objective']);
+  });
+
+  it('infers the section from the label, then the full text', () => {
+    expect(sectionsOf(questions[1]!)).toEqual(['targetUsers']);
+    expect(sectionsOf(questionFromText('Scope: Which platforms must it run on?'))).toEqual(['platform']);
+  });
+
+  it('lets the label win over words in the prompt', () => {
+    expect(sectionsOf(questionFromText('Success metrics: How will users measure features?'))).toEqual(['successCriteria']);
+  });
+
+  it('places technical constraints in two sections', () => {
+    expect(sectionsOf('Technical constraints: Node 20 only')).toEqual(['constraints', 'platform']);
+  });
+
+  it('finds no section for unrelated keys', () => {
+    expect(sectionsOf('favorite_color')).toEqual([]);
+  });
+});
+
+describe('refineSpecification', () => {
+  it('places answers in their sections in question order', () => {
+    const spec = refineSpecification('A shared todo list', questions, {
+      key_features: 'Due dates, tags; reminders',
+      core_functionality: 'Keep track of shared tasks',
+      target_users: 'Small teams'
+    });
+
+    expect(spec.project).toBe('A shared todo list');
+    expect(spec.sections).toMatchObject({
+      objective: ['Keep track of shared tasks'],
+      targetUsers: ['Small teams'],
+      keyFeatures: ['Due dates', 'tags', 'reminders']
+    });
+  });
+
+  it('matches answers keyed by number, label or question text', () => {
+    const spec = refineSpecification('A shared todo list', questions, {
+      q1: 'Keep track of shared tasks',
+      'Target users': 'Small teams',
+      'Key features: What must it do?': 'Reminders'
+    });
+
+    expect(spec.sections.objective).toEqual(['Keep track of shared tasks']);
+    expect(spec.sections.targetUsers).toEqual(['Small teams']);
+    expect(spec.sections.keyFeatures).toEqual(['Reminders']);
+  });
+
+  it('splits multi-choice answers and labels other structured answers', () => {
+    const spec = refineSpecification('A remote control', questions, { exports: ['CSV, PDF'], button_count: '5' });
+
+    expect(spec.sections.keyFeatures).toEqual(['CSV', 'PDF', 'Button support: 5']);
+  });
+
+  it('keeps prose answers to list sections whole', () => {
+    const answer = 'It should remind people of tasks that are overdue, and let them snooze a reminder until tomorrow morning';
+
+    expect(refineSpecification('A todo list', questions, { key_features: answer }).sections.keyFeatures).toEqual([answer]);
+  });
+
+  it('collects answers that fit no section as notes and lists unanswered questions', () => {
+    const spec = refineSpecification('A todo list', questions, { favorite_color: 'Teal', core_functionality: ' ' });
+
+    expect(spec.additionalNotes).toEqual(['Favorite color: Teal']);
+    expect(spec.unansweredQuestions.map(question => question.id)).toEqual([
+      'core_functionality', 'target_users', 'key_features', 'exports', 'button_count'
+    ]);
+  });
+});
+
+describe('withRevisionRequests', () => {
+  const spec = refineSpecification('A todo list', questions, { core_functionality: 'Track tasks', key_features: 'Due dates' });
+
+  it('adds each request to the sections it speaks to, without its label', () => {
+    const revised = withRevisionRequests(spec, ['Key features: CSV export, dark mode', 'Target users: Families']);
+
+    expect(revised.sections.keyFeatures).toEqual(['Due dates', 'CSV export', 'dark mode']);
+    expect(revised.sections.targetUsers).toEqual(['Families']);
+  });
+
+  it('keeps requests that fit no section as numbered notes', () => {
+    const revised = withRevisionRequests(spec, ['Key features: Tags', 'Make it feel friendlier', '  ']);
+
+    expect(revised.additionalNotes).toEqual(['Revision 2: Make it feel friendlier']);
+  });
+
+  it('leaves the original specification unchanged', () => {
+    withRevisionRequests(spec, ['Key features: Tags', 'Make it feel friendlier']);
+
+    expect(spec.sections.keyFeatures).toEqual(['Due dates']);
+    expect(spec.additionalNotes).toEqual([]);
+  });
+});
@@ -0,0 +1,56 @@
+import { createSessionBundle, readSessionBundle } from '../src/session-bundle.js';
+import { CURRENT_SESSION_SCHEMA_VERSION, Session } from '../src/session-schema.js';
+import { DEFAULT_WORKFLOW, Workflow } from '../src/workflow.js';
+
+const workflow = new Workflow(DEFAULT_WORKFLOW);
+
+const session: Session = {
+  schemaVersion: CURRENT_SESSION_SCHEMA_VERSION,
+  sessionId: 'kat_1',
+  owner: 'alice',
+  state: 'document_review',
+  userIdea: 'A todo web app',
+  createdAt: 1000,
+  lastActivity: 2000,
+  answers: { core_functionality: 'Track tasks' },
+  generatedDocuments: [{ title: 'requirements.md', content: '# Requirements' }],
+  snapshots: []
+};
+
+describe('session bundles', () => {
+  it('round-trip a session without its installation-specific fields', () => {
+    const bundle = createSessionBundle(session);
+    const result = readSessionBundle(JSON.parse(JSON.stringify(bundle)), workflow);
+
+    expect(bundle.session).not.toHaveProperty('owner');
+    expect(bundle.session).not.toHaveProperty('snapshots');
+    expect(result).toEqual({ ok: true, session: { ...session, owner: undefined, snapshots: undefined }, declaredState: 'document_review' });
+  });
+
+  it('reject a modified session', () => {
+    const bundle = createSessionBundle(session);
+    bundle.session.userIdea = 'Something else';
+
+    expect(readSessionBundle(bundle, workflow)).toEqual({ ok: false, error: 'Session checksum mismatch; the bundle was modified or truncated' });
+  });
+
+  it('reject a document that does not match its checksum', () => {
+    const bundle = createSessionBundle(session);
+    bundle.checksums.documents['requirements.md'] = '0'.repeat(64);
+
+    expect(readSessionBundle(bundle, workflow)).toEqual({ ok: false, error: 'Checksum mismatch for document "requirements.md"' });
+  });
+
+  it('reject anything that is not a bundle', () => {
+    const result = readSessionBundle({ sessionId: 'kat_1' }, workflow);
+
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.error).toMatch(/^Not a valid session bundle/);
+  });
+
+  it('step the state back to what the bundled content supports', () => {
+    const bundle = createSessionBundle({ ...session, generatedDocuments: undefined });
+
+    expect(readSessionBundle(bundle, workflow)).toMatchObject({ ok: true, session: { state: 'refining' }, declaredState: 'document_review' });
+  });
+});
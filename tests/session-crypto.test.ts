@@ -0,0 +1,78 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { createSessionCipher, decodeRecord, encodeRecord, SessionCipher, SessionKeyError } from '../src/session-crypto.js';
+
+const oldKey = Buffer.alloc(32, 1);
+const newKey = Buffer.alloc(32, 2);
+const record = { sessionId: 'kat_1', userIdea: 'A todo web app' };
+
+describe('SessionCipher', () => {
+  it('round-trips a record without leaving it readable', () => {
+    const cipher = new SessionCipher([newKey]);
+    const payload = cipher.encrypt(record);
+
+    expect(JSON.stringify(payload)).not.toContain('todo');
+    expect(payload.keyId).toBe(cipher.keyId);
+    expect(cipher.decrypt(payload)).toEqual(record);
+  });
+
+  it('decrypts with a previous key and reports the record as stale', () => {
+    const stored = encodeRecord(record, new SessionCipher([oldKey]));
+    const rotated = new SessionCipher([newKey, oldKey]);
+
+    expect(decodeRecord(stored, rotated)).toEqual({ value: record, stale: true });
+    expect(decodeRecord(encodeRecord(record, rotated), rotated)).toEqual({ value: record, stale: false });
+  });
+
+  it('raises SessionKeyError for an unknown key or tampered data', () => {
+    const payload = new SessionCipher([oldKey]).encrypt(record);
+
+    expect(() => new SessionCipher([newKey]).decrypt(payload)).toThrow(SessionKeyError);
+    const tampered = { ...payload, data: Buffer.from('tampered').toString('base64') };
+    expect(() => new SessionCipher([oldKey]).decrypt(tampered)).toThrow(SessionKeyError);
+  });
+});
+
+describe('decodeRecord', () => {
+  it('reads plaintext, which is stale once encryption is on', () => {
+    expect(decodeRecord(record, undefined)).toEqual({ value: record, stale: false });
+    expect(decodeRecord(record, new SessionCipher([newKey]))).toEqual({ value: record, stale: true });
+  });
+
+  it('refuses encrypted records when no key is configured', () => {
+    const stored = encodeRecord(record, new SessionCipher([newKey]));
+
+    expect(() => decodeRecord(stored, undefined)).toThrow(SessionKeyError);
+  });
+});
+
+describe('createSessionCipher', () => {
+  it('leaves encryption off without a key', () => {
+    expect(createSessionCipher(undefined)).toBeUndefined();
+    expect(createSessionCipher({ previousKeys: [oldKey.toString('base64')] })).toBeUndefined();
+  });
+
+  it('accepts base64 and hex keys, current key first', () => {
+    const cipher = createSessionCipher({ key: newKey.toString('hex'), previousKeys: [oldKey.toString('base64')] });
+
+    expect(cipher?.keyId).toBe(new SessionCipher([newKey]).keyId);
+    expect(cipher?.decrypt(new SessionCipher([oldKey]).encrypt(record))).toEqual(record);
+  });
+
+  it('reads keys from a key file, skipping comments', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'kat-keys-'));
+    try {
+      const keyFile = path.join(dir, 'keys');
+      await fs.writeFile(keyFile, `# current\n${newKey.toString('base64')}\n${oldKey.toString('base64')}\n`);
+
+      expect(createSessionCipher({ keyFile })?.keyId).toBe(new SessionCipher([newKey]).keyId);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('rejects keys of the wrong length', () => {
+    expect(() => createSessionCipher({ key: Buffer.alloc(16).toString('base64') })).toThrow('expected 32 bytes');
+  });
+});
@@ -0,0 +1,99 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { JournalEvent, replaySession, SessionJournal } from '../src/session-journal.js';
+import { CURRENT_SESSION_SCHEMA_VERSION, Session } from '../src/session-schema.js';
+
+const created: Session = {
+  schemaVersion: CURRENT_SESSION_SCHEMA_VERSION,
+  sessionId: 'kat_1',
+  state: 'questioning',
+  userIdea: 'A todo web app',
+  createdAt: Date.parse('2026-01-01T00:00:00Z'),
+  lastActivity: Date.parse('2026-01-01T00:00:00Z')
+};
+
+function event(type: JournalEvent['type'], timestamp: string, fields: Partial<JournalEvent> = {}): JournalEvent {
+  return { timestamp, sessionId: 'kat_1', type, ...fields };
+}
+
+describe('replaySession', () => {
+  it('rebuilds a session from its creation and later changes', () => {
+    const session = replaySession([
+      event('session_created', '2026-01-01T00:00:00Z', { changes: created }),
+      event('answers_recorded', '2026-01-01T00:05:00Z', { changes: { answers: { target_users: 'Students' } } }),
+      event('state_transition', '2026-01-01T00:05:00Z', { fromState: 'questioning', toState: 'refining', changes: { state: 'refining' } })
+    ]);
+
+    expect(session).toMatchObject({ sessionId: 'kat_1', state: 'refining', answers: { target_users: 'Students' } });
+    expect(session?.lastActivity).toBe(Date.parse('2026-01-01T00:05:00Z'));
+  });
+
+  it('returns undefined without a creation event', () => {
+    expect(replaySession([event('answers_recorded', '2026-01-01T00:05:00Z', { changes: { answers: { a: 'b' } } })])).toBeUndefined();
+  });
+
+  it('returns undefined for removed sessions, and for archived ones until they are restored', () => {
+    const createdEvent = event('session_created', '2026-01-01T00:00:00Z', { changes: created });
+    const archived = event('session_archived', '2026-01-02T00:00:00Z', { reason: 'expired' });
+
+    expect(replaySession([createdEvent, event('session_removed', '2026-01-02T00:00:00Z', { reason: 'deleted' })])).toBeUndefined();
+    expect(replaySession([createdEvent, archived])).toBeUndefined();
+    expect(replaySession([createdEvent, archived, event('session_restored', '2026-01-03T00:00:00Z')])?.sessionId).toBe('kat_1');
+  });
+
+  it('leaves the session as it was for refused approvals and transitions', () => {
+    const session = replaySession([
+      event('session_created', '2026-01-01T00:00:00Z', { changes: created }),
+      event('approval_rejected', '2026-01-01T00:05:00Z', { details: { stage: 'final_approval' } }),
+      event('state_transition_invalid', '2026-01-01T00:06:00Z', { details: { from: 'questioning', to: 'development' } })
+    ]);
+
+    expect(session).toEqual(created);
+  });
+
+  it('resets the workflow content on a rollback and records it', () => {
+    const rollback = { rolledBackAt: Date.parse('2026-01-01T01:00:00Z'), snapshotId: 'snap_1', fromState: 'refining', toState: 'questioning', override: false };
+    const session = replaySession([
+      event('session_created', '2026-01-01T00:00:00Z', { changes: { ...created, label: 'Todo' } }),
+      event('answers_recorded', '2026-01-01T00:05:00Z', { changes: { answers: { target_users: 'Students' } } }),
+      event('state_transition', '2026-01-01T00:05:00Z', { fromState: 'questioning', toState: 'refining', changes: { state: 'refining' } }),
+      event('session_rolled_back', '2026-01-01T01:00:00Z', { rollback, changes: { state: 'questioning', userIdea: 'A todo web app' } })
+    ]);
+
+    expect(session?.state).toBe('questioning');
+    expect(session?.answers).toBeUndefined();
+    expect(session?.label).toBe('Todo');
+    expect(session?.rollbacks).toEqual([rollback]);
+  });
+});
+
+describe('SessionJournal', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'kat-journal-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('replays what was recorded', async () => {
+    const journal = new SessionJournal(dir);
+    await journal.recordCreated(created);
+    await journal.recordUpdate(created, { state: 'refining', answers: { target_users: 'Students' }, lastActivity: Date.now() });
+
+    expect(await journal.list()).toEqual(['kat_1']);
+    expect((await journal.read('kat_1')).map(({ type }) => type)).toEqual(['session_created', 'answers_recorded', 'state_transition']);
+    expect(await journal.replay('kat_1')).toMatchObject({ state: 'refining', answers: { target_users: 'Students' } });
+  });
+
+  it('skips a torn final line', async () => {
+    const journal = new SessionJournal(dir);
+    await journal.recordCreated(created);
+    await fs.appendFile(path.join(dir, 'kat_1.jsonl'), '{"timestamp":"2026-');
+
+    expect(await journal.replay('kat_1')).toEqual(created);
+  });
+});
@@ -0,0 +1,65 @@
+import { SessionLocks } from '../src/session-lock.js';
+
+function tick(ms = 5): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+describe('SessionLocks', () => {
+  let locks: SessionLocks;
+
+  beforeEach(() => {
+    locks = new SessionLocks();
+  });
+
+  it('runs callers for one session one at a time, in arrival order', async () => {
+    const order: string[] = [];
+    const hold = (name: string) => locks.run('kat_a', async () => {
+      order.push(`${name} start`);
+      await tick(20);
+      order.push(`${name} end`);
+    });
+
+    await Promise.all([hold('first'), hold('second'), hold('third')]);
+
+    expect(order).toEqual(['first start', 'first end', 'second start', 'second end', 'third start', 'third end']);
+  });
+
+  it('lets different sessions run side by side', async () => {
+    const order: string[] = [];
+    const hold = (sessionId: string) => locks.run(sessionId, async () => {
+      order.push(`${sessionId} start`);
+      await tick(20);
+      order.push(`${sessionId} end`);
+    });
+
+    await Promise.all([hold('kat_a'), hold('kat_b')]);
+
+    expect(order.slice(0, 2)).toEqual(['kat_a start', 'kat_b start']);
+  });
+
+  it('is re-entrant within one call chain', async () => {
+    const result = await locks.run('kat_a', () => locks.run('kat_a', async () => 'nested'));
+
+    expect(result).toBe('nested');
+  });
+
+  it('releases the lock when the operation throws', async () => {
+    await expect(locks.run('kat_a', async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+
+    expect(locks.isLocked('kat_a')).toBe(false);
+    await expect(locks.run('kat_a', async () => 'next')).resolves.toBe('next');
+  });
+
+  it('reports a session as locked while it is held or awaited', async () => {
+    let release!: () => void;
+    const held = locks.run('kat_a', () => new Promise<void>(resolve => { release = resolve; }));
+    await tick();
+
+    expect(locks.isLocked('kat_a')).toBe(true);
+    expect(locks.isLocked('kat_b')).toBe(false);
+
+    release();
+    await held;
+    expect(locks.isLocked('kat_a')).toBe(false);
+  });
+});
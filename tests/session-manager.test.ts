@@ -0,0 +1,480 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { DEFAULT_CONFIG, KatPlannerConfig } from '../src/config.js';
+import { ProductionSessionManager, SessionManagerOptions } from '../src/session-manager.js';
+import { CURRENT_SESSION_SCHEMA_VERSION, Session } from '../src/session-schema.js';
+import { DirectorySessionStore } from '../src/stores/index.js';
+
+let dir: string;
+let manager: ProductionSessionManager | undefined;
+let stderr: jest.SpyInstance;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'kat-manager-'));
+  stderr = jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+});
+
+afterEach(async () => {
+  await manager?.close();
+  manager = undefined;
+  stderr.mockRestore();
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+// A manager writing straight through to stores in the test's directory
+function createManager(config: Partial<KatPlannerConfig> = {}, options: SessionManagerOptions = {}): ProductionSessionManager {
+  manager = new ProductionSessionManager({
+    ...options,
+    projectRoot: dir,
+    config: {
+      ...DEFAULT_CONFIG,
+      flushDelayMs: 0,
+      store: { kind: 'directory', scope: 'home', path: path.join(dir, 'sessions'), archivePath: path.join(dir, 'archive') },
+      journalPath: path.join(dir, 'journal'),
+      ...config
+    }
+  });
+  return manager;
+}
+
+// Sessions created one after another get distinct timestamps
+function tick(ms = 5): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function createSessions(sessions: ProductionSessionManager, count: number): Promise<string[]> {
+  const ids: string[] = [];
+  for (let i = 0; i < count; i++) {
+    ids.push((await sessions.createSession(`Idea ${i + 1}`))!);
+    await tick();
+  }
+  return ids;
+}
+
+describe('eviction at maxSessions', () => {
+  it('evicts the least recently active session under lru', async () => {
+    const sessions = createManager({ maxSessions: 3, evictionPolicy: 'lru' });
+    const [a, , c] = await createSessions(sessions, 3);
+    await sessions.getSession(a!);
+
+    const d = await sessions.createSession('Idea 4');
+
+    expect(sessions.getAllSessionIds().sort()).toEqual([a, c, d].sort());
+  });
+
+  it('evicts the oldest created session under oldest_created, however recently active', async () => {
+    const sessions = createManager({ maxSessions: 3, evictionPolicy: 'oldest_created' });
+    const [a, b, c] = await createSessions(sessions, 3);
+    await sessions.getSession(a!);
+
+    const d = await sessions.createSession('Idea 4');
+
+    expect(sessions.getAllSessionIds().sort()).toEqual([b, c, d].sort());
+  });
+
+  it('removes the configured fraction of sessions', async () => {
+    const sessions = createManager({ maxSessions: 10, evictionPolicy: 'oldest_created', evictionFraction: 0.5 });
+    const ids = await createSessions(sessions, 10);
+
+    await sessions.createSession('Idea 11');
+
+    expect(sessions.getSessionCount()).toBe(6);
+    expect(sessions.getAllSessionIds()).not.toContain(ids[4]);
+    expect(sessions.getAllSessionIds()).toContain(ids[5]);
+  });
+
+  it('refuses new sessions under refuse', async () => {
+    const sessions = createManager({ maxSessions: 2, evictionPolicy: 'refuse' });
+    const ids = await createSessions(sessions, 2);
+
+    expect(await sessions.createSession('Idea 3')).toBeNull();
+    expect(sessions.getAllSessionIds().sort()).toEqual([...ids].sort());
+  });
+
+  it('never evicts sessions in neverExpireStates', async () => {
+    const sessions = createManager({ maxSessions: 2, evictionPolicy: 'lru', neverExpireStates: ['refining'] });
+    const [a, b] = await createSessions(sessions, 2);
+    await sessions.updateSession(a!, { state: 'refining' });
+    await sessions.getSession(b!);
+
+    const c = await sessions.createSession('Idea 3');
+
+    expect(sessions.getAllSessionIds().sort()).toEqual([a, c].sort());
+  });
+});
+
+describe('archive', () => {
+  it('archives evicted sessions with their content', async () => {
+    const sessions = createManager({ maxSessions: 1 });
+    const [a] = await createSessions(sessions, 1);
+    await sessions.updateSession(a!, { answers: { core_functionality: 'Track tasks' } });
+
+    await sessions.createSession('Idea 2');
+
+    const archived = await sessions.listArchivedSessions();
+    expect(archived).toHaveLength(1);
+    expect(archived[0]).toMatchObject({ sessionId: a, archiveReason: 'evicted', answers: { core_functionality: 'Track tasks' } });
+    expect(await sessions.getSession(a!)).toBeUndefined();
+  });
+
+  it('archives sessions once they expire', async () => {
+    const sessions = createManager({ sessionTimeoutMs: 50, cleanupIntervalMs: 20 });
+    const [a] = await createSessions(sessions, 1);
+
+    await tick(300);
+
+    expect(sessions.getAllSessionIds()).toEqual([]);
+    expect((await sessions.listArchivedSessions()).map(session => [session.sessionId, session.archiveReason])).toEqual([[a, 'expired']]);
+  });
+
+  it('restores an archived session as it was', async () => {
+    const sessions = createManager({ maxSessions: 1 });
+    const [a] = await createSessions(sessions, 1);
+    await sessions.updateSession(a!, { state: 'refining' });
+    const b = await sessions.createSession('Idea 2');
+
+    const { session } = await sessions.restoreSession(a!);
+
+    expect(session).toMatchObject({ sessionId: a, state: 'refining' });
+    expect(session).not.toHaveProperty('archivedAt');
+    expect(sessions.getAllSessionIds()).toEqual([a]);
+    expect((await sessions.listArchivedSessions()).map(archived => archived.sessionId)).toEqual([b]);
+  });
+
+  it('refuses to restore active or unknown sessions', async () => {
+    const sessions = createManager();
+    const [a] = await createSessions(sessions, 1);
+
+    expect(await sessions.restoreSession(a!)).toEqual({ error: 'already_active' });
+    expect(await sessions.restoreSession('kat_missing')).toEqual({ error: 'not_found' });
+  });
+
+  it('refuses to restore past maxSessions under refuse', async () => {
+    const evicting = createManager({ maxSessions: 1 });
+    const [a] = await createSessions(evicting, 2);
+    await evicting.close();
+
+    const sessions = createManager({ maxSessions: 1, evictionPolicy: 'refuse' });
+
+    expect(await sessions.restoreSession(a!)).toEqual({ error: 'session_limit' });
+  });
+});
+
+describe('snapshots and rollback', () => {
+  const documents = [{ title: 'requirements.md', content: '# Requirements' }];
+
+  // questioning → refining → document_review, with a snapshot at each transition
+  async function reviewedSession(sessions: ProductionSessionManager): Promise<string> {
+    const [id] = await createSessions(sessions, 1);
+    await sessions.updateSession(id!, { state: 'refining', answers: { core_functionality: 'Track tasks' } });
+    await sessions.updateSession(id!, { state: 'document_review', generatedDocuments: documents });
+    return id!;
+  }
+
+  it('snapshots the content each state transition leaves behind', async () => {
+    const sessions = createManager();
+    const id = await reviewedSession(sessions);
+    await sessions.updateSession(id, { label: 'Renamed' });
+
+    const snapshots = await sessions.listSnapshots(id);
+
+    expect(snapshots?.map(snapshot => [snapshot.reason, snapshot.data.state])).toEqual([
+      ['questioning → refining', 'questioning'],
+      ['refining → document_review', 'refining']
+    ]);
+    expect(snapshots?.[1]?.data.answers).toEqual({ core_functionality: 'Track tasks' });
+    expect(await sessions.listSnapshots('kat_missing')).toBeUndefined();
+  });
+
+  it('rolls back along an allowed transition', async () => {
+    const sessions = createManager();
+    const id = await reviewedSession(sessions);
+    const [, refining] = (await sessions.listSnapshots(id))!;
+
+    const { session } = await sessions.rollbackSession(id, refining!.snapshotId);
+
+    expect(session).toMatchObject({ state: 'refining', answers: { core_functionality: 'Track tasks' } });
+    expect(session?.generatedDocuments).toBeUndefined();
+    expect(session?.rollbacks).toEqual([expect.objectContaining({ fromState: 'document_review', toState: 'refining', override: false })]);
+    // The content rolled back from is kept, so the rollback can be undone
+    expect(session?.snapshots?.[session.snapshots.length - 1]?.data).toMatchObject({ state: 'document_review', generatedDocuments: documents });
+  });
+
+  it('needs override for a transition the workflow does not allow', async () => {
+    const sessions = createManager();
+    const id = await reviewedSession(sessions);
+    const [questioning] = (await sessions.listSnapshots(id))!;
+
+    expect(await sessions.rollbackSession(id, questioning!.snapshotId)).toEqual({ error: 'transition_not_allowed' });
+    expect((await sessions.getSession(id))?.state).toBe('document_review');
+
+    const { session } = await sessions.rollbackSession(id, questioning!.snapshotId, { override: true, reason: 'start over' });
+
+    expect(session?.state).toBe('questioning');
+    expect(session?.rollbacks?.[0]).toMatchObject({ override: true, reason: 'start over', toState: 'questioning' });
+  });
+
+  it('reports unknown sessions and snapshots', async () => {
+    const sessions = createManager();
+    const id = await reviewedSession(sessions);
+
+    expect(await sessions.rollbackSession('kat_missing', 'snap_1')).toEqual({ error: 'session_not_found' });
+    expect(await sessions.rollbackSession(id, 'snap_missing')).toEqual({ error: 'snapshot_not_found' });
+  });
+});
+
+describe('listing, renaming and deleting', () => {
+  it('lists sessions matching every filter, most recently active first', async () => {
+    const sessions = createManager();
+    const [a, b, c] = await createSessions(sessions, 3);
+    await sessions.updateSession(a!, { state: 'refining' });
+    await sessions.renameSession(b!, 'Grocery list');
+
+    expect((await sessions.listSessions()).map(session => session.sessionId)).toEqual([b, a, c]);
+    expect((await sessions.listSessions({ states: ['questioning'] })).map(session => session.sessionId)).toEqual([b, c]);
+    expect((await sessions.listSessions({ query: 'grocery' })).map(session => session.sessionId)).toEqual([b]);
+    expect((await sessions.listSessions({ query: 'idea 3', states: ['refining'] }))).toEqual([]);
+  });
+
+  it('renames a session', async () => {
+    const sessions = createManager();
+    const [a] = await createSessions(sessions, 1);
+
+    expect(await sessions.renameSession(a!, 'Todo app')).toMatchObject({ sessionId: a, label: 'Todo app' });
+    expect(await sessions.renameSession('kat_missing', 'Todo app')).toBeUndefined();
+  });
+
+  it('deletes a session from the store and keeps its journal', async () => {
+    const sessions = createManager();
+    const [a, b] = await createSessions(sessions, 2);
+
+    expect(await sessions.deleteSession(a!)).toBe(true);
+    expect(await sessions.deleteSession(a!)).toBe(false);
+    await sessions.close();
+
+    const reopened = createManager();
+    expect(await reopened.getSession(b!)).toBeDefined();
+    expect(await reopened.getSession(a!)).toBeUndefined();
+    expect((await reopened.getSessionHistory(a!)).map(event => event.type)).toContain('session_removed');
+  });
+
+  it('keeps a session whose store delete fails', async () => {
+    const store = new DirectorySessionStore(path.join(dir, 'sessions'));
+    jest.spyOn(store, 'delete').mockRejectedValue(new Error('disk full'));
+    const sessions = createManager({}, { store });
+    const [a] = await createSessions(sessions, 1);
+
+    await expect(sessions.deleteSession(a!)).rejects.toThrow('disk full');
+    expect(await sessions.getSession(a!)).toBeDefined();
+  });
+});
+
+describe('importing', () => {
+  const incoming: Session = {
+    schemaVersion: CURRENT_SESSION_SCHEMA_VERSION,
+    sessionId: 'kat_imported',
+    state: 'refining',
+    userIdea: 'Imported idea',
+    createdAt: 1000,
+    lastActivity: 2000
+  };
+
+  it('keeps the ID of an imported session when it is free', async () => {
+    const sessions = createManager();
+
+    const { session, remappedFrom } = await sessions.importSession(incoming);
+
+    expect(session?.sessionId).toBe('kat_imported');
+    expect(remappedFrom).toBeUndefined();
+    expect(await sessions.getSession('kat_imported')).toMatchObject({ userIdea: 'Imported idea', state: 'refining' });
+  });
+
+  it('gives an imported session a new ID when its own is taken', async () => {
+    const sessions = createManager();
+    const [a] = await createSessions(sessions, 1);
+
+    const { session, remappedFrom } = await sessions.importSession({ ...incoming, sessionId: a! });
+
+    expect(remappedFrom).toBe(a);
+    expect(session?.sessionId).not.toBe(a);
+    expect((await sessions.getSession(a!))?.userIdea).toBe('Idea 1');
+    expect((await sessions.getSession(session!.sessionId))?.userIdea).toBe('Imported idea');
+  });
+});
+
+describe('forking', () => {
+  it('copies the parent\'s content into a new session that records its parent', async () => {
+    const sessions = createManager();
+    const [parent] = await createSessions(sessions, 1);
+    await sessions.updateSession(parent!, { state: 'refining', answers: { core_functionality: 'Track tasks' } });
+
+    const { session: fork } = await sessions.forkSession(parent!, 'Mobile variant');
+
+    expect(fork).toMatchObject({
+      label: 'Mobile variant',
+      state: 'refining',
+      userIdea: 'Idea 1',
+      answers: { core_functionality: 'Track tasks' },
+      forkedFrom: { sessionId: parent, state: 'refining' }
+    });
+    expect(fork?.sessionId).not.toBe(parent);
+    expect(fork?.snapshots).toEqual([expect.objectContaining({ snapshotId: fork?.forkedFrom?.snapshotId, reason: `forked from ${parent}` })]);
+  });
+
+  it('lets the fork and its parent change independently', async () => {
+    const sessions = createManager();
+    const [parent] = await createSessions(sessions, 1);
+    const { session: fork } = await sessions.forkSession(parent!);
+
+    await sessions.updateSession(fork!.sessionId, { answers: { core_functionality: 'Fork answer' } });
+
+    expect((await sessions.getSession(parent!))?.answers).toBeUndefined();
+    expect((await sessions.getSession(fork!.sessionId))?.answers).toEqual({ core_functionality: 'Fork answer' });
+  });
+
+  it('lists a session\'s forks, oldest first', async () => {
+    const sessions = createManager();
+    const [parent, other] = await createSessions(sessions, 2);
+    const { session: first } = await sessions.forkSession(parent!);
+    await tick();
+    const { session: second } = await sessions.forkSession(parent!);
+    await sessions.forkSession(other!);
+
+    expect((await sessions.listForks(parent!)).map(fork => fork.sessionId)).toEqual([first?.sessionId, second?.sessionId]);
+  });
+
+  it('reports unknown parents and a full manager', async () => {
+    const sessions = createManager({ maxSessions: 1, evictionPolicy: 'refuse' });
+    const [parent] = await createSessions(sessions, 1);
+
+    expect(await sessions.forkSession('kat_missing')).toEqual({ error: 'session_not_found' });
+    expect(await sessions.forkSession(parent!)).toEqual({ error: 'session_limit' });
+  });
+});
+
+describe('locked sessions', () => {
+  it('are not evicted', async () => {
+    const sessions = createManager({ maxSessions: 3, evictionPolicy: 'lru' });
+    const [a, b, c] = await createSessions(sessions, 3);
+
+    const d = await sessions.withSessionLock(a!, () => sessions.createSession('Idea 4'));
+
+    expect(sessions.getAllSessionIds().sort()).toEqual([a, c, d].sort());
+    expect(sessions.getAllSessionIds()).not.toContain(b);
+  });
+
+  it('do not expire while locked', async () => {
+    const sessions = createManager({ sessionTimeoutMs: 50, cleanupIntervalMs: 20 });
+    const [a] = await createSessions(sessions, 1);
+
+    await sessions.withSessionLock(a!, async () => {
+      await tick(300);
+      expect(sessions.getAllSessionIds()).toEqual([a]);
+    });
+
+    await tick(300);
+    expect(sessions.getAllSessionIds()).toEqual([]);
+  });
+});
+
+describe('write-behind', () => {
+  let store: DirectorySessionStore;
+  let save: jest.SpyInstance;
+
+  beforeEach(() => {
+    store = new DirectorySessionStore(path.join(dir, 'sessions'));
+    save = jest.spyOn(store, 'save');
+  });
+
+  it('writes a burst of changes once things go quiet', async () => {
+    const sessions = createManager({ flushDelayMs: 100 }, { store });
+    const [a] = await createSessions(sessions, 1);
+    for (const answer of ['Track tasks', 'Track and share tasks']) {
+      await sessions.updateSession(a!, { answers: { core_functionality: answer } });
+      await tick(20);
+    }
+    expect(save).not.toHaveBeenCalled();
+
+    await tick(200);
+
+    expect(save).toHaveBeenCalledTimes(1);
+    expect(save).toHaveBeenCalledWith([expect.objectContaining({ sessionId: a, answers: { core_functionality: 'Track and share tasks' } })]);
+  });
+
+  it('writes within five flush delays even while changes keep coming', async () => {
+    const sessions = createManager({ flushDelayMs: 100 }, { store });
+    const [a] = await createSessions(sessions, 1);
+
+    const startedAt = Date.now();
+    while (Date.now() - startedAt < 800 && save.mock.calls.length === 0) {
+      await sessions.updateSession(a!, { answers: { core_functionality: `Change at ${Date.now()}` } });
+      await tick(40);
+    }
+
+    expect(save).toHaveBeenCalled();
+    expect(Date.now() - startedAt).toBeLessThan(800);
+  });
+
+  it('writes pending changes on close', async () => {
+    const sessions = createManager({ flushDelayMs: 10 * 60 * 1000 }, { store });
+    const [a] = await createSessions(sessions, 1);
+    await sessions.updateSession(a!, { state: 'refining' });
+    expect(save).not.toHaveBeenCalled();
+
+    await sessions.close();
+    manager = undefined;
+
+    expect(await new DirectorySessionStore(path.join(dir, 'sessions')).load(a!)).toMatchObject({ state: 'refining' });
+  });
+});
+
+describe('namespaces', () => {
+  async function createAs(sessions: ProductionSessionManager, owner: string): Promise<string> {
+    return (await sessions.runAsOwner(owner, () => sessions.createSession(`Idea of ${owner}`)))!;
+  }
+
+  it('hide one owner\'s sessions from another', async () => {
+    const sessions = createManager();
+    const a = await createAs(sessions, 'alice');
+    const b = await createAs(sessions, 'bob');
+
+    await sessions.runAsOwner('alice', async () => {
+      // Exporting starts from getSession, so an invisible session cannot be exported either
+      expect(await sessions.getSession(b)).toBeUndefined();
+      expect((await sessions.listSessions()).map(session => session.sessionId)).toEqual([a]);
+      expect(await sessions.renameSession(b, 'Mine now')).toBeUndefined();
+      expect(await sessions.deleteSession(b)).toBe(false);
+      expect(await sessions.forkSession(b)).toEqual({ error: 'session_not_found' });
+    });
+
+    const untouched = await sessions.getSession(b);
+    expect(untouched?.owner).toBe('bob');
+    expect(untouched?.label).toBeUndefined();
+    expect(sessions.getAllSessionIds().sort()).toEqual([a, b].sort());
+  });
+
+  it('let admins list every namespace\'s sessions', async () => {
+    const sessions = createManager({ admins: ['carol'] });
+    const a = await createAs(sessions, 'alice');
+    const b = await createAs(sessions, 'bob');
+
+    const asAdmin = await sessions.runAsOwner('carol', () => sessions.listAllSessions());
+    expect(asAdmin.sessions?.map(session => session.sessionId).sort()).toEqual([a, b].sort());
+    expect(await sessions.runAsOwner('alice', () => sessions.listAllSessions())).toEqual({ error: 'not_admin' });
+  });
+
+  it('resolve the owner from the auth principal, then the configured user, then the client name', () => {
+    const sessions = createManager({ user: 'dana' });
+
+    expect(sessions.resolveOwner({ authPrincipal: 'app-1', clientName: 'cursor' })).toBe('auth:app-1');
+    expect(sessions.resolveOwner({ clientName: 'cursor' })).toBe('dana');
+  });
+
+  it('fall back to the client name, then the default namespace', () => {
+    const sessions = createManager();
+
+    expect(sessions.resolveOwner({ clientName: 'cursor' })).toBe('client:cursor');
+    expect(sessions.resolveOwner({})).toBe('local');
+  });
+});
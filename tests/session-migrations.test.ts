@@ -0,0 +1,61 @@
+import { parseSessionRecord } from '../src/session-migrations.js';
+import { CURRENT_SESSION_SCHEMA_VERSION } from '../src/session-schema.js';
+
+const unversioned = {
+  sessionId: 'kat_1',
+  state: 'questioning',
+  userIdea: 'A todo web app',
+  createdAt: 1000,
+  lastActivity: 2000
+};
+
+describe('parseSessionRecord', () => {
+  it('accepts current records as they are', () => {
+    const record = { ...unversioned, schemaVersion: CURRENT_SESSION_SCHEMA_VERSION };
+
+    expect(parseSessionRecord(record)).toEqual({ ok: true, session: record });
+  });
+
+  it('migrates records from before schemaVersion existed', () => {
+    const result = parseSessionRecord(unversioned);
+
+    expect(result).toEqual({ ok: true, session: { ...unversioned, schemaVersion: CURRENT_SESSION_SCHEMA_VERSION }, migratedFrom: 1 });
+  });
+
+  it('resumes sessions of the old approved state where documents are generated', () => {
+    const result = parseSessionRecord({ ...unversioned, state: 'approved' });
+
+    expect(result.ok && result.session.state).toBe('refining');
+  });
+
+  it('structures plain-text questions, including those in snapshots', () => {
+    const round = { round: 1, askedAt: 1000, questions: ['Target users: Who will use this?'] };
+    const result = parseSessionRecord({
+      ...unversioned,
+      schemaVersion: 2,
+      questionRounds: [round],
+      snapshots: [{ snapshotId: 'snap_1', takenAt: 1500, reason: 'questioning → refining', data: { state: 'questioning', userIdea: 'A todo web app', questionRounds: [round] } }]
+    });
+
+    const structured = { id: 'target_users', label: 'Target users', prompt: 'Who will use this?', kind: 'free_text', required: false };
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.migratedFrom).toBe(2);
+      expect(result.session.questionRounds?.[0]?.questions).toEqual([structured]);
+      expect(result.session.snapshots?.[0]?.data.questionRounds?.[0]?.questions).toEqual([structured]);
+    }
+  });
+
+  it('rejects records from a newer server', () => {
+    expect(parseSessionRecord({ ...unversioned, schemaVersion: CURRENT_SESSION_SCHEMA_VERSION + 1 })).toEqual({
+      ok: false,
+      error: `schemaVersion ${CURRENT_SESSION_SCHEMA_VERSION + 1} is newer than supported version ${CURRENT_SESSION_SCHEMA_VERSION}`
+    });
+  });
+
+  it('rejects records that are not sessions', () => {
+    expect(parseSessionRecord(null)).toEqual({ ok: false, error: 'not an object' });
+    expect(parseSessionRecord({ ...unversioned, schemaVersion: 'two' })).toEqual({ ok: false, error: 'invalid schemaVersion "two"' });
+    expect(parseSessionRecord({ ...unversioned, userIdea: undefined })).toEqual({ ok: false, error: 'userIdea: Required' });
+  });
+});
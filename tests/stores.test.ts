@@ -0,0 +1,116 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { SessionCipher, SessionKeyError } from '../src/session-crypto.js';
+import { CURRENT_SESSION_SCHEMA_VERSION, Session } from '../src/session-schema.js';
+import { DirectorySessionStore, JsonFileSessionStore, SessionStore, SqliteSessionStore } from '../src/stores/index.js';
+
+function session(sessionId: string, lastActivity: number, overrides: Partial<Session> = {}): Session {
+  return {
+    schemaVersion: CURRENT_SESSION_SCHEMA_VERSION,
+    sessionId,
+    state: 'questioning',
+    userIdea: 'A todo web app',
+    createdAt: 1000,
+    lastActivity,
+    ...overrides
+  };
+}
+
+const backends: Array<[string, (dir: string, cipher?: SessionCipher) => SessionStore]> = [
+  ['json-file', (dir, cipher) => new JsonFileSessionStore(path.join(dir, 'sessions.json'), undefined, cipher)],
+  ['directory', (dir, cipher) => new DirectorySessionStore(path.join(dir, 'sessions'), undefined, cipher)],
+  ['sqlite', (dir, cipher) => new SqliteSessionStore(path.join(dir, 'sessions.sqlite'), undefined, cipher)]
+];
+
+describe.each(backends)('%s store', (_kind, createStore) => {
+  let dir: string;
+  let store: SessionStore;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'kat-store-'));
+    store = createStore(dir);
+  });
+
+  afterEach(async () => {
+    await store.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('starts out empty', async () => {
+    expect(await store.list()).toEqual([]);
+    expect(await store.loadAll()).toEqual({ sessions: [], invalid: [], migrated: [], stale: [] });
+  });
+
+  it('saves and loads sessions', async () => {
+    await store.save([session('kat_1', 2000), session('kat_2', 3000)]);
+
+    expect((await store.list()).sort()).toEqual(['kat_1', 'kat_2']);
+    expect(await store.load('kat_2')).toEqual(session('kat_2', 3000));
+    expect(await store.load('kat_3')).toBeUndefined();
+  });
+
+  it('keeps the stored copy when it has newer activity', async () => {
+    await store.save([session('kat_1', 5000, { userIdea: 'newer' })]);
+    await store.save([session('kat_1', 4000, { userIdea: 'older' })]);
+
+    expect((await store.load('kat_1'))?.userIdea).toBe('newer');
+  });
+
+  it('only deletes sessions not active since the caller saw them', async () => {
+    await store.save([session('kat_1', 2000), session('kat_2', 3000)]);
+    await store.delete([{ sessionId: 'kat_1', lastActivity: 2000 }, { sessionId: 'kat_2', lastActivity: 2500 }]);
+
+    expect(await store.list()).toEqual(['kat_2']);
+  });
+
+  it('encrypts records and reads them back with the key', async () => {
+    const cipher = new SessionCipher([Buffer.alloc(32, 1)]);
+    await store.close();
+    store = createStore(dir, cipher);
+    await store.save([session('kat_1', 2000, { userIdea: 'secret idea' })]);
+
+    expect((await store.load('kat_1'))?.userIdea).toBe('secret idea');
+    const files = await fs.readdir(dir, { recursive: true, withFileTypes: true });
+    for (const file of files.filter(entry => entry.isFile())) {
+      expect(await fs.readFile(path.join(file.path, file.name), 'utf-8')).not.toContain('secret idea');
+    }
+  });
+
+  it('refuses to read encrypted records without the key', async () => {
+    await store.close();
+    store = createStore(dir, new SessionCipher([Buffer.alloc(32, 1)]));
+    await store.save([session('kat_1', 2000)]);
+    await store.close();
+    store = createStore(dir, new SessionCipher([Buffer.alloc(32, 2)]));
+
+    await expect(store.loadAll()).rejects.toThrow(SessionKeyError);
+  });
+});
+
+describe('json-file store shared by two writers', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'kat-store-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('merges concurrent saves, keeping the most recently active copy', async () => {
+    const file = path.join(dir, 'sessions.json');
+    const first = new JsonFileSessionStore(file);
+    const second = new JsonFileSessionStore(file);
+
+    await Promise.all([
+      first.save([session('kat_1', 2000), session('kat_shared', 5000, { userIdea: 'newer' })]),
+      second.save([session('kat_2', 3000), session('kat_shared', 4000, { userIdea: 'older' })])
+    ]);
+
+    const { sessions } = await first.loadAll();
+    expect(sessions.map(stored => stored.sessionId).sort()).toEqual(['kat_1', 'kat_2', 'kat_shared']);
+    expect(sessions.find(stored => stored.sessionId === 'kat_shared')?.userIdea).toBe('newer');
+  });
+});
@@ -0,0 +1,40 @@
+import { unifiedDiff } from '../src/text-diff.js';
+
+const labels = { from: 'a v1', to: 'a v2' };
+
+describe('unifiedDiff', () => {
+  it('is empty for identical texts', () => {
+    expect(unifiedDiff('one\ntwo', 'one\ntwo', labels)).toBe('');
+  });
+
+  it('shows a changed line with its context', () => {
+    expect(unifiedDiff('one\ntwo\nthree', 'one\n2\nthree', labels)).toBe([
+      '--- a v1',
+      '+++ a v2',
+      '@@ -1,3 +1,3 @@',
+      ' one',
+      '-two',
+      '+2',
+      ' three'
+    ].join('\n'));
+  });
+
+  it('numbers hunks without context', () => {
+    expect(unifiedDiff('', 'new', labels, 0)).toBe(['--- a v1', '+++ a v2', '@@ -1,1 +1,1 @@', '-', '+new'].join('\n'));
+    expect(unifiedDiff('one', 'one\ntwo', labels, 0)).toBe(['--- a v1', '+++ a v2', '@@ -1,0 +2,1 @@', '+two'].join('\n'));
+  });
+
+  it('splits distant changes into separate hunks and merges those at most two contexts apart', () => {
+    const before = Array.from({ length: 20 }, (_, index) => `line ${index + 1}`);
+    const after = before.map(line => line === 'line 2' || line === 'line 18' ? `${line} changed` : line);
+
+    const hunks = unifiedDiff(before.join('\n'), after.join('\n'), labels).split('\n').filter(line => line.startsWith('@@'));
+    expect(hunks).toEqual(['@@ -1,5 +1,5 @@', '@@ -15,6 +15,6 @@']);
+
+    const close = before.map(line => line === 'line 2' || line === 'line 6' ? `${line} changed` : line);
+    expect(unifiedDiff(before.join('\n'), close.join('\n'), labels).split('\n').filter(line => line.startsWith('@@'))).toEqual(['@@ -1,9 +1,9 @@']);
+
+    const touching = before.map(line => line === 'line 2' || line === 'line 9' ? `${line} changed` : line);
+    expect(unifiedDiff(before.join('\n'), touching.join('\n'), labels).split('\n').filter(line => line.startsWith('@@'))).toEqual(['@@ -1,12 +1,12 @@']);
+  });
+});
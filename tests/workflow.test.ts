@@ -0,0 +1,100 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { CURRENT_SESSION_SCHEMA_VERSION, Session } from '../src/session-schema.js';
+import { DEFAULT_WORKFLOW, loadWorkflowDefinition, Workflow, WorkflowDefinition } from '../src/workflow.js';
+
+describe('loadWorkflowDefinition', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'kat-workflow-'));
+    file = path.join(dir, 'workflow.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  // The built-in workflow with some of its states changed
+  async function load(edit: (definition: WorkflowDefinition) => void): Promise<WorkflowDefinition> {
+    const definition: WorkflowDefinition = JSON.parse(JSON.stringify(DEFAULT_WORKFLOW));
+    edit(definition);
+    await fs.writeFile(file, JSON.stringify(definition));
+    return loadWorkflowDefinition(file);
+  }
+
+  function state(definition: WorkflowDefinition, name: string) {
+    return definition.states.find(candidate => candidate.name === name)!;
+  }
+
+  it('accepts the built-in workflow', async () => {
+    await expect(load(() => undefined)).resolves.toEqual(DEFAULT_WORKFLOW);
+  });
+
+  it('accepts a renamed mode bound to a built-in handler', async () => {
+    const definition = await load(workflow => { state(workflow, 'refining').mode = 'polish'; });
+
+    expect(new Workflow(definition).stateForMode('polish')?.handler).toBe('refine');
+  });
+
+  it('rejects transitions to undefined states', async () => {
+    await expect(load(workflow => { state(workflow, 'refining').transitions.push('security_review'); }))
+      .rejects.toThrow('state "refining" has a transition to undefined state "security_review"');
+  });
+
+  it('rejects a next step that is not a transition', async () => {
+    await expect(load(workflow => { state(workflow, 'questioning').next = 'document_review'; }))
+      .rejects.toThrow('state "questioning" has next "document_review", which is not one of its transitions');
+  });
+
+  it('rejects duplicate states and modes', async () => {
+    await expect(load(workflow => { workflow.states.push({ ...state(workflow, 'refining') }); }))
+      .rejects.toThrow(/state "refining" is defined twice; mode "refine" is used by more than one state/);
+  });
+
+  it('rejects an initial state that cannot start sessions', async () => {
+    await expect(load(workflow => { workflow.initialState = 'refining'; }))
+      .rejects.toThrow('initialState "refining" needs handler "question" to start sessions with');
+  });
+
+  it('rejects states whose handler does not run under their tool', async () => {
+    await expect(load(workflow => { state(workflow, 'development').tool = 'deploy'; }))
+      .rejects.toThrow('state "development" has handler "development", which runs under start_development, not deploy');
+    await expect(load(workflow => { delete (state(workflow, 'development') as Partial<WorkflowDefinition['states'][number]>).handler; }))
+      .rejects.toThrow('state "development" has handler "step", which runs under start_interactive_spec, not start_development');
+  });
+
+  it('rejects states entered with start_interactive_spec that have no mode', async () => {
+    await expect(load(workflow => { delete state(workflow, 'refining').mode; }))
+      .rejects.toThrow('state "refining" is entered with start_interactive_spec but has no mode');
+  });
+
+  it('rejects files that do not match the schema', async () => {
+    await expect(load(workflow => { state(workflow, 'refining').guards = ['has_coffee' as never]; }))
+      .rejects.toThrow(/Invalid workflow .*: states\.1\.guards\.0/);
+  });
+});
+
+describe('Workflow', () => {
+  const workflow = new Workflow(DEFAULT_WORKFLOW);
+
+  it('follows the transitions of the definition', () => {
+    expect(workflow.canTransition('document_review', 'refining')).toBe(true);
+    expect(workflow.canTransition('questioning', 'development')).toBe(false);
+    expect(workflow.sourcesOf('refining')).toEqual(['questioning', 'document_review']);
+  });
+
+  it('reports unmet guards', () => {
+    const session: Session = { schemaVersion: CURRENT_SESSION_SCHEMA_VERSION, sessionId: 'kat_1', state: 'final_approval', userIdea: 'x', createdAt: 0, lastActivity: 0 };
+
+    expect(workflow.unmetGuards('final_approval', session)).toEqual(['has_documents', 'documents_approved']);
+  });
+
+  it('describes the guided next call', () => {
+    expect(workflow.requiredTool('questioning')).toBe('start_interactive_spec');
+    expect(workflow.requiredParameters('questioning', 'kat_1')).toEqual({ mode: 'refine', sessionId: 'kat_1' });
+    expect(workflow.requiredParameters('final_approval', 'kat_1')).toBeNull();
+  });
+});